@@ -0,0 +1,226 @@
+/**
+ * Minimal OpenID Connect provider for trying single sign-on locally. Not for production use.
+ *
+ *   pnpm mock-idp
+ *
+ * Then run the app with:
+ *   SSO_ISSUER=http://localhost:9400
+ *   SSO_CLIENT_ID=taplox-admin
+ *   SSO_CLIENT_SECRET=mock-secret
+ *   NEXTAUTH_URL=http://localhost:3000/api/sso
+ *   NEXTAUTH_SECRET=<any random string>
+ *
+ * The sign-in page lists MOCK_IDP_USERS (comma separated emails) or a few defaults.
+ * Keys live in memory, restart the app after restarting the mock so it fetches them again.
+ */
+
+import { createHash, createSign, generateKeyPairSync, randomBytes, randomUUID } from 'node:crypto'
+import { createServer } from 'node:http'
+
+const PORT = Number(process.env.MOCK_IDP_PORT ?? 9400)
+const ISSUER = process.env.MOCK_IDP_ISSUER ?? `http://localhost:${PORT}`
+const CLIENT_ID = process.env.SSO_CLIENT_ID ?? 'taplox-admin'
+const CLIENT_SECRET = process.env.SSO_CLIENT_SECRET ?? 'mock-secret'
+const TOKEN_TTL_SECONDS = 5 * 60
+
+const USERS = (process.env.MOCK_IDP_USERS ?? 'owner@example.com,support@example.com,new.hire@example.com')
+  .split(',')
+  .map((email) => email.trim())
+  .filter(Boolean)
+  .map((email) => ({
+    sub: createHash('sha256').update(email).digest('hex').slice(0, 24),
+    email,
+    email_verified: true,
+    name: email.split('@')[0].replace(/[._-]/g, ' '),
+    preferred_username: email.split('@')[0],
+  }))
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const KEY_ID = randomUUID()
+
+// Authorization codes and access tokens waiting to be redeemed
+const codes = new Map()
+const accessTokens = new Map()
+
+const base64url = (value) => Buffer.from(value).toString('base64url')
+
+const signIdToken = (claims) => {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }))
+  const payload = base64url(JSON.stringify(claims))
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey, 'base64url')
+  return `${header}.${payload}.${signature}`
+}
+
+const escapeHtml = (value) =>
+  String(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    let body = ''
+    request.on('data', (chunk) => (body += chunk))
+    request.on('end', () => resolve(new URLSearchParams(body)))
+    request.on('error', reject)
+  })
+
+const sendJson = (response, status, data) => {
+  response.writeHead(status, { 'content-type': 'application/json', 'cache-control': 'no-store' })
+  response.end(JSON.stringify(data))
+}
+
+const redirect = (response, location) => {
+  response.writeHead(302, { location })
+  response.end()
+}
+
+const discovery = () => ({
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+  userinfo_endpoint: `${ISSUER}/userinfo`,
+  jwks_uri: `${ISSUER}/jwks`,
+  response_types_supported: ['code'],
+  subject_types_supported: ['public'],
+  id_token_signing_alg_values_supported: ['RS256'],
+  scopes_supported: ['openid', 'email', 'profile'],
+  token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+  code_challenge_methods_supported: ['S256'],
+  claims_supported: ['sub', 'email', 'email_verified', 'name', 'preferred_username'],
+})
+
+const renderSignIn = (params) => {
+  const hidden = [...params.entries()]
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('')
+  const buttons = USERS.map(
+    (user) =>
+      `<button name="sub" value="${user.sub}">${escapeHtml(user.name)} <small>${escapeHtml(user.email)}</small></button>`
+  ).join('')
+
+  return `<!doctype html>
+<html><head><title>Mock IdP</title><style>
+body{font-family:system-ui,sans-serif;max-width:420px;margin:10vh auto;padding:0 1rem}
+button{display:block;width:100%;margin:.5rem 0;padding:.75rem;text-align:left;font-size:1rem;cursor:pointer}
+small{display:block;color:#666}
+</style></head><body>
+<h2>Mock identity provider</h2><p>Sign in to <code>${escapeHtml(params.get('client_id'))}</code> as:</p>
+<form method="post" action="/authorize">${hidden}${buttons}</form>
+</body></html>`
+}
+
+const validateAuthorizeRequest = (params) => {
+  if (params.get('client_id') !== CLIENT_ID) return 'unknown client_id'
+  if (params.get('response_type') !== 'code') return 'response_type must be code'
+  if (!params.get('redirect_uri')) return 'redirect_uri is required'
+  return null
+}
+
+const handleToken = async (request, response) => {
+  const body = await readBody(request)
+
+  const basic = request.headers.authorization?.match(/^Basic (.+)$/)
+  const [clientId, clientSecret] = basic
+    ? Buffer.from(basic[1], 'base64').toString().split(':').map(decodeURIComponent)
+    : [body.get('client_id'), body.get('client_secret')]
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    return sendJson(response, 401, { error: 'invalid_client' })
+  }
+
+  const grant = codes.get(body.get('code'))
+  codes.delete(body.get('code'))
+  if (body.get('grant_type') !== 'authorization_code' || !grant || grant.expiresAt < Date.now()) {
+    return sendJson(response, 400, { error: 'invalid_grant' })
+  }
+  if (grant.redirectUri !== body.get('redirect_uri')) {
+    return sendJson(response, 400, { error: 'invalid_grant', error_description: 'redirect_uri mismatch' })
+  }
+  if (grant.codeChallenge) {
+    const verifier = body.get('code_verifier') ?? ''
+    if (createHash('sha256').update(verifier).digest('base64url') !== grant.codeChallenge) {
+      return sendJson(response, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' })
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const accessToken = randomBytes(24).toString('base64url')
+  accessTokens.set(accessToken, grant.user)
+
+  sendJson(response, 200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL_SECONDS,
+    scope: grant.scope,
+    id_token: signIdToken({
+      iss: ISSUER,
+      aud: CLIENT_ID,
+      iat: now,
+      exp: now + TOKEN_TTL_SECONDS,
+      ...(grant.nonce && { nonce: grant.nonce }),
+      ...grant.user,
+    }),
+  })
+}
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url ?? '/', ISSUER)
+
+  try {
+    if (request.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(response, 200, discovery())
+    }
+
+    if (request.method === 'GET' && url.pathname === '/jwks') {
+      return sendJson(response, 200, {
+        keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }],
+      })
+    }
+
+    if (request.method === 'GET' && url.pathname === '/authorize') {
+      const error = validateAuthorizeRequest(url.searchParams)
+      if (error) return sendJson(response, 400, { error: 'invalid_request', error_description: error })
+      response.writeHead(200, { 'content-type': 'text/html; charset=utf-8' })
+      return response.end(renderSignIn(url.searchParams))
+    }
+
+    if (request.method === 'POST' && url.pathname === '/authorize') {
+      const params = await readBody(request)
+      const error = validateAuthorizeRequest(params)
+      const user = USERS.find((candidate) => candidate.sub === params.get('sub'))
+      if (error || !user) return sendJson(response, 400, { error: 'invalid_request', error_description: error ?? 'unknown user' })
+
+      const code = randomBytes(24).toString('base64url')
+      codes.set(code, {
+        user,
+        redirectUri: params.get('redirect_uri'),
+        scope: params.get('scope') ?? 'openid',
+        nonce: params.get('nonce'),
+        codeChallenge: params.get('code_challenge'),
+        expiresAt: Date.now() + 60 * 1000,
+      })
+
+      const target = new URL(params.get('redirect_uri'))
+      target.searchParams.set('code', code)
+      if (params.get('state')) target.searchParams.set('state', params.get('state'))
+      return redirect(response, target.toString())
+    }
+
+    if (request.method === 'POST' && url.pathname === '/token') {
+      return await handleToken(request, response)
+    }
+
+    if (url.pathname === '/userinfo') {
+      const token = request.headers.authorization?.replace(/^Bearer /, '')
+      const user = token && accessTokens.get(token)
+      return user ? sendJson(response, 200, user) : sendJson(response, 401, { error: 'invalid_token' })
+    }
+
+    sendJson(response, 404, { error: 'not_found' })
+  } catch (error) {
+    console.error(error)
+    sendJson(response, 500, { error: 'server_error' })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock IdP listening on ${ISSUER} (client_id=${CLIENT_ID})`)
+  USERS.forEach((user) => console.log(`  ${user.email}  sub=${user.sub}`))
+})
@@ -0,0 +1,105 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Button, Card, CardBody, CardHeader, CardTitle } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+import ActiveSessionsList from '@/components/ActiveSessionsList'
+import { authApi } from '@/lib/auth-api'
+import type { ActiveSessionOut } from '@/types/auth'
+
+const ActiveSessionsCard = () => {
+  const [sessions, setSessions] = useState<ActiveSessionOut[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [revokingOthers, setRevokingOthers] = useState(false)
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await authApi.listSessions()
+      if (response.error || !response.data) {
+        setError(response.error || 'Unable to load your sessions')
+        return
+      }
+      setSessions(response.data)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const handleRevoke = async (session: ActiveSessionOut) => {
+    setRevokingId(session.id)
+    try {
+      const response = await authApi.revokeSession(session.id)
+      if (response.error) {
+        toast.error(response.error)
+        return
+      }
+      setSessions((prev) => prev.filter((item) => item.id !== session.id))
+      toast.success('Device signed out')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleRevokeOthers = async () => {
+    const confirmed = window.confirm('Sign out of every other device? You will stay signed in here.')
+    if (!confirmed) return
+
+    setRevokingOthers(true)
+    try {
+      const response = await authApi.revokeOtherSessions()
+      if (response.error) {
+        toast.error(response.error)
+        return
+      }
+      setSessions((prev) => prev.filter((item) => item.current))
+      toast.success('Signed out of all other devices')
+    } finally {
+      setRevokingOthers(false)
+    }
+  }
+
+  const hasOtherSessions = sessions.some((session) => !session.current)
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="d-flex justify-content-between align-items-start gap-2">
+        <div>
+          <CardTitle as="h5">Active Sessions</CardTitle>
+          <p className="text-muted mb-0">Devices signed in to your account. Sign out any you don&apos;t recognize.</p>
+        </div>
+        {hasOtherSessions && (
+          <Button
+            size="sm"
+            variant="outline-danger"
+            onClick={handleRevokeOthers}
+            disabled={revokingOthers}
+            className="d-inline-flex align-items-center gap-2 flex-shrink-0"
+          >
+            {revokingOthers && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+            Sign out everywhere else
+          </Button>
+        )}
+      </CardHeader>
+      <CardBody>
+        <ActiveSessionsList
+          sessions={sessions}
+          loading={loading}
+          error={error}
+          onRetry={loadSessions}
+          onRevoke={handleRevoke}
+          revokingId={revokingId}
+        />
+      </CardBody>
+    </Card>
+  )
+}
+
+export default ActiveSessionsCard
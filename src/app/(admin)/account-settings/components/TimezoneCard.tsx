@@ -0,0 +1,63 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button, Card, CardBody, CardHeader, CardTitle, Form } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+import { useTimezone } from '@/context/useTimezoneContext'
+import { formatDateTime } from '@/helpers/billing'
+import { getBrowserTimeZone, getTimeZoneOptions } from '@/helpers/timezone'
+
+const TimezoneCard = () => {
+  const { timezone, setTimezone, resetTimezone, isBrowserDefault } = useTimezone()
+  const [saving, setSaving] = useState(false)
+
+  const save = async (update: typeof resetTimezone) => {
+    setSaving(true)
+    const result = await update()
+    setSaving(false)
+    if (result.success) {
+      toast.success('Time zone saved')
+    } else {
+      toast.error(result.error || 'Failed to save your time zone')
+    }
+  }
+
+  const options = getTimeZoneOptions()
+  // A saved zone the runtime no longer lists still has to show as selected
+  const hasCurrent = options.some((option) => option.value === timezone)
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="d-flex justify-content-between align-items-start gap-2">
+        <div>
+          <CardTitle as="h5">Time Zone</CardTitle>
+          <p className="text-muted mb-0">Call timings and every other timestamp are shown in this zone, on every device you sign in on.</p>
+        </div>
+        {!isBrowserDefault && (
+          <Button size="sm" variant="outline-secondary" onClick={() => save(resetTimezone)} disabled={saving} className="flex-shrink-0">
+            Use browser time zone
+          </Button>
+        )}
+      </CardHeader>
+      <CardBody>
+        <Form.Group controlId="account-timezone">
+          <Form.Label>Time zone</Form.Label>
+          <Form.Select value={timezone} onChange={(event) => save(() => setTimezone(event.target.value))} disabled={saving}>
+            {!hasCurrent && <option value={timezone}>{timezone}</option>}
+            {options.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Form.Select>
+          <Form.Text className="text-muted">
+            Now: {formatDateTime(new Date().toISOString(), { timeZone: timezone })}
+            {isBrowserDefault ? ' · following your browser' : ` · your browser uses ${getBrowserTimeZone()}`}
+          </Form.Text>
+        </Form.Group>
+      </CardBody>
+    </Card>
+  )
+}
+
+export default TimezoneCard
@@ -0,0 +1,365 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { Alert, Badge, Button, Card, CardBody, CardHeader, CardTitle, Col, Form, Row } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useAuth } from '@/context/useAuthContext'
+import { authApi } from '@/lib/auth-api'
+import type { TwoFactorSetupOut, TwoFactorStatusOut } from '@/types/auth'
+
+type DisableFormState = {
+  password: string
+  code: string
+}
+
+const initialDisableForm: DisableFormState = {
+  password: '',
+  code: ''
+}
+
+const TOTP_PATTERN = /^\d{6}$/
+
+const normalizeCode = (value: string) => value.replace(/\s/g, '')
+
+const TwoFactorCard = () => {
+  const { refreshUser } = useAuth()
+
+  const [status, setStatus] = useState<TwoFactorStatusOut | null>(null)
+  const [statusError, setStatusError] = useState<string | null>(null)
+
+  // Enrollment: a pending secret is shown until it is confirmed with a code
+  const [setup, setSetup] = useState<TwoFactorSetupOut | null>(null)
+  const [setupLoading, setSetupLoading] = useState(false)
+  const [enableCode, setEnableCode] = useState('')
+  const [enableError, setEnableError] = useState<string | null>(null)
+  const [enabling, setEnabling] = useState(false)
+
+  // Recovery codes are only ever shown right after they are generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const [regenerateCode, setRegenerateCode] = useState('')
+  const [regenerateError, setRegenerateError] = useState<string | null>(null)
+  const [regenerating, setRegenerating] = useState(false)
+
+  const [disableForm, setDisableForm] = useState<DisableFormState>(initialDisableForm)
+  const [disableErrors, setDisableErrors] = useState<Partial<Record<keyof DisableFormState, string>>>({})
+  const [disabling, setDisabling] = useState(false)
+
+  const loadStatus = async () => {
+    setStatusError(null)
+    const response = await authApi.getTwoFactorStatus()
+    if (response.error || !response.data) {
+      setStatusError(response.error || 'Unable to load two-factor status')
+      return
+    }
+    setStatus(response.data)
+  }
+
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  const handleStartSetup = async () => {
+    setSetupLoading(true)
+    try {
+      const response = await authApi.setupTwoFactor()
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Unable to start two-factor setup')
+        return
+      }
+      setSetup(response.data)
+      setEnableCode('')
+      setEnableError(null)
+    } finally {
+      setSetupLoading(false)
+    }
+  }
+
+  const handleEnable = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const code = normalizeCode(enableCode)
+    if (!TOTP_PATTERN.test(code)) {
+      setEnableError('Enter the 6-digit code from your authenticator app')
+      return
+    }
+
+    setEnabling(true)
+    try {
+      const response = await authApi.enableTwoFactor(code)
+      if (response.error || !response.data) {
+        setEnableError(response.error || 'Invalid code')
+        return
+      }
+
+      setRecoveryCodes(response.data.recovery_codes)
+      setSetup(null)
+      setStatus({ enabled: true, recovery_codes_remaining: response.data.recovery_codes.length })
+      await refreshUser()
+      toast.success('Two-factor authentication enabled')
+    } finally {
+      setEnabling(false)
+    }
+  }
+
+  const handleRegenerate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const code = normalizeCode(regenerateCode)
+    if (!TOTP_PATTERN.test(code)) {
+      setRegenerateError('Enter the 6-digit code from your authenticator app')
+      return
+    }
+
+    setRegenerating(true)
+    try {
+      const response = await authApi.regenerateRecoveryCodes(code)
+      if (response.error || !response.data) {
+        setRegenerateError(response.error || 'Invalid code')
+        return
+      }
+
+      setRecoveryCodes(response.data.recovery_codes)
+      setStatus((prev) => (prev ? { ...prev, recovery_codes_remaining: response.data!.recovery_codes.length } : prev))
+      setRegenerateCode('')
+      toast.success('New recovery codes generated')
+    } finally {
+      setRegenerating(false)
+    }
+  }
+
+  const handleDisable = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const errors: Partial<Record<keyof DisableFormState, string>> = {}
+    if (!disableForm.password) errors.password = 'Password is required'
+    if (!TOTP_PATTERN.test(normalizeCode(disableForm.code))) errors.code = 'Enter the 6-digit code from your authenticator app'
+    setDisableErrors(errors)
+    if (Object.keys(errors).length > 0) return
+
+    setDisabling(true)
+    try {
+      const response = await authApi.disableTwoFactor({
+        password: disableForm.password,
+        code: normalizeCode(disableForm.code)
+      })
+      if (response.error) {
+        if (response.status === 400 || response.status === 401) {
+          setDisableErrors({ code: response.error })
+        } else {
+          toast.error(response.error)
+        }
+        return
+      }
+
+      setStatus({ enabled: false, recovery_codes_remaining: 0 })
+      setRecoveryCodes(null)
+      setDisableForm(initialDisableForm)
+      await refreshUser()
+      toast.success('Two-factor authentication disabled')
+    } finally {
+      setDisabling(false)
+    }
+  }
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'))
+      toast.success('Recovery codes copied')
+    } catch {
+      toast.error('Unable to copy, please write the codes down')
+    }
+  }
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return
+    const blob = new Blob([`${recoveryCodes.join('\n')}\n`], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="d-flex justify-content-between align-items-start gap-2">
+        <div>
+          <CardTitle as="h5">Two-Factor Authentication</CardTitle>
+          <p className="text-muted mb-0">Require a code from an authenticator app when you sign in to the admin portal.</p>
+        </div>
+        {status && <Badge bg={status.enabled ? 'success' : 'secondary'}>{status.enabled ? 'Enabled' : 'Disabled'}</Badge>}
+      </CardHeader>
+      <CardBody>
+        {statusError && (
+          <Alert variant="danger" className="d-flex justify-content-between align-items-center">
+            <span>{statusError}</span>
+            <Button size="sm" variant="outline-danger" onClick={loadStatus}>
+              Retry
+            </Button>
+          </Alert>
+        )}
+
+        {!status && !statusError && (
+          <div className="text-center py-3">
+            <span className="spinner-border spinner-border-sm text-primary" role="status" />
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <Alert variant="warning">
+            <p className="fw-semibold mb-2">Save your recovery codes</p>
+            <p className="small mb-3">
+              Each code signs you in once if you lose your authenticator. They will not be shown again.
+            </p>
+            <Row className="g-2 mb-3">
+              {recoveryCodes.map((code) => (
+                <Col xs={6} md={3} key={code}>
+                  <code className="d-block text-center bg-light rounded py-1">{code}</code>
+                </Col>
+              ))}
+            </Row>
+            <div className="d-flex gap-2">
+              <Button size="sm" variant="outline-dark" onClick={handleCopyCodes}>
+                <IconifyIcon icon="solar:copy-outline" width={16} height={16} className="me-1" />
+                Copy
+              </Button>
+              <Button size="sm" variant="outline-dark" onClick={handleDownloadCodes}>
+                <IconifyIcon icon="solar:download-minimalistic-outline" width={16} height={16} className="me-1" />
+                Download
+              </Button>
+              <Button size="sm" variant="dark" className="ms-auto" onClick={() => setRecoveryCodes(null)}>
+                I&apos;ve saved them
+              </Button>
+            </div>
+          </Alert>
+        )}
+
+        {status && !status.enabled && !setup && (
+          <Button variant="primary" onClick={handleStartSetup} disabled={setupLoading} className="d-inline-flex align-items-center gap-2">
+            {setupLoading && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+            Set up two-factor authentication
+          </Button>
+        )}
+
+        {status && !status.enabled && setup && (
+          <Row className="g-4 align-items-center">
+            <Col md={4} className="text-center">
+              <Image src={setup.qr_code} alt="Authenticator QR code" width={180} height={180} unoptimized />
+            </Col>
+            <Col md={8}>
+              <ol className="ps-3 mb-3">
+                <li>Scan the QR code with an authenticator app such as Google Authenticator or 1Password.</li>
+                <li>
+                  Can&apos;t scan it? Enter this key instead: <code className="user-select-all">{setup.secret}</code>
+                </li>
+                <li>Enter the 6-digit code the app shows to finish.</li>
+              </ol>
+              <Form onSubmit={handleEnable} noValidate>
+                <Form.Group controlId="two-factor-enable-code" className="mb-3">
+                  <Form.Label>Authentication code</Form.Label>
+                  <Form.Control
+                    value={enableCode}
+                    onChange={(event) => {
+                      setEnableCode(event.target.value)
+                      setEnableError(null)
+                    }}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={7}
+                    isInvalid={!!enableError}
+                  />
+                  <Form.Control.Feedback type="invalid">{enableError}</Form.Control.Feedback>
+                </Form.Group>
+                <div className="d-flex gap-2 justify-content-end">
+                  <Button variant="light" onClick={() => setSetup(null)} disabled={enabling}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" variant="primary" disabled={enabling} className="d-inline-flex align-items-center gap-2">
+                    {enabling && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+                    Enable
+                  </Button>
+                </div>
+              </Form>
+            </Col>
+          </Row>
+        )}
+
+        {status?.enabled && (
+          <Row className="g-4">
+            <Col md={6}>
+              <h6 className="mb-1">Recovery codes</h6>
+              <p className="text-muted small">
+                {status.recovery_codes_remaining} unused code{status.recovery_codes_remaining === 1 ? '' : 's'} left. Generating new
+                codes replaces the old ones.
+              </p>
+              <Form onSubmit={handleRegenerate} noValidate>
+                <Form.Group controlId="two-factor-regenerate-code" className="mb-3">
+                  <Form.Label>Authentication code</Form.Label>
+                  <Form.Control
+                    value={regenerateCode}
+                    onChange={(event) => {
+                      setRegenerateCode(event.target.value)
+                      setRegenerateError(null)
+                    }}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={7}
+                    isInvalid={!!regenerateError}
+                  />
+                  <Form.Control.Feedback type="invalid">{regenerateError}</Form.Control.Feedback>
+                </Form.Group>
+                <Button type="submit" variant="outline-primary" disabled={regenerating} className="d-inline-flex align-items-center gap-2">
+                  {regenerating && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+                  Generate new codes
+                </Button>
+              </Form>
+            </Col>
+            <Col md={6}>
+              <h6 className="mb-1">Turn off</h6>
+              <p className="text-muted small">Confirm with your password and a current code.</p>
+              <Form onSubmit={handleDisable} noValidate>
+                <Form.Group controlId="two-factor-disable-password" className="mb-3">
+                  <Form.Label>Password</Form.Label>
+                  <Form.Control
+                    type="password"
+                    autoComplete="current-password"
+                    value={disableForm.password}
+                    onChange={(event) => {
+                      setDisableForm((prev) => ({ ...prev, password: event.target.value }))
+                      setDisableErrors((prev) => ({ ...prev, password: undefined }))
+                    }}
+                    isInvalid={!!disableErrors.password}
+                  />
+                  <Form.Control.Feedback type="invalid">{disableErrors.password}</Form.Control.Feedback>
+                </Form.Group>
+                <Form.Group controlId="two-factor-disable-code" className="mb-3">
+                  <Form.Label>Authentication code</Form.Label>
+                  <Form.Control
+                    value={disableForm.code}
+                    onChange={(event) => {
+                      setDisableForm((prev) => ({ ...prev, code: event.target.value }))
+                      setDisableErrors((prev) => ({ ...prev, code: undefined }))
+                    }}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={7}
+                    isInvalid={!!disableErrors.code}
+                  />
+                  <Form.Control.Feedback type="invalid">{disableErrors.code}</Form.Control.Feedback>
+                </Form.Group>
+                <Button type="submit" variant="outline-danger" disabled={disabling} className="d-inline-flex align-items-center gap-2">
+                  {disabling && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+                  Disable two-factor authentication
+                </Button>
+              </Form>
+            </Col>
+          </Row>
+        )}
+      </CardBody>
+    </Card>
+  )
+}
+
+export default TwoFactorCard
@@ -0,0 +1,325 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button, Card, CardBody, CardHeader, CardTitle, Col, Form, Row } from 'react-bootstrap'
+import Link from 'next/link'
+import { toast } from 'react-toastify'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import PasswordRequirements from '@/components/PasswordRequirements'
+import { useAuth } from '@/context/useAuthContext'
+import { PASSWORD_REQUIREMENTS } from '@/helpers/password'
+import { isStaffRole } from '@/helpers/permissions'
+import { mapFieldErrors } from '@/lib/api-error'
+import { authApi } from '@/lib/auth-api'
+import ActiveSessionsCard from './components/ActiveSessionsCard'
+import TimezoneCard from './components/TimezoneCard'
+import TwoFactorCard from './components/TwoFactorCard'
+
+type PasswordFormState = {
+  currentPassword: string
+  newPassword: string
+  confirmPassword: string
+}
+
+type UsernameFormState = {
+  newUsername: string
+  password: string
+}
+
+const initialPasswordForm: PasswordFormState = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: ''
+}
+
+const initialUsernameForm: UsernameFormState = {
+  newUsername: '',
+  password: ''
+}
+
+const passwordFieldMap: Record<string, keyof PasswordFormState> = {
+  current_password: 'currentPassword',
+  new_password: 'newPassword'
+}
+
+const usernameFieldMap: Record<string, keyof UsernameFormState> = {
+  new_username: 'newUsername',
+  password: 'password'
+}
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_-]{3,64}$/
+
+const AccountSettingsPage = () => {
+  const { user, refreshUser } = useAuth()
+
+  const [passwordForm, setPasswordForm] = useState<PasswordFormState>(initialPasswordForm)
+  const [passwordErrors, setPasswordErrors] = useState<Partial<Record<keyof PasswordFormState, string>>>({})
+  const [passwordSubmitting, setPasswordSubmitting] = useState(false)
+
+  const [usernameForm, setUsernameForm] = useState<UsernameFormState>(initialUsernameForm)
+  const [usernameErrors, setUsernameErrors] = useState<Partial<Record<keyof UsernameFormState, string>>>({})
+  const [usernameSubmitting, setUsernameSubmitting] = useState(false)
+
+  const handlePasswordChange = (field: keyof PasswordFormState) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setPasswordForm((prev) => ({ ...prev, [field]: event.target.value }))
+    setPasswordErrors((prev) => ({ ...prev, [field]: undefined }))
+  }
+
+  const handleUsernameChange = (field: keyof UsernameFormState) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setUsernameForm((prev) => ({ ...prev, [field]: event.target.value }))
+    setUsernameErrors((prev) => ({ ...prev, [field]: undefined }))
+  }
+
+  const validatePasswordForm = () => {
+    const errors: Partial<Record<keyof PasswordFormState, string>> = {}
+    if (!passwordForm.currentPassword) errors.currentPassword = 'Current password is required'
+    if (!PASSWORD_REQUIREMENTS.every((requirement) => requirement.test(passwordForm.newPassword))) {
+      errors.newPassword = 'New password does not meet the requirements below'
+    } else if (passwordForm.newPassword === passwordForm.currentPassword) {
+      errors.newPassword = 'New password must be different from the current one'
+    }
+    if (passwordForm.confirmPassword !== passwordForm.newPassword) errors.confirmPassword = 'Passwords must match'
+    setPasswordErrors(errors)
+    return Object.keys(errors).length === 0
+  }
+
+  const validateUsernameForm = () => {
+    const errors: Partial<Record<keyof UsernameFormState, string>> = {}
+    const newUsername = usernameForm.newUsername.trim()
+    if (!USERNAME_PATTERN.test(newUsername)) {
+      errors.newUsername = 'Use 3-64 letters, numbers, underscores, or hyphens'
+    } else if (newUsername === user?.username) {
+      errors.newUsername = 'This is already your username'
+    }
+    if (!usernameForm.password) errors.password = 'Password is required to confirm the change'
+    setUsernameErrors(errors)
+    return Object.keys(errors).length === 0
+  }
+
+  const handleChangePassword = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!validatePasswordForm()) return
+
+    setPasswordSubmitting(true)
+    try {
+      const response = await authApi.changePassword({
+        current_password: passwordForm.currentPassword,
+        new_password: passwordForm.newPassword
+      })
+      if (response.error) {
+        const serverErrors = mapFieldErrors(response.apiError, passwordFieldMap)
+        if (Object.keys(serverErrors).length > 0) {
+          setPasswordErrors(serverErrors)
+        } else if (response.status === 400 || response.status === 401) {
+          // A rejected current password is reported without field details
+          setPasswordErrors({ currentPassword: response.error })
+        } else {
+          toast.error(response.error)
+        }
+        return
+      }
+
+      toast.success('Password updated successfully')
+      setPasswordForm(initialPasswordForm)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to update password')
+    } finally {
+      setPasswordSubmitting(false)
+    }
+  }
+
+  const handleChangeUsername = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!validateUsernameForm()) return
+
+    setUsernameSubmitting(true)
+    try {
+      const response = await authApi.changeUsername({
+        new_username: usernameForm.newUsername.trim(),
+        password: usernameForm.password
+      })
+      if (response.error) {
+        const serverErrors = mapFieldErrors(response.apiError, usernameFieldMap)
+        if (Object.keys(serverErrors).length > 0) {
+          setUsernameErrors(serverErrors)
+        } else if (response.status === 409) {
+          setUsernameErrors({ newUsername: response.error })
+        } else if (response.status === 400 || response.status === 401) {
+          setUsernameErrors({ password: response.error })
+        } else {
+          toast.error(response.error)
+        }
+        return
+      }
+
+      // Pull the new username into useAuth().user so the topbar and menus update
+      await refreshUser()
+      toast.success('Username updated successfully')
+      setUsernameForm(initialUsernameForm)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to update username')
+    } finally {
+      setUsernameSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Row>
+        <Col xs={12}>
+          <div className="page-title-box">
+            <h4 className="mb-0">Account Settings</h4>
+            <ol className="breadcrumb mb-0">
+              <li className="breadcrumb-item">
+                <Link href="/">Taplox</Link>
+              </li>
+              <div className="mx-1" style={{ height: 24, paddingRight: '8px' }}>
+                <IconifyIcon icon="bx:chevron-right" height={16} width={16} />
+              </div>
+              <li className="breadcrumb-item active">Account Settings</li>
+            </ol>
+          </div>
+        </Col>
+      </Row>
+
+      <Row className="mt-4 g-4">
+        <Col lg={4}>
+          <Card className="h-100">
+            <CardHeader>
+              <CardTitle as="h5">Profile</CardTitle>
+            </CardHeader>
+            <CardBody>
+              <dl className="mb-0">
+                <dt className="text-muted small">Username</dt>
+                <dd className="fw-semibold">{user?.username ?? '—'}</dd>
+                <dt className="text-muted small">Email</dt>
+                <dd className="fw-semibold">{user?.email ?? '—'}</dd>
+                <dt className="text-muted small">Role</dt>
+                <dd className="mb-0">
+                  <span className="badge bg-primary text-capitalize">{user?.role ?? '—'}</span>
+                </dd>
+              </dl>
+            </CardBody>
+          </Card>
+        </Col>
+
+        <Col lg={8}>
+          <Card>
+            <CardHeader>
+              <CardTitle as="h5">Change Password</CardTitle>
+              <p className="text-muted mb-0">Confirm your current password before choosing a new one.</p>
+            </CardHeader>
+            <CardBody>
+              <Form onSubmit={handleChangePassword} noValidate>
+                <Row className="g-3">
+                  <Col md={12}>
+                    <Form.Group controlId="account-current-password">
+                      <Form.Label>Current password</Form.Label>
+                      <Form.Control
+                        type="password"
+                        autoComplete="current-password"
+                        value={passwordForm.currentPassword}
+                        onChange={handlePasswordChange('currentPassword')}
+                        isInvalid={!!passwordErrors.currentPassword}
+                      />
+                      <Form.Control.Feedback type="invalid">{passwordErrors.currentPassword}</Form.Control.Feedback>
+                    </Form.Group>
+                  </Col>
+                  <Col md={6}>
+                    <Form.Group controlId="account-new-password">
+                      <Form.Label>New password</Form.Label>
+                      <Form.Control
+                        type="password"
+                        autoComplete="new-password"
+                        value={passwordForm.newPassword}
+                        onChange={handlePasswordChange('newPassword')}
+                        isInvalid={!!passwordErrors.newPassword}
+                      />
+                      <Form.Control.Feedback type="invalid">{passwordErrors.newPassword}</Form.Control.Feedback>
+                    </Form.Group>
+                  </Col>
+                  <Col md={6}>
+                    <Form.Group controlId="account-confirm-password">
+                      <Form.Label>Confirm new password</Form.Label>
+                      <Form.Control
+                        type="password"
+                        autoComplete="new-password"
+                        value={passwordForm.confirmPassword}
+                        onChange={handlePasswordChange('confirmPassword')}
+                        isInvalid={!!passwordErrors.confirmPassword}
+                      />
+                      <Form.Control.Feedback type="invalid">{passwordErrors.confirmPassword}</Form.Control.Feedback>
+                    </Form.Group>
+                  </Col>
+                  <Col xs={12}>
+                    <PasswordRequirements password={passwordForm.newPassword} />
+                  </Col>
+                  <Col xs={12} className="d-flex justify-content-end">
+                    <Button type="submit" variant="primary" disabled={passwordSubmitting} className="d-inline-flex align-items-center gap-2">
+                      {passwordSubmitting && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+                      Update password
+                    </Button>
+                  </Col>
+                </Row>
+              </Form>
+            </CardBody>
+          </Card>
+
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle as="h5">Change Username</CardTitle>
+              <p className="text-muted mb-0">Enter your password to confirm it&apos;s you.</p>
+            </CardHeader>
+            <CardBody>
+              <Form onSubmit={handleChangeUsername} noValidate>
+                <Row className="g-3">
+                  <Col md={6}>
+                    <Form.Group controlId="account-new-username">
+                      <Form.Label>New username</Form.Label>
+                      <Form.Control
+                        autoComplete="username"
+                        value={usernameForm.newUsername}
+                        onChange={handleUsernameChange('newUsername')}
+                        placeholder={user?.username}
+                        isInvalid={!!usernameErrors.newUsername}
+                      />
+                      <Form.Control.Feedback type="invalid">{usernameErrors.newUsername}</Form.Control.Feedback>
+                    </Form.Group>
+                  </Col>
+                  <Col md={6}>
+                    <Form.Group controlId="account-username-password">
+                      <Form.Label>Password</Form.Label>
+                      <Form.Control
+                        type="password"
+                        autoComplete="current-password"
+                        value={usernameForm.password}
+                        onChange={handleUsernameChange('password')}
+                        isInvalid={!!usernameErrors.password}
+                      />
+                      <Form.Control.Feedback type="invalid">{usernameErrors.password}</Form.Control.Feedback>
+                    </Form.Group>
+                  </Col>
+                  <Col xs={12} className="d-flex justify-content-end">
+                    <Button type="submit" variant="primary" disabled={usernameSubmitting} className="d-inline-flex align-items-center gap-2">
+                      {usernameSubmitting && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+                      Update username
+                    </Button>
+                  </Col>
+                </Row>
+              </Form>
+            </CardBody>
+          </Card>
+
+          {/* 2FA guards the admin sign-in, customer accounts don't use it */}
+          {isStaffRole(user?.role) && <TwoFactorCard />}
+
+          <TimezoneCard />
+
+          <ActiveSessionsCard />
+        </Col>
+      </Row>
+    </>
+  )
+}
+
+export default AccountSettingsPage
@@ -0,0 +1,116 @@
+'use client'
+
+import React from 'react'
+import { Badge, Button, Card, CardBody, Spinner } from 'react-bootstrap'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { formatDueDate, getActionItemStatusLabel, getAdjacentStatus, isActionItemOverdue } from '@/helpers/action-items'
+import { formatCallTime } from '@/helpers/summary'
+import type { ActionItemOut, ActionItemStatus } from '@/types/action-items'
+
+interface ActionItemCardProps {
+  item: ActionItemOut
+  canEdit: boolean
+  updating: boolean
+  loadingCall: boolean
+  onMove: (item: ActionItemOut, status: ActionItemStatus) => void
+  onEdit: (item: ActionItemOut) => void
+  onViewCall: (item: ActionItemOut) => void
+}
+
+/**
+ * One action item on the board, with controls to move it along the workflow
+ */
+const ActionItemCard: React.FC<ActionItemCardProps> = ({ item, canEdit, updating, loadingCall, onMove, onEdit, onViewCall }) => {
+  const previousStatus = getAdjacentStatus(item.status, 'back')
+  const nextStatus = getAdjacentStatus(item.status, 'forward')
+  const overdue = isActionItemOverdue(item)
+
+  return (
+    <Card className={`mb-2 shadow-none border ${overdue ? 'border-danger' : ''}`}>
+      <CardBody className="p-3">
+        <p className="mb-2 fw-medium">{item.text}</p>
+
+        <div className="d-flex flex-wrap gap-2 mb-2 small">
+          <span className="text-muted d-inline-flex align-items-center gap-1">
+            <IconifyIcon icon="solar:user-outline" width={14} height={14} />
+            {item.assignee || <span className="fst-italic">Unassigned</span>}
+          </span>
+          {item.due_date && (
+            <Badge bg={overdue ? 'danger' : 'light'} text={overdue ? undefined : 'dark'} className="d-inline-flex align-items-center gap-1">
+              <IconifyIcon icon="solar:calendar-outline" width={12} height={12} />
+              {overdue ? 'Overdue · ' : 'Due '}
+              {formatDueDate(item.due_date)}
+            </Badge>
+          )}
+        </div>
+
+        <div className="small text-muted mb-3">
+          {item.caller_name || item.caller_number || 'Unknown caller'} · {formatCallTime(item.call_timing)}
+        </div>
+
+        <div className="d-flex align-items-center gap-1">
+          <Button
+            variant="light"
+            size="sm"
+            onClick={() => onViewCall(item)}
+            disabled={loadingCall}
+            title="View source call"
+          >
+            {loadingCall ? (
+              <Spinner animation="border" size="sm" />
+            ) : (
+              <IconifyIcon icon="solar:eye-outline" width={16} height={16} />
+            )}
+          </Button>
+          {item.recording_link && (
+            <Button
+              variant="light"
+              size="sm"
+              as="a"
+              href={item.recording_link}
+              target="_blank"
+              rel="noopener noreferrer"
+              title="Play recording"
+            >
+              <IconifyIcon icon="solar:play-outline" width={16} height={16} />
+            </Button>
+          )}
+          {canEdit && (
+            <>
+              <Button variant="light" size="sm" onClick={() => onEdit(item)} disabled={updating} title="Assign or set due date">
+                <IconifyIcon icon="solar:pen-outline" width={16} height={16} />
+              </Button>
+              <div className="ms-auto d-flex gap-1">
+                {previousStatus && (
+                  <Button
+                    variant="outline-secondary"
+                    size="sm"
+                    onClick={() => onMove(item, previousStatus)}
+                    disabled={updating}
+                    title={`Move back to ${getActionItemStatusLabel(previousStatus)}`}
+                  >
+                    <IconifyIcon icon="solar:alt-arrow-left-outline" width={16} height={16} />
+                  </Button>
+                )}
+                {nextStatus && (
+                  <Button
+                    variant="outline-primary"
+                    size="sm"
+                    onClick={() => onMove(item, nextStatus)}
+                    disabled={updating}
+                    className="d-inline-flex align-items-center gap-1"
+                  >
+                    {updating && <Spinner animation="border" size="sm" />}
+                    {nextStatus === 'done' ? 'Mark done' : 'Start'}
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  )
+}
+
+export default ActionItemCard
@@ -0,0 +1,97 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Button, Form, Modal, ModalBody, ModalFooter, ModalHeader, ModalTitle } from 'react-bootstrap'
+import { ACTION_ITEM_STATUSES } from '@/helpers/action-items'
+import type { ActionItemOut, ActionItemStatus, ActionItemUpdatePayload } from '@/types/action-items'
+
+interface ActionItemEditModalProps {
+  item: ActionItemOut | null
+  onHide: () => void
+  // Resolves true once the change is saved so the modal can close
+  onSave: (item: ActionItemOut, payload: ActionItemUpdatePayload) => Promise<boolean>
+}
+
+const ASSIGNEE_MAX_LENGTH = 100
+
+/**
+ * Assign an action item, set its due date or change its status
+ */
+const ActionItemEditModal: React.FC<ActionItemEditModalProps> = ({ item, onHide, onSave }) => {
+  const [status, setStatus] = useState<ActionItemStatus>('open')
+  const [assignee, setAssignee] = useState('')
+  const [dueDate, setDueDate] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!item) return
+    setStatus(item.status)
+    setAssignee(item.assignee ?? '')
+    setDueDate(item.due_date ?? '')
+  }, [item])
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!item) return
+
+    setSaving(true)
+    try {
+      // Empty fields clear the assignee or due date
+      const saved = await onSave(item, {
+        status,
+        assignee: assignee.trim() || null,
+        due_date: dueDate || null
+      })
+      if (saved) onHide()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Modal show={!!item} onHide={onHide} centered>
+      <Form onSubmit={handleSubmit} noValidate>
+        <ModalHeader closeButton>
+          <ModalTitle as="h5">Edit Action Item</ModalTitle>
+        </ModalHeader>
+        <ModalBody>
+          <p className="fw-medium">{item?.text}</p>
+          <Form.Group controlId="action-item-status" className="mb-3">
+            <Form.Label>Status</Form.Label>
+            <Form.Select value={status} onChange={(event) => setStatus(event.target.value as ActionItemStatus)}>
+              {ACTION_ITEM_STATUSES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Form.Select>
+          </Form.Group>
+          <Form.Group controlId="action-item-assignee" className="mb-3">
+            <Form.Label>Assignee</Form.Label>
+            <Form.Control
+              value={assignee}
+              onChange={(event) => setAssignee(event.target.value)}
+              maxLength={ASSIGNEE_MAX_LENGTH}
+              placeholder="Who is following up?"
+            />
+          </Form.Group>
+          <Form.Group controlId="action-item-due-date">
+            <Form.Label>Due date</Form.Label>
+            <Form.Control type="date" value={dueDate} onChange={(event) => setDueDate(event.target.value)} />
+          </Form.Group>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="secondary" onClick={onHide} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={saving} className="d-inline-flex align-items-center gap-2">
+            {saving && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+            Save
+          </Button>
+        </ModalFooter>
+      </Form>
+    </Modal>
+  )
+}
+
+export default ActionItemEditModal
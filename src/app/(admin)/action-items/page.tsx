@@ -0,0 +1,387 @@
+'use client'
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Alert, Badge, Button, Card, CardBody, CardHeader, Col, Form, InputGroup, Row, Spinner } from 'react-bootstrap'
+import Link from 'next/link'
+import { toast } from 'react-toastify'
+import CallSummaryModal from '@/components/CallSummaryModal'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useAuth } from '@/context/useAuthContext'
+import { ACTION_ITEM_STATUSES } from '@/helpers/action-items'
+import usePermission from '@/hooks/usePermission'
+import { actionItemsApi } from '@/lib/action-items-api'
+import { summaryApi } from '@/lib/summary-api'
+import type { ActionItemDueFilter, ActionItemOut, ActionItemStatus, ActionItemUpdatePayload } from '@/types/action-items'
+import type { CallSummary } from '@/types/summary'
+import ActionItemCard from './components/ActionItemCard'
+import ActionItemEditModal from './components/ActionItemEditModal'
+
+type BoardColumnState = {
+  items: ActionItemOut[]
+  total: number
+  loading: boolean
+  error: string | null
+}
+
+const COLUMN_PAGE_SIZE = 20
+
+const DUE_FILTER_OPTIONS: { value: ActionItemDueFilter; label: string }[] = [
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Due today' },
+  { value: 'week', label: 'Due this week' },
+  { value: 'none', label: 'No due date' }
+]
+
+const emptyColumn = (): BoardColumnState => ({ items: [], total: 0, loading: true, error: null })
+
+const initialColumns = (): Record<ActionItemStatus, BoardColumnState> => ({
+  open: emptyColumn(),
+  in_progress: emptyColumn(),
+  done: emptyColumn()
+})
+
+const ActionItemsPage = () => {
+  const { isAuthenticated } = useAuth()
+  const canEdit = usePermission('action-items:write')
+
+  const [columns, setColumns] = useState<Record<ActionItemStatus, BoardColumnState>>(initialColumns)
+
+  const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [assigneeQuery, setAssigneeQuery] = useState('')
+  const [debouncedAssignee, setDebouncedAssignee] = useState('')
+  const [statusFilter, setStatusFilter] = useState<ActionItemStatus | ''>('')
+  const [dueFilter, setDueFilter] = useState<ActionItemDueFilter | ''>('')
+
+  const [updatingIds, setUpdatingIds] = useState<Set<string>>(new Set())
+  const [editingItem, setEditingItem] = useState<ActionItemOut | null>(null)
+  const [selectedCall, setSelectedCall] = useState<CallSummary | null>(null)
+  const [loadingCallId, setLoadingCallId] = useState<string | null>(null)
+
+  const abortControllersRef = useRef<Partial<Record<ActionItemStatus, AbortController>>>({})
+
+  const visibleStatuses = ACTION_ITEM_STATUSES.filter((option) => !statusFilter || option.value === statusFilter)
+  const hasFilters = !!(debouncedSearch || debouncedAssignee || statusFilter || dueFilter)
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchQuery.trim())
+      setDebouncedAssignee(assigneeQuery.trim())
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [searchQuery, assigneeQuery])
+
+  const fetchColumn = useCallback(
+    async (status: ActionItemStatus, skip = 0) => {
+      if (!isAuthenticated) return
+
+      // Cancel any in-flight request for this column so stale filters can't overwrite newer results
+      abortControllersRef.current[status]?.abort()
+      const controller = new AbortController()
+      abortControllersRef.current[status] = controller
+
+      setColumns((prev) => ({ ...prev, [status]: { ...prev[status], loading: true, error: null } }))
+
+      try {
+        const response = await actionItemsApi.listItems(
+          {
+            skip,
+            limit: COLUMN_PAGE_SIZE,
+            status,
+            search: debouncedSearch || undefined,
+            assignee: debouncedAssignee || undefined,
+            due: dueFilter || undefined
+          },
+          { signal: controller.signal }
+        )
+
+        if (response.aborted) return
+
+        if (response.error || !response.data) {
+          const message = response.error || 'Failed to load action items'
+          setColumns((prev) => ({ ...prev, [status]: { ...prev[status], loading: false, error: message } }))
+          return
+        }
+
+        const { items, total } = response.data
+        setColumns((prev) => ({
+          ...prev,
+          [status]: {
+            items: skip > 0 ? [...prev[status].items, ...items] : items,
+            total,
+            loading: false,
+            error: null
+          }
+        }))
+      } catch (err) {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : 'Failed to load action items'
+        setColumns((prev) => ({ ...prev, [status]: { ...prev[status], loading: false, error: message } }))
+      }
+    },
+    [isAuthenticated, debouncedSearch, debouncedAssignee, dueFilter]
+  )
+
+  const refreshBoard = useCallback(() => {
+    ACTION_ITEM_STATUSES.forEach(({ value }) => {
+      if (!statusFilter || value === statusFilter) fetchColumn(value)
+    })
+  }, [fetchColumn, statusFilter])
+
+  useEffect(() => {
+    refreshBoard()
+  }, [refreshBoard])
+
+  useEffect(() => {
+    const controllers = abortControllersRef.current
+    return () => Object.values(controllers).forEach((controller) => controller?.abort())
+  }, [])
+
+  const setUpdating = (itemId: string, updating: boolean) => {
+    setUpdatingIds((prev) => {
+      const next = new Set(prev)
+      if (updating) {
+        next.add(itemId)
+      } else {
+        next.delete(itemId)
+      }
+      return next
+    })
+  }
+
+  // Replace the item in place, or move it across columns when its status changed
+  const applyUpdatedItem = (previous: ActionItemOut, updated: ActionItemOut) => {
+    setColumns((prev) => {
+      if (previous.status === updated.status) {
+        const column = prev[updated.status]
+        return {
+          ...prev,
+          [updated.status]: { ...column, items: column.items.map((item) => (item.id === updated.id ? updated : item)) }
+        }
+      }
+
+      const from = prev[previous.status]
+      const to = prev[updated.status]
+      return {
+        ...prev,
+        [previous.status]: {
+          ...from,
+          items: from.items.filter((item) => item.id !== updated.id),
+          total: Math.max(0, from.total - 1)
+        },
+        [updated.status]: { ...to, items: [updated, ...to.items], total: to.total + 1 }
+      }
+    })
+  }
+
+  const saveItem = async (item: ActionItemOut, payload: ActionItemUpdatePayload) => {
+    setUpdating(item.id, true)
+    try {
+      const response = await actionItemsApi.updateItem(item.id, payload)
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Unable to update action item')
+        return false
+      }
+      applyUpdatedItem(item, response.data)
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to update action item')
+      return false
+    } finally {
+      setUpdating(item.id, false)
+    }
+  }
+
+  const handleMove = async (item: ActionItemOut, status: ActionItemStatus) => {
+    const saved = await saveItem(item, { status })
+    if (saved && status === 'done') toast.success('Action item completed')
+  }
+
+  const handleViewCall = async (item: ActionItemOut) => {
+    setLoadingCallId(item.id)
+    try {
+      const response = await summaryApi.getSummary(item.summary_id)
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Unable to load the call for this action item')
+        return
+      }
+      setSelectedCall(response.data)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to load the call for this action item')
+    } finally {
+      setLoadingCallId(null)
+    }
+  }
+
+  const clearFilters = () => {
+    setSearchQuery('')
+    setAssigneeQuery('')
+    setStatusFilter('')
+    setDueFilter('')
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <Row>
+        <Col xs={12}>
+          <div className="text-center py-5">
+            <p>Please sign in to view action items.</p>
+            <Link href="/auth/sign-in">
+              <Button variant="primary">Sign In</Button>
+            </Link>
+          </div>
+        </Col>
+      </Row>
+    )
+  }
+
+  return (
+    <>
+      <Row>
+        <Col xs={12}>
+          <div className="page-title-box">
+            <h4 className="mb-0">Action Items</h4>
+            <ol className="breadcrumb mb-0">
+              <li className="breadcrumb-item">
+                <Link href="/">Taplox</Link>
+              </li>
+              <div className="mx-1" style={{ height: 24, paddingRight: '8px' }}>
+                <IconifyIcon icon="bx:chevron-right" height={16} width={16} />
+              </div>
+              <li className="breadcrumb-item active">Action Items</li>
+            </ol>
+          </div>
+        </Col>
+      </Row>
+
+      <Card className="mt-4">
+        <CardBody>
+          <Row className="g-2 align-items-center">
+            <Col lg={4}>
+              <InputGroup>
+                <InputGroup.Text>
+                  <IconifyIcon icon="solar:magnifer-outline" width={18} height={18} />
+                </InputGroup.Text>
+                <Form.Control
+                  value={searchQuery}
+                  onChange={(event) => setSearchQuery(event.target.value)}
+                  placeholder="Search action items or callers..."
+                  aria-label="Search action items"
+                />
+              </InputGroup>
+            </Col>
+            <Col sm={4} lg={2}>
+              <Form.Select
+                value={statusFilter}
+                onChange={(event) => setStatusFilter(event.target.value as ActionItemStatus | '')}
+                aria-label="Status"
+              >
+                <option value="">All statuses</option>
+                {ACTION_ITEM_STATUSES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col sm={4} lg={2}>
+              <Form.Control
+                value={assigneeQuery}
+                onChange={(event) => setAssigneeQuery(event.target.value)}
+                placeholder="Assignee"
+                aria-label="Assignee"
+              />
+            </Col>
+            <Col sm={4} lg={2}>
+              <Form.Select
+                value={dueFilter}
+                onChange={(event) => setDueFilter(event.target.value as ActionItemDueFilter | '')}
+                aria-label="Due date"
+              >
+                <option value="">Any due date</option>
+                {DUE_FILTER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col lg={2} className="d-flex gap-2 justify-content-lg-end">
+              {hasFilters && (
+                <Button variant="link" className="px-0" onClick={clearFilters}>
+                  Clear filters
+                </Button>
+              )}
+              <Button variant="outline-secondary" onClick={refreshBoard} title="Refresh">
+                <IconifyIcon icon="solar:refresh-outline" width={16} height={16} />
+              </Button>
+            </Col>
+          </Row>
+        </CardBody>
+      </Card>
+
+      <Row className="g-3">
+        {visibleStatuses.map(({ value: status, label, variant }) => {
+          const column = columns[status]
+          return (
+            <Col key={status} lg={12 / visibleStatuses.length}>
+              <Card className="h-100 bg-light-subtle">
+                <CardHeader className="d-flex justify-content-between align-items-center">
+                  <h5 className="mb-0">{label}</h5>
+                  <Badge bg={variant}>{column.total}</Badge>
+                </CardHeader>
+                <CardBody className="p-2">
+                  {column.error && (
+                    <Alert variant="danger" className="d-flex justify-content-between align-items-center">
+                      <span>{column.error}</span>
+                      <Button variant="outline-danger" size="sm" onClick={() => fetchColumn(status)}>
+                        Retry
+                      </Button>
+                    </Alert>
+                  )}
+
+                  {column.items.map((item) => (
+                    <ActionItemCard
+                      key={item.id}
+                      item={item}
+                      canEdit={canEdit}
+                      updating={updatingIds.has(item.id)}
+                      loadingCall={loadingCallId === item.id}
+                      onMove={handleMove}
+                      onEdit={setEditingItem}
+                      onViewCall={handleViewCall}
+                    />
+                  ))}
+
+                  {column.loading ? (
+                    <div className="text-center py-3">
+                      <Spinner animation="border" size="sm" variant="primary" />
+                    </div>
+                  ) : (
+                    !column.error &&
+                    (column.items.length === 0 ? (
+                      <p className="text-muted text-center small py-3 mb-0">
+                        {hasFilters ? 'No matching action items' : `Nothing ${label.toLowerCase()}`}
+                      </p>
+                    ) : (
+                      column.items.length < column.total && (
+                        <Button variant="link" size="sm" className="w-100" onClick={() => fetchColumn(status, column.items.length)}>
+                          Load more ({column.total - column.items.length} remaining)
+                        </Button>
+                      )
+                    ))
+                  )}
+                </CardBody>
+              </Card>
+            </Col>
+          )
+        })}
+      </Row>
+
+      <ActionItemEditModal item={editingItem} onHide={() => setEditingItem(null)} onSave={saveItem} />
+      <CallSummaryModal summary={selectedCall} show={!!selectedCall} onHide={() => setSelectedCall(null)} />
+    </>
+  )
+}
+
+export default ActionItemsPage
@@ -0,0 +1,304 @@
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { Alert, Button, Card, CardBody, CardHeader, CardTitle, Col, Form, Row, Spinner } from 'react-bootstrap'
+import Link from 'next/link'
+import { toast } from 'react-toastify'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useTimezone } from '@/context/useTimezoneContext'
+import { formatDateTime } from '@/helpers/billing'
+import { agentSettingsApi } from '@/lib/agent-settings-api'
+import { mapFieldErrors } from '@/lib/api-error'
+import type { LanguageLiteral, Voice } from '@/types/admin-agent'
+import type { AgentSettingsOut, AgentSettingsUpdatePayload } from '@/types/agent-settings'
+
+type AgentSettingsFormState = {
+  firstMessage: string
+  voiceId: string
+  language: string
+}
+
+const settingsFieldMap: Record<string, keyof AgentSettingsFormState> = {
+  first_message: 'firstMessage',
+  voice_id: 'voiceId',
+  language: 'language'
+}
+
+const FIRST_MESSAGE_MAX_LENGTH = 500
+
+const toFormState = (settings: AgentSettingsOut): AgentSettingsFormState => ({
+  firstMessage: settings.first_message ?? '',
+  voiceId: settings.voice_id ?? '',
+  language: settings.language ?? ''
+})
+
+const getLanguageLabel = (code: string) => {
+  try {
+    const name = new Intl.DisplayNames(['en'], { type: 'language' }).of(code)
+    return name && name !== code ? `${name} (${code.toUpperCase()})` : code.toUpperCase()
+  } catch {
+    return code.toUpperCase()
+  }
+}
+
+const AgentSettingsPage = () => {
+  const { timezone } = useTimezone()
+  const [settings, setSettings] = useState<AgentSettingsOut | null>(null)
+  const [voices, setVoices] = useState<Voice[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [notAssigned, setNotAssigned] = useState(false)
+
+  const [form, setForm] = useState<AgentSettingsFormState>({ firstMessage: '', voiceId: '', language: '' })
+  const [formErrors, setFormErrors] = useState<Partial<Record<keyof AgentSettingsFormState, string>>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  const loadSettings = useCallback(async () => {
+    setLoading(true)
+    setLoadError(null)
+    setNotAssigned(false)
+
+    try {
+      const [settingsResponse, voicesResponse] = await Promise.all([
+        agentSettingsApi.getSettings(),
+        agentSettingsApi.getVoices()
+      ])
+
+      if (settingsResponse.status === 404) {
+        setNotAssigned(true)
+        return
+      }
+      if (settingsResponse.error || !settingsResponse.data) {
+        setLoadError(settingsResponse.error || 'Failed to load agent settings')
+        return
+      }
+
+      setSettings(settingsResponse.data)
+      setForm(toFormState(settingsResponse.data))
+      // The voice list is a nice-to-have, keep the rest of the form usable without it
+      setVoices(voicesResponse.data?.items ?? [])
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load agent settings')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
+  const selectedVoice = useMemo(() => voices.find((voice) => voice.voice_id === form.voiceId), [voices, form.voiceId])
+
+  // Keep the current voice selectable even if it's no longer in the curated list
+  const voiceOptions = useMemo(() => {
+    if (!form.voiceId || selectedVoice) return voices
+    return [{ voice_id: form.voiceId, name: 'Current voice' }, ...voices]
+  }, [voices, form.voiceId, selectedVoice])
+
+  const isDirty = settings ? JSON.stringify(form) !== JSON.stringify(toFormState(settings)) : false
+
+  const handleChange =
+    (field: keyof AgentSettingsFormState) => (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+      setForm((prev) => ({ ...prev, [field]: event.target.value }))
+      setFormErrors((prev) => ({ ...prev, [field]: undefined }))
+    }
+
+  const validateForm = () => {
+    const errors: Partial<Record<keyof AgentSettingsFormState, string>> = {}
+    const firstMessage = form.firstMessage.trim()
+    if (!firstMessage) {
+      errors.firstMessage = 'First message is required'
+    } else if (firstMessage.length > FIRST_MESSAGE_MAX_LENGTH) {
+      errors.firstMessage = `Keep the first message under ${FIRST_MESSAGE_MAX_LENGTH} characters`
+    }
+    if (!form.voiceId) errors.voiceId = 'Select a voice'
+    if (!form.language) errors.language = 'Select a language'
+    setFormErrors(errors)
+    return Object.keys(errors).length === 0
+  }
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!settings || !validateForm()) return
+
+    // Only send what changed so an untouched field never overwrites an admin's edit
+    const initial = toFormState(settings)
+    const payload: AgentSettingsUpdatePayload = {}
+    if (form.firstMessage.trim() !== initial.firstMessage) payload.first_message = form.firstMessage.trim()
+    if (form.voiceId !== initial.voiceId) payload.voice_id = form.voiceId
+    if (form.language !== initial.language) payload.language = form.language as LanguageLiteral
+
+    setSubmitting(true)
+    try {
+      const response = await agentSettingsApi.updateSettings(payload)
+      if (response.error || !response.data) {
+        const serverErrors = mapFieldErrors(response.apiError, settingsFieldMap)
+        if (Object.keys(serverErrors).length > 0) {
+          setFormErrors(serverErrors)
+        } else {
+          toast.error(response.error || 'Unable to save agent settings')
+        }
+        return
+      }
+
+      setSettings(response.data)
+      setForm(toFormState(response.data))
+      toast.success('Agent settings saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to save agent settings')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="text-center py-5">
+          <Spinner animation="border" variant="primary" />
+          <p className="text-muted mt-2 mb-0">Loading agent settings...</p>
+        </div>
+      )
+    }
+
+    if (notAssigned) {
+      return (
+        <div className="text-center py-5">
+          <IconifyIcon icon="solar:user-speak-outline" width={48} height={48} className="text-muted mb-3" />
+          <h5>No agent assigned yet</h5>
+          <p className="text-muted">
+            Once your agent is set up it will appear here. Need help getting started?{' '}
+            <Link href="/contact-support">Contact support</Link>.
+          </p>
+        </div>
+      )
+    }
+
+    if (loadError || !settings) {
+      return (
+        <Alert variant="danger" className="d-flex justify-content-between align-items-center mb-0">
+          <span>{loadError || 'Failed to load agent settings'}</span>
+          <Button variant="outline-danger" size="sm" onClick={loadSettings}>
+            Retry
+          </Button>
+        </Alert>
+      )
+    }
+
+    return (
+      <Form onSubmit={handleSubmit} noValidate>
+        <Row className="g-3">
+          <Col xs={12}>
+            <Form.Group controlId="agent-first-message">
+              <Form.Label>First message</Form.Label>
+              <Form.Control
+                as="textarea"
+                rows={3}
+                value={form.firstMessage}
+                onChange={handleChange('firstMessage')}
+                maxLength={FIRST_MESSAGE_MAX_LENGTH}
+                placeholder="Hello! Thanks for calling, how can I help you today?"
+                isInvalid={!!formErrors.firstMessage}
+              />
+              <Form.Control.Feedback type="invalid">{formErrors.firstMessage}</Form.Control.Feedback>
+              <Form.Text className="text-muted">
+                What your agent says when it answers a call. {form.firstMessage.length}/{FIRST_MESSAGE_MAX_LENGTH}
+              </Form.Text>
+            </Form.Group>
+          </Col>
+          <Col md={6}>
+            <Form.Group controlId="agent-voice">
+              <Form.Label>Voice</Form.Label>
+              <Form.Select value={form.voiceId} onChange={handleChange('voiceId')} isInvalid={!!formErrors.voiceId}>
+                <option value="">Select a voice</option>
+                {voiceOptions.map((voice) => (
+                  <option key={voice.voice_id} value={voice.voice_id}>
+                    {voice.name}
+                  </option>
+                ))}
+              </Form.Select>
+              <Form.Control.Feedback type="invalid">{formErrors.voiceId}</Form.Control.Feedback>
+              {selectedVoice?.preview_url && (
+                <audio key={selectedVoice.voice_id} controls src={selectedVoice.preview_url} className="w-100 mt-2" />
+              )}
+            </Form.Group>
+          </Col>
+          <Col md={6}>
+            <Form.Group controlId="agent-language">
+              <Form.Label>Language</Form.Label>
+              <Form.Select value={form.language} onChange={handleChange('language')} isInvalid={!!formErrors.language}>
+                <option value="">Select a language</option>
+                {settings.available_languages.map((language) => (
+                  <option key={language} value={language}>
+                    {getLanguageLabel(language)}
+                  </option>
+                ))}
+              </Form.Select>
+              <Form.Control.Feedback type="invalid">{formErrors.language}</Form.Control.Feedback>
+              <Form.Text className="text-muted">The language your agent greets callers in.</Form.Text>
+            </Form.Group>
+          </Col>
+          <Col xs={12} className="d-flex justify-content-between align-items-center">
+            <small className="text-muted">
+              {settings.updated_at ? `Last updated ${formatDateTime(settings.updated_at, { timeZone: timezone })}` : ''}
+            </small>
+            <div className="d-flex gap-2">
+              <Button
+                variant="outline-secondary"
+                disabled={!isDirty || submitting}
+                onClick={() => {
+                  setForm(toFormState(settings))
+                  setFormErrors({})
+                }}
+              >
+                Discard changes
+              </Button>
+              <Button type="submit" variant="primary" disabled={!isDirty || submitting} className="d-inline-flex align-items-center gap-2">
+                {submitting && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+                Save changes
+              </Button>
+            </div>
+          </Col>
+        </Row>
+      </Form>
+    )
+  }
+
+  return (
+    <>
+      <Row>
+        <Col xs={12}>
+          <div className="page-title-box">
+            <h4 className="mb-0">Agent Settings</h4>
+            <ol className="breadcrumb mb-0">
+              <li className="breadcrumb-item">
+                <Link href="/">Taplox</Link>
+              </li>
+              <div className="mx-1" style={{ height: 24, paddingRight: '8px' }}>
+                <IconifyIcon icon="bx:chevron-right" height={16} width={16} />
+              </div>
+              <li className="breadcrumb-item active">Agent Settings</li>
+            </ol>
+          </div>
+        </Col>
+      </Row>
+
+      <Row className="mt-4">
+        <Col xl={8}>
+          <Card>
+            <CardHeader>
+              <CardTitle as="h5">{settings?.name ?? 'Your Agent'}</CardTitle>
+              <p className="text-muted mb-0">
+                Adjust how your agent greets callers. Prompts, knowledge and call routing are managed by our team.
+              </p>
+            </CardHeader>
+            <CardBody>{renderContent()}</CardBody>
+          </Card>
+        </Col>
+      </Row>
+    </>
+  )
+}
+
+export default AgentSettingsPage
@@ -3,11 +3,15 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Badge, Button, Col, Form, Modal, Row, Spinner } from 'react-bootstrap'
 import Link from 'next/link'
+import AuditHistoryLink from '@/components/AuditHistoryLink'
 import { DataTable } from '@/components/table'
 import type { DataTableColumn, DataTableFilterControl } from '@/components/table'
 import IconifyIcon from '@/components/wrapper/IconifyIcon'
 import { useAuth } from '@/context/useAuthContext'
+import { useTimezone } from '@/context/useTimezoneContext'
 import { useVoices } from '@/context/useVoicesContext'
+import { formatDateTime } from '@/helpers/billing'
+import usePermission from '@/hooks/usePermission'
 import { adminAgentApi } from '@/lib/admin-agent-api'
 import VoiceSelector from '@/components/VoiceSelector'
 import TagsInput from '@/components/TagsInput'
@@ -123,7 +127,11 @@ const initialEditFormState: EditFormState = {
 }
 
 const AgentsPage = () => {
-  const { token, isAuthenticated, user, isLoading } = useAuth()
+  const { isAuthenticated, isLoading } = useAuth()
+  const { timezone } = useTimezone()
+  const canReadAgents = usePermission('agents:read')
+  const canWriteAgents = usePermission('agents:write')
+  const canDeleteAgents = usePermission('agents:delete')
   const { voices, isLoading: voicesLoading, fetchVoices, getVoiceById } = useVoices()
   const [agents, setAgents] = useState<AdminAgent[]>([])
   const [loading, setLoading] = useState(false)
@@ -150,6 +158,7 @@ const AgentsPage = () => {
   const [activeActionMode, setActiveActionMode] = useState<AgentActionMode | null>(null)
   const [voicePreviewingId, setVoicePreviewingId] = useState<string | null>(null)
   const voiceAudioRef = useRef<HTMLAudioElement | null>(null)
+  const fetchAbortRef = useRef<AbortController | null>(null)
 
   const turnEagernessOptions: TurnEagernessLiteral[] = ['patient', 'normal', 'eager']
 
@@ -220,20 +229,20 @@ const formatLanguageLabel = (code?: string) => {
   }, [debouncedSearch, assignmentFilter, pageSize])
 
   useEffect(() => {
-    if (!token || !isAuthenticated || user?.role !== 'admin') return
+    if (!isAuthenticated || !canReadAgents) return
     if (voices.length === 0) {
-      fetchVoices(token)
+      fetchVoices()
     }
-  }, [token, isAuthenticated, user?.role, fetchVoices, voices.length])
+  }, [isAuthenticated, canReadAgents, fetchVoices, voices.length])
 
   useEffect(() => {
-    if (!viewModalOpen || !token) return
+    if (!viewModalOpen) return
     const voiceId = selectedAgentVoiceId
     if (!voiceId) return
     if (!selectedVoice && !voicesLoading) {
-      fetchVoices(token, voiceId)
+      fetchVoices(voiceId)
     }
-  }, [viewModalOpen, token, selectedVoice, voicesLoading, selectedAgentVoiceId, fetchVoices])
+  }, [viewModalOpen, selectedVoice, voicesLoading, selectedAgentVoiceId, fetchVoices])
 
   const stopVoicePreview = useCallback(() => {
     if (voiceAudioRef.current) {
@@ -285,21 +294,31 @@ const formatLanguageLabel = (code?: string) => {
   }, [selectedAgentIdentifier, stopVoicePreview])
 
   const fetchAgents = useCallback(async () => {
-    if (!token || !isAuthenticated || user?.role !== 'admin') {
+    if (!isAuthenticated || !canReadAgents) {
       setAgents([])
       setTotalRecords(0)
       return
     }
 
+    // Cancel any in-flight request so a stale search can't overwrite newer results
+    fetchAbortRef.current?.abort()
+    const controller = new AbortController()
+    fetchAbortRef.current = controller
+
     setLoading(true)
     setError(null)
 
-    const response = await adminAgentApi.getAllAgents(token, {
-      skip: (currentPage - 1) * pageSize,
-      limit: pageSize,
-      search: debouncedSearch || undefined,
-      assignment: assignmentFilter !== 'all' ? assignmentFilter : undefined
-    })
+    const response = await adminAgentApi.getAllAgents(
+      {
+        skip: (currentPage - 1) * pageSize,
+        limit: pageSize,
+        search: debouncedSearch || undefined,
+        assignment: assignmentFilter !== 'all' ? assignmentFilter : undefined
+      },
+      { signal: controller.signal }
+    )
+
+    if (response.aborted) return
 
     if (response.error || !response.data) {
       setError(response.error || 'Failed to load agents')
@@ -356,15 +375,21 @@ const formatLanguageLabel = (code?: string) => {
     setAgents(items)
     setTotalRecords(total)
     setLoading(false)
-  }, [token, isAuthenticated, user?.role, currentPage, pageSize, debouncedSearch, assignmentFilter])
+  }, [isAuthenticated, canReadAgents, currentPage, pageSize, debouncedSearch, assignmentFilter])
 
   useEffect(() => {
     fetchAgents()
   }, [fetchAgents])
 
+  useEffect(() => {
+    return () => {
+      fetchAbortRef.current?.abort()
+    }
+  }, [])
+
   const handleAgentAction = useCallback(
     async (agent: AdminAgent, mode: AgentActionMode) => {
-      if (!token || !isAuthenticated || user?.role !== 'admin') {
+      if (!isAuthenticated || !(mode === 'edit' ? canWriteAgents : canReadAgents)) {
         toast.error('You are not authorized to manage agents.')
         return
       }
@@ -379,7 +404,7 @@ const formatLanguageLabel = (code?: string) => {
       setEditFormErrors({})
 
       try {
-        const response = await adminAgentApi.getAgent(token, agentId)
+        const response = await adminAgentApi.getAgent(agentId)
         if (response.error || !response.data) {
           toast.error(response.error || 'Failed to load agent details.')
           return
@@ -399,19 +424,19 @@ const formatLanguageLabel = (code?: string) => {
         setActiveActionMode(null)
       }
     },
-    [token, isAuthenticated, user?.role]
+    [isAuthenticated, canReadAgents, canWriteAgents]
   )
 
   const handleDeletePrompt = useCallback(
     (agent: AdminAgent) => {
-      if (!isAuthenticated || user?.role !== 'admin') {
+      if (!isAuthenticated || !canDeleteAgents) {
         toast.error('You are not authorized to delete agents.')
         return
       }
       setSelectedAgent(agent)
       setDeleteModalOpen(true)
     },
-    [isAuthenticated, user?.role]
+    [isAuthenticated, canDeleteAgents]
   )
 
   const handleEditInputChange =
@@ -441,7 +466,7 @@ const formatLanguageLabel = (code?: string) => {
   const handleEditSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault()
     if (!selectedAgent) return
-    if (!token || !isAuthenticated || user?.role !== 'admin') {
+    if (!isAuthenticated || !canWriteAgents) {
       toast.error('You are not authorized to update agents.')
       return
     }
@@ -534,7 +559,7 @@ const formatLanguageLabel = (code?: string) => {
 
     setEditSubmitting(true)
     try {
-      const response = await adminAgentApi.updateAgent(token, agentId, payload)
+      const response = await adminAgentApi.updateAgent(agentId, payload)
       if (response.error || !response.data) {
         toast.error(response.error || 'Failed to update agent.')
         return
@@ -553,7 +578,7 @@ const formatLanguageLabel = (code?: string) => {
 
   const handleConfirmDelete = async () => {
     if (!selectedAgent) return
-    if (!token || !isAuthenticated || user?.role !== 'admin') {
+    if (!isAuthenticated || !canDeleteAgents) {
       toast.error('You are not authorized to delete agents.')
       return
     }
@@ -566,7 +591,7 @@ const formatLanguageLabel = (code?: string) => {
 
     setDeleteLoadingId(agentId)
     try {
-      const response = await adminAgentApi.deleteAgent(token, agentId)
+      const response = await adminAgentApi.deleteAgent(agentId)
       if (response.error) {
         toast.error(response.error || 'Failed to delete agent.')
         return
@@ -671,38 +696,53 @@ const formatLanguageLabel = (code?: string) => {
                   <IconifyIcon icon="solar:eye-outline" width={16} height={16} />
                 )}
               </Button>
-              <Button
-                size="sm"
-                variant="outline-primary"
-                onClick={() => handleAgentAction(row, 'edit')}
-                title="Edit agent"
-                disabled={isEditLoading}
-              >
-                {isEditLoading ? (
-                  <span className="spinner-border spinner-border-sm" role="status" />
-                ) : (
-                  <IconifyIcon icon="solar:pen-new-square-outline" width={16} height={16} />
-                )}
-              </Button>
-              <Button
-                size="sm"
-                variant="outline-danger"
-                onClick={() => handleDeletePrompt(row)}
-                title="Delete agent"
-                disabled={isDeleteLoading}
-              >
-                {isDeleteLoading ? (
-                  <span className="spinner-border spinner-border-sm" role="status" />
-                ) : (
-                  <IconifyIcon icon="solar:trash-bin-trash-outline" width={16} height={16} />
-                )}
-              </Button>
+              {canWriteAgents && (
+                <Button
+                  size="sm"
+                  variant="outline-primary"
+                  onClick={() => handleAgentAction(row, 'edit')}
+                  title="Edit agent"
+                  disabled={isEditLoading}
+                >
+                  {isEditLoading ? (
+                    <span className="spinner-border spinner-border-sm" role="status" />
+                  ) : (
+                    <IconifyIcon icon="solar:pen-new-square-outline" width={16} height={16} />
+                  )}
+                </Button>
+              )}
+              {canDeleteAgents && (
+                <Button
+                  size="sm"
+                  variant="outline-danger"
+                  onClick={() => handleDeletePrompt(row)}
+                  title="Delete agent"
+                  disabled={isDeleteLoading}
+                >
+                  {isDeleteLoading ? (
+                    <span className="spinner-border spinner-border-sm" role="status" />
+                  ) : (
+                    <IconifyIcon icon="solar:trash-bin-trash-outline" width={16} height={16} />
+                  )}
+                </Button>
+              )}
+              <AuditHistoryLink entityType="agent" entityId={agentId} />
             </div>
           )
         }
       }
     ],
-    [currentPage, pageSize, fetchingAgentId, activeActionMode, deleteLoadingId, handleAgentAction, handleDeletePrompt]
+    [
+      currentPage,
+      pageSize,
+      fetchingAgentId,
+      activeActionMode,
+      deleteLoadingId,
+      canWriteAgents,
+      canDeleteAgents,
+      handleAgentAction,
+      handleDeletePrompt
+    ]
   )
 
   const tableMinWidth = useMemo(
@@ -762,20 +802,6 @@ const formatLanguageLabel = (code?: string) => {
     )
   }
 
-  if (user && user.role !== 'admin') {
-    return (
-      <Row className="py-5">
-        <Col xs={12}>
-          <div className="text-center">
-            <IconifyIcon icon="solar:shield-cross-outline" width={48} height={48} className="text-danger mb-3" />
-            <h4 className="mb-2">Access restricted</h4>
-            <p className="text-muted mb-0">Only admins can manage agents.</p>
-          </div>
-        </Col>
-      </Row>
-    )
-  }
-
   return (
     <>
       <Row>
@@ -793,10 +819,12 @@ const formatLanguageLabel = (code?: string) => {
                 <li className="breadcrumb-item active">Agents</li>
               </ol>
             </div>
-            <Link href="/create-agent" className="btn btn-primary shadow-sm d-flex align-items-center gap-2">
-              <IconifyIcon icon="solar:add-square-outline" width={18} height={18} />
-              Create Agent
-            </Link>
+            {canWriteAgents && (
+              <Link href="/create-agent" className="btn btn-primary shadow-sm d-flex align-items-center gap-2">
+                <IconifyIcon icon="solar:add-square-outline" width={18} height={18} />
+                Create Agent
+              </Link>
+            )}
           </div>
         </Col>
       </Row>
@@ -854,12 +882,17 @@ const formatLanguageLabel = (code?: string) => {
           {selectedAgent ? (
             <div className="d-flex flex-column gap-4">
               <div className="border rounded-3 p-3 bg-body-tertiary">
-                <p className="text-muted text-uppercase small mb-1">Agent Name</p>
+                <div className="d-flex justify-content-between align-items-start gap-2">
+                  <p className="text-muted text-uppercase small mb-1">Agent Name</p>
+                  {selectedAgentIdentifier && (
+                    <AuditHistoryLink entityType="agent" entityId={selectedAgentIdentifier} label="History" />
+                  )}
+                </div>
                 <h5 className="mb-0">{selectedAgent.name || 'Unnamed Agent'}</h5>
                 <div className="text-muted small mt-1">
                   Created{' '}
                   {selectedAgent.created_at
-                    ? new Date(selectedAgent.created_at).toLocaleString()
+                    ? formatDateTime(selectedAgent.created_at, { timeZone: timezone })
                     : '—'}
                 </div>
               </div>
@@ -1102,7 +1135,6 @@ const formatLanguageLabel = (code?: string) => {
                       setEditForm((prev) => ({ ...prev, voiceId }))
                       setEditFormErrors((prev) => ({ ...prev, voiceId: '' }))
                     }}
-                    token={token}
                     isInvalid={!!editFormErrors.voiceId}
                     errorMessage={editFormErrors.voiceId}
                   />
@@ -0,0 +1,426 @@
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Badge, Button, Col, Form, InputGroup, Modal, ModalBody, ModalFooter, ModalHeader, ModalTitle, Row, Table } from 'react-bootstrap'
+import Link from 'next/link'
+import { DataTable } from '@/components/table'
+import type { DataTableColumn, DataTableFilterControl } from '@/components/table'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useAuth } from '@/context/useAuthContext'
+import { useTimezone } from '@/context/useTimezoneContext'
+import { formatDateTime } from '@/helpers/billing'
+import usePermission from '@/hooks/usePermission'
+import useQueryParams from '@/hooks/useQueryParams'
+import { auditLogApi } from '@/lib/audit-log-api'
+import type { AuditEntityType, AuditLogEntry } from '@/types/audit-log'
+
+type FieldChange = {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+const ENTITY_TYPE_OPTIONS: { label: string; value: AuditEntityType | 'all' }[] = [
+  { label: 'All entities', value: 'all' },
+  { label: 'Users', value: 'user' },
+  { label: 'Agents', value: 'agent' },
+  { label: 'Coupons', value: 'coupon' },
+  { label: 'Subscription plans', value: 'plan' },
+  { label: 'Documents', value: 'document' }
+]
+
+const ACTION_VARIANTS: Record<string, string> = {
+  create: 'success',
+  update: 'primary',
+  delete: 'danger',
+  block: 'warning',
+  unblock: 'info',
+  impersonate: 'dark'
+}
+
+const isEntityType = (value: string | undefined): value is AuditEntityType =>
+  ENTITY_TYPE_OPTIONS.some((option) => option.value !== 'all' && option.value === value)
+
+// Fields whose value differs between the before and after snapshots
+const getFieldChanges = (entry: AuditLogEntry): FieldChange[] => {
+  const before = entry.before ?? {}
+  const after = entry.after ?? {}
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort()
+
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }))
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'object') return JSON.stringify(value, null, 2)
+  return String(value)
+}
+
+const AuditLogPage = () => {
+  const { isAuthenticated, isLoading } = useAuth()
+  const { timezone } = useTimezone()
+  const canReadAuditLog = usePermission('audit-log:read')
+  const { entity_type: entityTypeParam, entity_id: entityIdParam } = useQueryParams()
+
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [actorQuery, setActorQuery] = useState('')
+  const [debouncedActor, setDebouncedActor] = useState('')
+  const [entityTypeFilter, setEntityTypeFilter] = useState<AuditEntityType | 'all'>(
+    isEntityType(entityTypeParam) ? entityTypeParam : 'all'
+  )
+  const [entityIdFilter, setEntityIdFilter] = useState(entityIdParam ?? '')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [showFilters, setShowFilters] = useState(true)
+
+  const [currentPage, setCurrentPage] = useState(1)
+  const [pageSize, setPageSize] = useState(25)
+  const [totalRecords, setTotalRecords] = useState(0)
+
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null)
+  const fetchAbortRef = useRef<AbortController | null>(null)
+
+  // History links from detail views land here with the record preselected
+  useEffect(() => {
+    setEntityTypeFilter(isEntityType(entityTypeParam) ? entityTypeParam : 'all')
+    setEntityIdFilter(entityIdParam ?? '')
+  }, [entityTypeParam, entityIdParam])
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedActor(actorQuery.trim()), 400)
+    return () => clearTimeout(timer)
+  }, [actorQuery])
+
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [debouncedActor, entityTypeFilter, entityIdFilter, dateFrom, dateTo, pageSize])
+
+  const fetchEntries = useCallback(async () => {
+    if (!isAuthenticated || !canReadAuditLog) {
+      setEntries([])
+      setTotalRecords(0)
+      return
+    }
+
+    // Cancel any in-flight request so a stale filter can't overwrite newer results
+    fetchAbortRef.current?.abort()
+    const controller = new AbortController()
+    fetchAbortRef.current = controller
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await auditLogApi.listEntries(
+        {
+          skip: (currentPage - 1) * pageSize,
+          limit: pageSize,
+          actor: debouncedActor || undefined,
+          entity_type: entityTypeFilter !== 'all' ? entityTypeFilter : undefined,
+          entity_id: entityIdFilter || undefined,
+          date_from: dateFrom || undefined,
+          date_to: dateTo || undefined
+        },
+        { signal: controller.signal }
+      )
+
+      if (response.aborted) return
+
+      if (response.error || !response.data) {
+        setError(response.error || 'Failed to load the audit log')
+        setEntries([])
+        setTotalRecords(0)
+        return
+      }
+
+      const items = response.data.items ?? []
+      setEntries(items)
+      setTotalRecords(Number(response.data.total) || items.length)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the audit log')
+      setEntries([])
+      setTotalRecords(0)
+    } finally {
+      if (fetchAbortRef.current === controller) {
+        setLoading(false)
+      }
+    }
+  }, [isAuthenticated, canReadAuditLog, currentPage, pageSize, debouncedActor, entityTypeFilter, entityIdFilter, dateFrom, dateTo])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  useEffect(() => {
+    return () => fetchAbortRef.current?.abort()
+  }, [])
+
+  const showEntityHistory = useCallback((entry: AuditLogEntry) => {
+    setEntityTypeFilter(entry.entity_type)
+    setEntityIdFilter(entry.entity_id)
+  }, [])
+
+  const clearEntityHistory = () => {
+    setEntityIdFilter('')
+  }
+
+  const columns: DataTableColumn<AuditLogEntry>[] = useMemo(
+    () => [
+      {
+        key: 'createdAt',
+        header: 'Timestamp',
+        minWidth: 200,
+        render: (row) => <span className="text-nowrap">{formatDateTime(row.created_at, { timeZone: timezone, second: 'numeric' })}</span>
+      },
+      {
+        key: 'actor',
+        header: 'Actor',
+        minWidth: 220,
+        render: (row) => (
+          <div>
+            <div className="fw-medium">{row.actor_username || row.actor_id}</div>
+            {row.actor_email && <small className="text-muted d-block">{row.actor_email}</small>}
+            {row.impersonator_id && (
+              <Badge bg="dark" className="mt-1" title={`Impersonated by ${row.impersonator_id}`}>
+                Impersonated
+              </Badge>
+            )}
+          </div>
+        )
+      },
+      {
+        key: 'action',
+        header: 'Action',
+        align: 'center',
+        minWidth: 120,
+        render: (row) => (
+          <Badge bg={ACTION_VARIANTS[row.action] ?? 'secondary'} className="text-uppercase">
+            {row.action}
+          </Badge>
+        )
+      },
+      {
+        key: 'entity',
+        header: 'Target',
+        minWidth: 240,
+        render: (row) => (
+          <div>
+            <Badge bg="light" text="dark" className="text-capitalize me-2">
+              {row.entity_type}
+            </Badge>
+            <Button variant="link" className="p-0 align-baseline" onClick={() => showEntityHistory(row)} title="Show this record's history">
+              {row.entity_label || row.entity_id}
+            </Button>
+            {row.entity_label && <small className="text-muted d-block">{row.entity_id}</small>}
+          </div>
+        )
+      },
+      {
+        key: 'changes',
+        header: 'Changes',
+        minWidth: 200,
+        render: (row) => {
+          const changes = getFieldChanges(row)
+          if (!changes.length) return <span className="text-muted">—</span>
+
+          return (
+            <Button size="sm" variant="outline-primary" onClick={() => setSelectedEntry(row)}>
+              <IconifyIcon icon="solar:eye-outline" width={16} height={16} className="me-1" />
+              {changes.length} field{changes.length === 1 ? '' : 's'}
+            </Button>
+          )
+        }
+      }
+    ],
+    [showEntityHistory, timezone]
+  )
+
+  const filters: DataTableFilterControl[] = [
+    {
+      id: 'entity-type-filter',
+      label: 'Entity type',
+      type: 'select',
+      value: entityTypeFilter,
+      options: ENTITY_TYPE_OPTIONS,
+      onChange: (value) => {
+        setEntityTypeFilter(value as AuditEntityType | 'all')
+        setEntityIdFilter('')
+      }
+    },
+    {
+      id: 'date-range-filter',
+      label: 'Date range',
+      type: 'custom',
+      width: 6,
+      element: (
+        <InputGroup>
+          <Form.Control
+            type="date"
+            value={dateFrom}
+            max={dateTo || undefined}
+            onChange={(event) => setDateFrom(event.target.value)}
+            aria-label="From date"
+          />
+          <InputGroup.Text>to</InputGroup.Text>
+          <Form.Control
+            type="date"
+            value={dateTo}
+            min={dateFrom || undefined}
+            onChange={(event) => setDateTo(event.target.value)}
+            aria-label="To date"
+          />
+        </InputGroup>
+      ),
+      onClear: dateFrom || dateTo ? () => {
+        setDateFrom('')
+        setDateTo('')
+      } : undefined
+    }
+  ]
+
+  const emptyState = {
+    title: 'No audit entries found',
+    description: 'Try adjusting the actor, entity type or date range.'
+  }
+
+  const pagination = {
+    currentPage,
+    pageSize,
+    totalRecords,
+    onPageChange: (page: number) => setCurrentPage(page),
+    onPageSizeChange: (size: number) => setPageSize(size),
+    pageSizeOptions: [25, 50, 100],
+    startRecord: totalRecords === 0 ? 0 : (currentPage - 1) * pageSize + 1,
+    endRecord: Math.min(currentPage * pageSize, totalRecords),
+    totalPages: Math.max(1, Math.ceil(Math.max(totalRecords, 1) / pageSize)),
+    isLastPage: currentPage * pageSize >= totalRecords && totalRecords !== 0,
+    hasMore: currentPage * pageSize < totalRecords
+  }
+
+  const selectedChanges = selectedEntry ? getFieldChanges(selectedEntry) : []
+
+  if (!isAuthenticated && !isLoading) {
+    return (
+      <Row className="py-5">
+        <Col xs={12}>
+          <div className="text-center">
+            <h4 className="mb-2">Please sign in</h4>
+            <p className="text-muted mb-0">You need an admin account to view the audit log.</p>
+          </div>
+        </Col>
+      </Row>
+    )
+  }
+
+  return (
+    <>
+      <Row>
+        <Col xs={12}>
+          <div className="page-title-box">
+            <h4 className="mb-0">Audit Log</h4>
+            <ol className="breadcrumb mb-0">
+              <li className="breadcrumb-item">
+                <Link href="/">Taplox</Link>
+              </li>
+              <div className="mx-1" style={{ height: 24, paddingRight: '8px' }}>
+                <IconifyIcon icon="bx:chevron-right" height={16} width={16} />
+              </div>
+              <li className="breadcrumb-item active">Audit Log</li>
+            </ol>
+          </div>
+        </Col>
+      </Row>
+
+      <Row className="mt-4">
+        <Col xs={12}>
+          <DataTable
+            id="audit-log-table"
+            title="Audit Log"
+            description="Every change made by admins to users, agents, coupons, plans and documents."
+            columns={columns}
+            data={entries}
+            rowKey={(entry) => entry.id}
+            loading={loading}
+            error={error}
+            onRetry={fetchEntries}
+            emptyState={emptyState}
+            minTableWidth={1100}
+            toolbar={{
+              showFilters,
+              onToggleFilters: () => setShowFilters((prev) => !prev),
+              search: {
+                value: actorQuery,
+                placeholder: 'Search by actor name or email',
+                onChange: setActorQuery,
+                onClear: () => setActorQuery('')
+              },
+              filters,
+              extra: entityIdFilter ? (
+                <Button variant="outline-secondary" onClick={clearEntityHistory} className="d-inline-flex align-items-center gap-2">
+                  <span>
+                    History of {entityTypeFilter !== 'all' ? entityTypeFilter : 'record'} {entityIdFilter}
+                  </span>
+                  <IconifyIcon icon="solar:close-circle-outline" width={16} height={16} />
+                </Button>
+              ) : undefined
+            }}
+            pagination={pagination}
+            columnPanel={{
+              enableColumnVisibility: true
+            }}
+          />
+        </Col>
+      </Row>
+
+      <Modal show={!!selectedEntry} onHide={() => setSelectedEntry(null)} centered size="lg">
+        <ModalHeader closeButton>
+          <ModalTitle as="h5">
+            {selectedEntry ? `${selectedEntry.action} ${selectedEntry.entity_type} ${selectedEntry.entity_label || selectedEntry.entity_id}` : ''}
+          </ModalTitle>
+        </ModalHeader>
+        <ModalBody>
+          {selectedEntry && (
+            <p className="text-muted">
+              By {selectedEntry.actor_username || selectedEntry.actor_id} on {formatDateTime(selectedEntry.created_at, { timeZone: timezone, second: 'numeric' })}
+              {selectedEntry.request_id && <span className="d-block small">Request ID: {selectedEntry.request_id}</span>}
+            </p>
+          )}
+          <Table responsive bordered size="sm" className="mb-0 align-middle">
+            <thead className="table-light">
+              <tr>
+                <th style={{ width: '20%' }}>Field</th>
+                <th style={{ width: '40%' }}>Before</th>
+                <th style={{ width: '40%' }}>After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selectedChanges.map((change) => (
+                <tr key={change.field}>
+                  <td className="fw-medium">{change.field}</td>
+                  <td className="bg-danger-subtle">
+                    <pre className="mb-0 small text-wrap">{formatValue(change.before)}</pre>
+                  </td>
+                  <td className="bg-success-subtle">
+                    <pre className="mb-0 small text-wrap">{formatValue(change.after)}</pre>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setSelectedEntry(null)}>
+            Close
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </>
+  )
+}
+
+export default AuditLogPage
@@ -0,0 +1,200 @@
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Alert, Button, Form, Modal, ModalBody, ModalFooter, ModalHeader, ModalTitle, ProgressBar } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+import { useTimezone } from '@/context/useTimezoneContext'
+import {
+  buildCsv,
+  buildXlsx,
+  downloadBlob,
+  EXPORT_FORMAT_OPTIONS,
+  getExportFileName,
+  printReport,
+  type ExportColumn,
+  type ExportFormat
+} from '@/helpers/export'
+import { formatCallDate, formatCallDuration, isUrgentSummary } from '@/helpers/summary'
+import { summaryApi } from '@/lib/summary-api'
+import type { CallSummary, SummaryQueryParams } from '@/types/summary'
+
+// Exportable values for the table columns, keyed like the DataTable columns
+const getExportColumns = (agentNames: Map<string, string>, timezone: string): ExportColumn<CallSummary>[] => [
+  { key: 'callerName', header: 'Caller Name', value: (row) => row.callerName },
+  { key: 'email', header: 'Email', value: (row) => row.callerEmail },
+  { key: 'phone', header: 'Phone', value: (row) => row.callerNumber },
+  { key: 'agent', header: 'Agent', value: (row) => (row.agentId ? agentNames.get(row.agentId) ?? row.agentId : null) },
+  { key: 'storeNumber', header: 'Store Number', value: (row) => row.storeNumber },
+  { key: 'callTime', header: 'Call Time', value: (row) => (row.callStart ? formatCallDate(row.callStart, timezone) : null) },
+  { key: 'duration', header: 'Duration', value: (row) => (row.durationSeconds !== null ? formatCallDuration(row.durationSeconds) : null) },
+  { key: 'summary', header: 'Brief Summary', value: (row) => row.briefSummary },
+  { key: 'status', header: 'Status', value: (row) => (row.isRead ? 'Read' : 'Unread') },
+  { key: 'action', header: 'Action', value: (row) => (row.actionFlag ? row.actionStatus || 'Pending' : 'None') },
+  { key: 'urgency', header: 'Urgency', value: (row) => (isUrgentSummary(row) ? 'Urgent' : 'Normal') }
+]
+
+interface ExportCallRecordsModalProps {
+  show: boolean
+  onHide: () => void
+  // The table's current search, filter, sort and timezone
+  query: Omit<SummaryQueryParams, 'skip' | 'limit'>
+  // Shown under the PDF title, e.g. "Unread · Oldest first"
+  queryDescription: string
+  visibleColumnKeys: string[]
+  agentNames: Map<string, string>
+}
+
+/**
+ * Export every call record matching the table's query, with the columns visible in the table
+ */
+const ExportCallRecordsModal: React.FC<ExportCallRecordsModalProps> = ({
+  show,
+  onHide,
+  query,
+  queryDescription,
+  visibleColumnKeys,
+  agentNames
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const { timezone } = useTimezone()
+  const exportColumns = useMemo(() => getExportColumns(agentNames, timezone), [agentNames, timezone])
+  const columns = exportColumns.filter((column) => visibleColumnKeys.includes(column.key))
+  // The PDF prints each brief summary under its row, so it's left out of the table
+  const reportColumns = columns.filter((column) => column.key !== 'summary')
+  const includeSummaries = columns.some((column) => column.key === 'summary')
+  const exporting = progress !== null
+
+  useEffect(() => {
+    if (show) setError(null)
+  }, [show])
+
+  useEffect(() => {
+    return () => abortRef.current?.abort()
+  }, [])
+
+  const handleHide = () => {
+    abortRef.current?.abort()
+    onHide()
+  }
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setProgress({ loaded: 0, total: 0 })
+
+    try {
+      const response = await summaryApi.getAllUserSummaries(query, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => setProgress({ loaded, total })
+      })
+
+      if (response.aborted) return
+      if (response.error || !response.data) {
+        setError(response.error || 'Failed to load call records')
+        return
+      }
+
+      const rows = response.data.summaries
+      if (rows.length === 0) {
+        setError('No call records match the current filters.')
+        return
+      }
+
+      if (format === 'csv') {
+        downloadBlob(buildCsv(rows, columns), getExportFileName('call-records', 'csv'))
+      } else if (format === 'xlsx') {
+        downloadBlob(buildXlsx(rows, columns, 'Call Records'), getExportFileName('call-records', 'xlsx'))
+      } else {
+        printReport({
+          title: 'Call Records',
+          subtitle: `${queryDescription} · ${rows.length} call${rows.length === 1 ? '' : 's'}`,
+          rows,
+          columns: reportColumns,
+          detail: includeSummaries ? (row) => row.briefSummary : undefined
+        })
+      }
+
+      toast.success(`Exported ${rows.length} call record${rows.length === 1 ? '' : 's'}`)
+      onHide()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : 0
+  const canExport = format === 'pdf' ? reportColumns.length > 0 : columns.length > 0
+
+  return (
+    <Modal show={show} onHide={handleHide} centered>
+      <ModalHeader closeButton>
+        <ModalTitle as="h5">Export Call Records</ModalTitle>
+      </ModalHeader>
+      <ModalBody>
+        <p className="text-muted small mb-3">
+          Every call matching the current search, filters, sort and timezone: {queryDescription}.
+        </p>
+
+        <Form.Group className="mb-3">
+          <Form.Label>Format</Form.Label>
+          {EXPORT_FORMAT_OPTIONS.map((option) => (
+            <Form.Check
+              key={option.value}
+              type="radio"
+              id={`call-records-export-${option.value}`}
+              name="call-records-export-format"
+              checked={format === option.value}
+              onChange={() => setFormat(option.value)}
+              disabled={exporting}
+              label={
+                <>
+                  {option.label} <span className="text-muted small">· {option.description}</span>
+                </>
+              }
+            />
+          ))}
+        </Form.Group>
+
+        <Form.Label>Columns</Form.Label>
+        {columns.length > 0 ? (
+          <p className="mb-1">{(format === 'pdf' ? reportColumns : columns).map((column) => column.header).join(', ')}</p>
+        ) : (
+          <p className="mb-1 text-danger">No exportable columns are visible.</p>
+        )}
+        <Form.Text className="text-muted">
+          Pick columns from the table&apos;s column settings.
+          {format === 'pdf' && includeSummaries && ' Brief summaries are printed under each call.'}
+        </Form.Text>
+
+        {progress && (
+          <div className="mt-3">
+            <ProgressBar now={percent} animated label={progress.total > 0 ? `${progress.loaded} / ${progress.total}` : undefined} />
+          </div>
+        )}
+        {error && (
+          <Alert variant="danger" className="mt-3 mb-0">
+            {error}
+          </Alert>
+        )}
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="secondary" onClick={handleHide}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleExport} disabled={exporting || !canExport}>
+          {exporting && <span className="spinner-border spinner-border-sm me-1" role="status" aria-hidden="true" />}
+          Export
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
+
+export default ExportCallRecordsModal
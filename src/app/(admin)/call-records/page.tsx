@@ -1,45 +1,198 @@
 'use client'
 
-import React, { useEffect, useState, useCallback, useMemo } from 'react'
-import { Row, Col, Button, Badge, Modal, ModalHeader, ModalBody, ModalFooter, ModalTitle, Spinner } from 'react-bootstrap'
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react'
+import { Row, Col, Button, Badge, Form, InputGroup, Spinner } from 'react-bootstrap'
 import Link from 'next/link'
+import { usePathname, useRouter } from 'next/navigation'
+import { toast } from 'react-toastify'
 import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import CallSummaryModal from '@/components/CallSummaryModal'
+import CustomFlatpickr from '@/components/CustomFlatpickr'
+import ExportCallRecordsModal from './components/ExportCallRecordsModal'
 import Footer from '@/components/layout/Footer'
 import { useAuth } from '@/context/useAuthContext'
+import { useTimezone } from '@/context/useTimezoneContext'
+import { useUnreadCalls } from '@/context/useUnreadCallsContext'
+import { getLocalDateString } from '@/helpers/action-items'
+import { formatCallDate, formatCallDuration, isUrgentSummary } from '@/helpers/summary'
+import { getTimeZoneOptions } from '@/helpers/timezone'
+import usePermission from '@/hooks/usePermission'
+import useQueryParams from '@/hooks/useQueryParams'
+import { adminAgentApi } from '@/lib/admin-agent-api'
 import { summaryApi } from '@/lib/summary-api'
-import type { SummaryOut, SummaryFilters, SummarySort, Timezone } from '@/types/summary'
+import type { AdminAgent } from '@/types/admin-agent'
+import type {
+  CallSummary,
+  SummaryCallSuccess,
+  SummaryFilters,
+  SummaryQueryParams,
+  SummarySort,
+  SummarySortDirection,
+  SummarySortField
+} from '@/types/summary'
 import { DataTable } from '@/components/table'
-import type { DataTableColumn, DataTableFilterControl } from '@/components/table'
+import type { DataTableColumn, DataTableFilterControl, DataTableRowKey } from '@/components/table'
+
+// Sortable columns and the backend field each one orders by
+const SORT_FIELDS: Record<string, SummarySortField> = {
+  callerName: 'caller_name',
+  callTime: 'call_timing',
+  duration: 'duration',
+  urgency: 'urgency'
+}
+
+const FILTER_VALUES: SummaryFilters[] = ['all', 'read', 'unread', 'urgent']
+const SORT_VALUES: SummarySort[] = ['newest', 'oldest']
+
+const CALL_SUCCESS_OPTIONS: { value: SummaryCallSuccess; label: string }[] = [
+  { value: 'success', label: 'Successful' },
+  { value: 'failure', label: 'Failed' },
+  { value: 'unknown', label: 'Outcome Unknown' }
+]
+
+// Minimum call length in seconds
+const MIN_DURATION_OPTIONS = [
+  { value: 30, label: '30+ seconds' },
+  { value: 60, label: '1+ minute' },
+  { value: 120, label: '2+ minutes' },
+  { value: 300, label: '5+ minutes' },
+  { value: 600, label: '10+ minutes' }
+]
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Everything the URL carries, so a filtered view can be bookmarked or shared
+type CallRecordsUrlState = {
+  search: string
+  filter: SummaryFilters
+  sort: SummarySort
+  sortColumn: string | null
+  sortDirection: SummarySortDirection
+  dateFrom: string
+  dateTo: string
+  agentId: string
+  storeNumber: string
+  callSuccess: SummaryCallSuccess | ''
+  minDuration: number | null
+  page: number
+}
+
+const pickValue = <T extends string>(value: string | undefined, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback
+
+const parseUrlState = (params: Record<string, string>): CallRecordsUrlState => {
+  const minDuration = Number(params.min_duration)
+  const page = Number(params.page)
+  // A range needs both ends
+  const hasRange = DATE_PATTERN.test(params.from ?? '') && DATE_PATTERN.test(params.to ?? '')
+
+  return {
+    search: params.q ?? '',
+    filter: pickValue(params.filter, FILTER_VALUES, 'all'),
+    sort: pickValue(params.sort, SORT_VALUES, 'newest'),
+    sortColumn: Object.keys(SORT_FIELDS).find((key) => SORT_FIELDS[key] === params.sort_by) ?? null,
+    sortDirection: params.sort_dir === 'desc' ? 'desc' : 'asc',
+    dateFrom: hasRange ? params.from : '',
+    dateTo: hasRange ? params.to : '',
+    agentId: params.agent ?? '',
+    storeNumber: params.store ?? '',
+    callSuccess: pickValue<SummaryCallSuccess | ''>(params.success, CALL_SUCCESS_OPTIONS.map((option) => option.value), ''),
+    minDuration: MIN_DURATION_OPTIONS.some((option) => option.value === minDuration) ? minDuration : null,
+    page: Number.isInteger(page) && page > 1 ? page : 1
+  }
+}
+
+// Defaults are left out to keep the URL short
+const buildUrlQuery = (state: CallRecordsUrlState) => {
+  const params = new URLSearchParams()
+  if (state.search) params.set('q', state.search)
+  if (state.filter !== 'all') params.set('filter', state.filter)
+  if (state.sort !== 'newest') params.set('sort', state.sort)
+  if (state.sortColumn) {
+    params.set('sort_by', SORT_FIELDS[state.sortColumn])
+    params.set('sort_dir', state.sortDirection)
+  }
+  if (state.dateFrom && state.dateTo) {
+    params.set('from', state.dateFrom)
+    params.set('to', state.dateTo)
+  }
+  if (state.agentId) params.set('agent', state.agentId)
+  if (state.storeNumber) params.set('store', state.storeNumber)
+  if (state.callSuccess) params.set('success', state.callSuccess)
+  if (state.minDuration !== null) params.set('min_duration', String(state.minDuration))
+  if (state.page > 1) params.set('page', String(state.page))
+  return params.toString()
+}
+
+const parseLocalDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
 
 const CallRecordsPage = () => {
-  const { token, isAuthenticated } = useAuth()
-  const [summaries, setSummaries] = useState<SummaryOut[]>([])
+  const { isAuthenticated } = useAuth()
+  const { refreshUnreadCount } = useUnreadCalls()
+  // The viewer's zone, remembered per user rather than kept in the URL
+  const { timezone, setTimezone, resetTimezone, isBrowserDefault } = useTimezone()
+  const router = useRouter()
+  const pathname = usePathname()
+  const queryParams = useQueryParams()
+  const [initialState] = useState(() => parseUrlState(queryParams))
+  const canViewAgents = usePermission('agents:read')
+  const [summaries, setSummaries] = useState<CallSummary[]>([])
   const [loading, setLoading] = useState(true)
+  // After the first fetch the table stays mounted while refetching, so a filter being typed in keeps focus
+  const [hasLoaded, setHasLoaded] = useState(false)
+  const initialLoading = loading && !hasLoaded
   const [error, setError] = useState<string | null>(null)
 
-  const [searchQuery, setSearchQuery] = useState('')
-  const [filter, setFilter] = useState<SummaryFilters>('all')
-  const [sort, setSort] = useState<SummarySort>('newest')
-  const [timezone, setTimezone] = useState<Timezone>('UTC')
+  const [searchQuery, setSearchQuery] = useState(initialState.search)
+  const [filter, setFilter] = useState<SummaryFilters>(initialState.filter)
+  const [sort, setSort] = useState<SummarySort>(initialState.sort)
+
+  const [sortColumn, setSortColumn] = useState<string | null>(initialState.sortColumn)
+  const [sortDirection, setSortDirection] = useState<SummarySortDirection>(initialState.sortDirection)
 
-  const [sortColumn, setSortColumn] = useState<string | null>(null)
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc')
+  const [dateFrom, setDateFrom] = useState(initialState.dateFrom)
+  const [dateTo, setDateTo] = useState(initialState.dateTo)
+  const [agentId, setAgentId] = useState(initialState.agentId)
+  const [storeInput, setStoreInput] = useState(initialState.storeNumber)
+  const [storeNumber, setStoreNumber] = useState(initialState.storeNumber)
+  const [callSuccess, setCallSuccess] = useState<SummaryCallSuccess | ''>(initialState.callSuccess)
+  const [minDuration, setMinDuration] = useState<number | null>(initialState.minDuration)
+  const [agentOptions, setAgentOptions] = useState<{ id: string; name: string }[]>([])
 
-  const [currentPage, setCurrentPage] = useState(1)
+  const [currentPage, setCurrentPage] = useState(initialState.page)
   const [pageSize, setPageSize] = useState(10)
   const [totalCount, setTotalCount] = useState(0)
   const [hasMore, setHasMore] = useState(false)
   const [isLastPage, setIsLastPage] = useState(false)
-  const [allSummaries, setAllSummaries] = useState<SummaryOut[]>([])
 
-  const [selectedSummary, setSelectedSummary] = useState<SummaryOut | null>(null)
+  const [selectedSummary, setSelectedSummary] = useState<CallSummary | null>(null)
   const [showDetailModal, setShowDetailModal] = useState(false)
 
-  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [selectedKeys, setSelectedKeys] = useState<DataTableRowKey[]>([])
+  const [updatingReadState, setUpdatingReadState] = useState(false)
+
+  const [debouncedSearch, setDebouncedSearch] = useState(initialState.search)
   const [showFilters, setShowFilters] = useState(true)
 
+  const [showExportModal, setShowExportModal] = useState(false)
+  const [visibleColumnKeys, setVisibleColumnKeys] = useState<string[]>([])
+  const fetchAbortRef = useRef<AbortController | null>(null)
+  // What the debounced inputs last applied, so the values read from the URL don't reset the page
+  const appliedSearchRef = useRef(initialState.search)
+  const appliedStoreRef = useRef(initialState.storeNumber)
+
+  const resetPaging = () => {
+    setCurrentPage(1)
+    setIsLastPage(false)
+  }
+
   useEffect(() => {
+    if (searchQuery === appliedSearchRef.current) return
     const timer = setTimeout(() => {
+      appliedSearchRef.current = searchQuery
       setDebouncedSearch(searchQuery)
       setCurrentPage(1)
       setIsLastPage(false)
@@ -48,33 +201,126 @@ const CallRecordsPage = () => {
     return () => clearTimeout(timer)
   }, [searchQuery])
 
+  useEffect(() => {
+    const trimmed = storeInput.trim()
+    if (trimmed === appliedStoreRef.current) return
+    const timer = setTimeout(() => {
+      appliedStoreRef.current = trimmed
+      setStoreNumber(trimmed)
+      setCurrentPage(1)
+      setIsLastPage(false)
+    }, 500)
+
+    return () => clearTimeout(timer)
+  }, [storeInput])
+
+  useEffect(() => {
+    const query = buildUrlQuery({
+      search: debouncedSearch,
+      filter,
+      sort,
+      sortColumn,
+      sortDirection,
+      dateFrom,
+      dateTo,
+      agentId,
+      storeNumber,
+      callSuccess,
+      minDuration,
+      page: currentPage
+    })
+    if (query === window.location.search.replace(/^\?/, '')) return
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }, [
+    router,
+    pathname,
+    debouncedSearch,
+    filter,
+    sort,
+    sortColumn,
+    sortDirection,
+    dateFrom,
+    dateTo,
+    agentId,
+    storeNumber,
+    callSuccess,
+    minDuration,
+    currentPage
+  ])
+
+  useEffect(() => {
+    if (!isAuthenticated || !canViewAgents) {
+      setAgentOptions([])
+      return
+    }
+
+    let cancelled = false
+    // Without the list the agent filter stays hidden, calls still load across every agent
+    adminAgentApi.getAllAgents({ limit: 1000 }).then((response) => {
+      if (cancelled || !response.data) return
+      const payload = response.data as AdminAgent[] | { items?: AdminAgent[] }
+      const items = Array.isArray(payload) ? payload : payload.items ?? []
+      setAgentOptions(
+        items.flatMap((agent) => {
+          const id = agent.agent_id || agent.id
+          return id ? [{ id, name: agent.name || 'Unnamed Agent' }] : []
+        })
+      )
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [isAuthenticated, canViewAgents])
+
+  const agentNames = useMemo(() => new Map(agentOptions.map((agent) => [agent.id, agent.name])), [agentOptions])
+  const showAgentFilter = agentOptions.length > 1
+
+  // Everything but paging, shared by the table and the export
+  const summaryQuery = useMemo<Omit<SummaryQueryParams, 'skip' | 'limit'>>(
+    () => ({
+      search: debouncedSearch || undefined,
+      filter: filter !== 'all' ? filter : undefined,
+      sort,
+      sort_by: sortColumn ? SORT_FIELDS[sortColumn] : undefined,
+      sort_dir: sortColumn ? sortDirection : undefined,
+      tz: timezone,
+      from: dateFrom || undefined,
+      to: dateTo || undefined,
+      agent_id: agentId || undefined,
+      store_number: storeNumber || undefined,
+      call_success: callSuccess || undefined,
+      min_duration: minDuration ?? undefined
+    }),
+    [debouncedSearch, filter, sort, sortColumn, sortDirection, timezone, dateFrom, dateTo, agentId, storeNumber, callSuccess, minDuration]
+  )
+
   const fetchSummaries = useCallback(async () => {
-    if (!token || !isAuthenticated) {
+    if (!isAuthenticated) {
       setLoading(false)
       return
     }
 
+    // Cancel any in-flight request so a stale search can't overwrite newer results
+    fetchAbortRef.current?.abort()
+    const controller = new AbortController()
+    fetchAbortRef.current = controller
+
     setLoading(true)
     setError(null)
 
+    const baseParams = { ...summaryQuery, limit: pageSize }
+
     try {
-      const shouldFetchAll = sortColumn !== null
-      const fetchLimit = shouldFetchAll ? 1000 : pageSize
-      const fetchSkip = shouldFetchAll ? 0 : (currentPage - 1) * pageSize
-
-      const response = await summaryApi.getUserSummaries(token, {
-        skip: fetchSkip,
-        limit: fetchLimit,
-        search: debouncedSearch || undefined,
-        filter: filter !== 'all' ? filter : undefined,
-        sort,
-        tz: timezone
-      })
+      const response = await summaryApi.getUserSummaries(
+        { ...baseParams, skip: (currentPage - 1) * pageSize },
+        { signal: controller.signal }
+      )
+
+      if (response.aborted) return
 
       if (response.error) {
         setError(response.error)
         setSummaries([])
-        setAllSummaries([])
         setHasMore(false)
         setIsLastPage(true)
         setTotalCount(0)
@@ -82,85 +328,121 @@ const CallRecordsPage = () => {
         const summariesData = response.data.summaries
         const totalFromBackend = response.data.total
 
-        if (shouldFetchAll) {
-          setAllSummaries(summariesData)
-          setTotalCount(totalFromBackend)
-          setHasMore(false)
-          setIsLastPage(true)
-        } else {
-          if (summariesData.length === 0 && currentPage > 1) {
-            const previousPage = currentPage - 1
-            try {
-              const prevResponse = await summaryApi.getUserSummaries(token, {
-                skip: (previousPage - 1) * pageSize,
-                limit: pageSize,
-                search: debouncedSearch || undefined,
-                filter: filter !== 'all' ? filter : undefined,
-                sort,
-                tz: timezone
-              })
-
-              if (prevResponse.data) {
-                setSummaries(prevResponse.data.summaries)
-                setAllSummaries([])
-                setCurrentPage(previousPage)
-                setIsLastPage(true)
-                setHasMore(false)
-                setTotalCount(prevResponse.data.total)
-              }
-            } catch (prevErr) {
+        if (summariesData.length === 0 && currentPage > 1) {
+          const previousPage = currentPage - 1
+          try {
+            const prevResponse = await summaryApi.getUserSummaries(
+              { ...baseParams, skip: (previousPage - 1) * pageSize },
+              { signal: controller.signal }
+            )
+
+            if (prevResponse.aborted) return
+
+            if (prevResponse.data) {
+              setSummaries(prevResponse.data.summaries)
               setCurrentPage(previousPage)
               setIsLastPage(true)
               setHasMore(false)
-              setSummaries([])
-              setAllSummaries([])
+              setTotalCount(prevResponse.data.total)
             }
-            setLoading(false)
-            return
+          } catch (prevErr) {
+            setCurrentPage(previousPage)
+            setIsLastPage(true)
+            setHasMore(false)
+            setSummaries([])
           }
+          setLoading(false)
+          return
+        }
 
-          setSummaries(summariesData)
-          setAllSummaries([])
+        setSummaries(summariesData)
 
-          if (totalFromBackend !== undefined) {
-            setTotalCount(totalFromBackend)
-          }
+        if (totalFromBackend !== undefined) {
+          setTotalCount(totalFromBackend)
+        }
 
-          const currentRecordCount = (currentPage - 1) * pageSize + summariesData.length
-          const isLast = totalFromBackend !== undefined && currentRecordCount >= totalFromBackend
-          const hasMoreData = totalFromBackend !== undefined && currentRecordCount < totalFromBackend
+        const currentRecordCount = (currentPage - 1) * pageSize + summariesData.length
+        const isLast = totalFromBackend !== undefined && currentRecordCount >= totalFromBackend
+        const hasMoreData = totalFromBackend !== undefined && currentRecordCount < totalFromBackend
 
-          setIsLastPage(isLast)
-          setHasMore(hasMoreData)
-        }
+        setIsLastPage(isLast)
+        setHasMore(hasMoreData)
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch summaries')
       setSummaries([])
-      setAllSummaries([])
       setHasMore(false)
       setIsLastPage(true)
       setTotalCount(0)
     } finally {
-      setLoading(false)
+      if (!controller.signal.aborted) {
+        setLoading(false)
+        setHasLoaded(true)
+      }
     }
-  }, [token, isAuthenticated, currentPage, pageSize, debouncedSearch, filter, sort, timezone, sortColumn])
+  }, [isAuthenticated, currentPage, pageSize, summaryQuery])
 
   useEffect(() => {
     fetchSummaries()
+    // Selections only make sense for the rows on screen
+    setSelectedKeys([])
   }, [fetchSummaries])
 
-  const handleViewDetails = useCallback((summary: SummaryOut) => {
-    setSelectedSummary(summary)
-    setShowDetailModal(true)
+  useEffect(() => {
+    return () => {
+      fetchAbortRef.current?.abort()
+    }
   }, [])
 
-  const formatCallTime = useCallback((timeString: string | null | undefined): string => {
-    if (!timeString) return 'N/A'
-    let formatted = timeString.replace(/Start \([^)]*\):\s*/i, '').replace(/End \([^)]*\):\s*/i, '')
-    formatted = formatted.replace(/^[A-Za-z]+,\s*/, '')
-    return formatted
-  }, [])
+  // Apply a read state change to the loaded rows and the open modal, then sync the menu counter.
+  // The counter is refetched: loaded rows can be stale by the time a request settles
+  const applyViewStatus = useCallback(
+    (ids: string[], viewed: boolean) => {
+      const idSet = new Set(ids)
+      const update = (rows: CallSummary[]) =>
+        rows.map((row) => (row.id && idSet.has(row.id) ? { ...row, isRead: viewed } : row))
+
+      refreshUnreadCount()
+      setSummaries(update)
+      setSelectedSummary((prev) => (prev?.id && idSet.has(prev.id) ? { ...prev, isRead: viewed } : prev))
+
+      // Rows no longer match a read/unread filter, reload so they drop out
+      if (filter === 'read' || filter === 'unread') fetchSummaries()
+    },
+    [refreshUnreadCount, filter, fetchSummaries]
+  )
+
+  const setReadState = useCallback(
+    async (ids: string[], viewed: boolean) => {
+      if (ids.length === 0) return false
+      const response =
+        ids.length === 1
+          ? await summaryApi.updateViewStatus(ids[0], viewed)
+          : await summaryApi.bulkUpdateViewStatus(ids, viewed)
+      if (response.error) {
+        toast.error(response.error)
+        return false
+      }
+      applyViewStatus(ids, viewed)
+      return true
+    },
+    [applyViewStatus]
+  )
+
+  const handleViewDetails = useCallback(
+    (summary: CallSummary) => {
+      setSelectedSummary(summary)
+      setShowDetailModal(true)
+      // Opening a call counts as reading it, failures are silent since the modal still works
+      if (summary.id && !summary.isRead) {
+        const summaryId = summary.id
+        summaryApi.markRead(summaryId).then((response) => {
+          if (!response.error) applyViewStatus([summaryId], true)
+        })
+      }
+    },
+    [applyViewStatus]
+  )
 
   const handleSort = useCallback(
     (column: string) => {
@@ -176,74 +458,58 @@ const CallRecordsPage = () => {
     [sortColumn]
   )
 
+  // Stable between renders, the picker resets its selection whenever the value changes
+  const dateRangeValue = useMemo(
+    () => (dateFrom && dateTo ? [parseLocalDate(dateFrom), parseLocalDate(dateTo)] : []),
+    [dateFrom, dateTo]
+  )
+
+  const handleDateRangeChange = (dates: Date[]) => {
+    // The picker reports the first click of a range on its own, wait for both ends
+    if (dates.length === 1) return
+    setDateFrom(dates.length === 2 ? getLocalDateString(dates[0]) : '')
+    setDateTo(dates.length === 2 ? getLocalDateString(dates[1]) : '')
+    resetPaging()
+  }
+
   const clearFilters = () => {
     setFilter('all')
     setSort('newest')
-    setTimezone('UTC')
+    setSortColumn(null)
+    setDateFrom('')
+    setDateTo('')
+    setAgentId('')
+    appliedStoreRef.current = ''
+    setStoreInput('')
+    setStoreNumber('')
+    setCallSuccess('')
+    setMinDuration(null)
     setCurrentPage(1)
     setIsLastPage(false)
   }
 
-  const sortedAndPaginatedSummaries = useMemo(() => {
-    const dataToSort = sortColumn ? allSummaries : summaries
+  const rowKey = (row: CallSummary, index: number) => row.id ?? `${row.conversationId ?? 'row'}-${index}`
 
-    if (!sortColumn) {
-      return dataToSort
-    }
+  const handleBulkReadState = async (viewed: boolean) => {
+    // Rows without an id can't be updated, their keys are only placeholders
+    const ids = summaries
+      .filter((row, index) => row.id && selectedKeys.includes(rowKey(row, index)))
+      .map((row) => row.id as string)
 
-    const sorted = [...dataToSort].sort((a, b) => {
-      let aValue: any = a[sortColumn as keyof SummaryOut]
-      let bValue: any = b[sortColumn as keyof SummaryOut]
-
-      if (aValue == null) aValue = ''
-      if (bValue == null) bValue = ''
-
-      if (typeof aValue === 'boolean' && typeof bValue === 'boolean') {
-        return sortDirection === 'asc'
-          ? aValue === bValue
-            ? 0
-            : aValue
-              ? 1
-              : -1
-          : aValue === bValue
-            ? 0
-            : aValue
-              ? -1
-              : 1
-      }
-
-      if (sortColumn === 'Duration') {
-        const extractMinutes = (value: any): number => {
-          if (!value) return 0
-          const str = String(value).toLowerCase()
-          const match = str.match(/(\d+\.?\d*)\s*minutes?/)
-          return match ? parseFloat(match[1]) : 0
-        }
-        const aMinutes = extractMinutes(aValue)
-        const bMinutes = extractMinutes(bValue)
-        return sortDirection === 'asc' ? aMinutes - bMinutes : bMinutes - aMinutes
+    setUpdatingReadState(true)
+    try {
+      if (await setReadState(ids, viewed)) {
+        toast.success(`Marked ${ids.length} call${ids.length === 1 ? '' : 's'} as ${viewed ? 'read' : 'unread'}`)
+        setSelectedKeys([])
       }
-
-      const aStr = String(aValue).toLowerCase()
-      const bStr = String(bValue).toLowerCase()
-
-      let comparison = 0
-      if (aStr < bStr) comparison = -1
-      else if (aStr > bStr) comparison = 1
-
-      return sortDirection === 'asc' ? comparison : -comparison
-    })
-
-    const startIndex = (currentPage - 1) * pageSize
-    const endIndex = startIndex + pageSize
-    return sorted.slice(startIndex, endIndex)
-  }, [allSummaries, summaries, sortColumn, sortDirection, currentPage, pageSize])
+    } finally {
+      setUpdatingReadState(false)
+    }
+  }
 
   const handlePageChange = (newPage: number) => {
     setCurrentPage(newPage)
-    if (!sortColumn) {
     window.scrollTo({ top: 0, behavior: 'smooth' })
-    }
   }
 
   const handlePageSizeChange = (newSize: number) => {
@@ -252,13 +518,11 @@ const CallRecordsPage = () => {
     setIsLastPage(false)
   }
 
-  const effectiveTotalCount = sortColumn ? allSummaries.length : totalCount
-  const totalRecordsDisplay = sortColumn ? effectiveTotalCount : totalCount
-  const startRecord = sortedAndPaginatedSummaries.length > 0 ? (currentPage - 1) * pageSize + 1 : 0
-  const endRecord = (currentPage - 1) * pageSize + sortedAndPaginatedSummaries.length
-  const totalPages = sortColumn ? Math.ceil(effectiveTotalCount / pageSize) : (isLastPage ? currentPage : currentPage + 1)
+  const startRecord = summaries.length > 0 ? (currentPage - 1) * pageSize + 1 : 0
+  const endRecord = (currentPage - 1) * pageSize + summaries.length
+  const totalPages = isLastPage ? currentPage : currentPage + 1
 
-  const dataTableColumns: DataTableColumn<SummaryOut>[] = [
+  const dataTableColumns: DataTableColumn<CallSummary>[] = [
     {
       key: 'rowNumber',
       header: '#',
@@ -273,8 +537,9 @@ const CallRecordsPage = () => {
       key: 'callerName',
       header: 'Caller Name',
       minWidth: 150,
+      sortable: true,
       render: (row) => (
-        <span className="fw-medium">{row['Caller Name'] || <span className="text-muted fst-italic">N/A</span>}</span>
+        <span className="fw-medium">{row.callerName || <span className="text-muted fst-italic">N/A</span>}</span>
       )
     },
     {
@@ -282,8 +547,8 @@ const CallRecordsPage = () => {
       header: 'Email',
       minWidth: 200,
       render: (row) => (
-        <div className="text-truncate" style={{ maxWidth: '200px' }} title={row['Caller Email'] || ''}>
-          {row['Caller Email'] || <span className="text-muted fst-italic">N/A</span>}
+        <div className="text-truncate" style={{ maxWidth: '200px' }} title={row.callerEmail || ''}>
+          {row.callerEmail || <span className="text-muted fst-italic">N/A</span>}
               </div>
       )
     },
@@ -291,15 +556,33 @@ const CallRecordsPage = () => {
       key: 'phone',
       header: 'Phone',
       minWidth: 130,
-      render: (row) => row['Caller Number'] || <span className="text-muted fst-italic">N/A</span>
+      render: (row) => row.callerNumber || <span className="text-muted fst-italic">N/A</span>
+    },
+    ...(showAgentFilter
+      ? [
+          {
+            key: 'agent',
+            header: 'Agent',
+            minWidth: 150,
+            render: (row: CallSummary) =>
+              row.agentId ? agentNames.get(row.agentId) ?? row.agentId : <span className="text-muted fst-italic">N/A</span>
+          }
+        ]
+      : []),
+    {
+      key: 'storeNumber',
+      header: 'Store Number',
+      minWidth: 130,
+      render: (row) => row.storeNumber || <span className="text-muted fst-italic">N/A</span>
     },
     {
       key: 'callTime',
       header: 'Call Time',
       minWidth: 200,
+      sortable: true,
       render: (row) =>
-        row['Call timing'] || row['Call Timing'] ? (
-          <span>{formatCallTime(row['Call timing'] || row['Call Timing'])}</span>
+        row.callStart ? (
+          <span>{formatCallDate(row.callStart, timezone)}</span>
         ) : (
           <span className="text-muted fst-italic">N/A</span>
         )
@@ -309,10 +592,11 @@ const CallRecordsPage = () => {
       header: 'Duration',
       align: 'center',
       minWidth: 120,
+      sortable: true,
       render: (row) =>
-        row['Duration'] ? (
+        row.durationSeconds !== null ? (
           <Badge bg="info" className="px-2 py-1">
-            {row['Duration']}
+            {formatCallDuration(row.durationSeconds)}
           </Badge>
         ) : (
           <span className="text-muted fst-italic">N/A</span>
@@ -326,12 +610,12 @@ const CallRecordsPage = () => {
         <div
           className="text-truncate"
           style={{ maxWidth: '250px', fontSize: '0.9rem', color: '#4b5563', lineHeight: '1.5' }}
-          title={row['Brief Summary'] || ''}
+          title={row.briefSummary || ''}
         >
-          {row['Brief Summary']
-            ? row['Brief Summary'].length > 80
-              ? `${row['Brief Summary'].substring(0, 80)}...`
-              : row['Brief Summary']
+          {row.briefSummary
+            ? row.briefSummary.length > 80
+              ? `${row.briefSummary.substring(0, 80)}...`
+              : row.briefSummary
             : <span className="text-muted fst-italic">No summary available</span>}
           </div>
       )
@@ -343,7 +627,7 @@ const CallRecordsPage = () => {
       minWidth: 120,
       sticky: 'right',
       render: (row) =>
-        row['View_Status'] ? (
+        row.isRead ? (
           <Badge bg="success" className="px-2 py-1">
             Read
           </Badge>
@@ -360,9 +644,9 @@ const CallRecordsPage = () => {
       minWidth: 120,
       sticky: 'right',
       render: (row) =>
-        row['Action_flag'] ? (
-          <Badge bg={row['Action_status'] === 'Done' ? 'success' : 'danger'} className="px-2 py-1">
-            {row['Action_status'] || 'Pending'}
+        row.actionFlag ? (
+          <Badge bg={row.actionStatus === 'Done' ? 'success' : 'danger'} className="px-2 py-1">
+            {row.actionStatus || 'Pending'}
           </Badge>
         ) : (
           <Badge bg="secondary" className="px-2 py-1">
@@ -375,9 +659,10 @@ const CallRecordsPage = () => {
       header: 'Urgency',
       align: 'center',
       minWidth: 100,
+      sortable: true,
       sticky: 'right',
       render: (row) =>
-        row['Urgency'] ? (
+        isUrgentSummary(row) ? (
           <Badge bg="danger" className="px-2 py-1">
             Urgent
           </Badge>
@@ -391,19 +676,33 @@ const CallRecordsPage = () => {
       key: 'actions',
       header: 'Actions',
       align: 'center',
-      minWidth: 150,
+      minWidth: 170,
       sticky: 'right',
       render: (row) => (
         <div className="d-flex gap-2 justify-content-center">
           <Button variant="primary" size="sm" onClick={() => handleViewDetails(row)} title="View Details">
             <IconifyIcon icon="solar:eye-outline" width={16} height={16} />
           </Button>
-          {row['Recording Link'] && (
+          {row.id && (
+            <Button
+              variant="outline-secondary"
+              size="sm"
+              onClick={() => setReadState([row.id as string], !row.isRead)}
+              title={row.isRead ? 'Mark as unread' : 'Mark as read'}
+            >
+              <IconifyIcon
+                icon={row.isRead ? 'solar:letter-unread-outline' : 'solar:letter-opened-outline'}
+                width={16}
+                height={16}
+              />
+            </Button>
+          )}
+          {row.recordingLink && (
                     <Button
               variant="success"
               size="sm"
               as="a"
-              href={row['Recording Link']}
+              href={row.recordingLink}
               target="_blank"
               rel="noopener noreferrer"
               title="Play Recording"
@@ -416,6 +715,11 @@ const CallRecordsPage = () => {
     }
   ]
 
+  const timeZoneOptions = getTimeZoneOptions().map((option) => ({ label: option.label, value: option.value }))
+  if (!timeZoneOptions.some((option) => option.value === timezone)) {
+    timeZoneOptions.unshift({ label: timezone, value: timezone })
+  }
+
   const toolbarFilters: DataTableFilterControl[] = [
     {
       id: 'filter',
@@ -448,11 +752,14 @@ const CallRecordsPage = () => {
       onChange: (value: string) => {
         const nextSort = (value || 'newest') as SummarySort
         setSort(nextSort)
+        // Picking newest/oldest replaces any column sort
+        setSortColumn(null)
                       setCurrentPage(1)
                         setIsLastPage(false)
       },
       onClear: sort !== 'newest' ? () => {
                           setSort('newest')
+                          setSortColumn(null)
                           setCurrentPage(1)
                           setIsLastPage(false)
       } : undefined,
@@ -465,24 +772,117 @@ const CallRecordsPage = () => {
       id: 'timezone',
       label: 'Timezone',
       type: 'select',
-      value: timezone === 'UTC' ? '' : timezone,
+      value: timezone,
       onChange: (value: string) => {
-        const nextTz = (value || 'UTC') as Timezone
-        setTimezone(nextTz)
-                      setCurrentPage(1)
-                        setIsLastPage(false)
+        setTimezone(value).then((result) => {
+          if (!result.success) toast.error(result.error || 'Failed to save your time zone')
+        })
+        resetPaging()
       },
-      onClear: timezone !== 'UTC' ? () => {
-                          setTimezone('UTC')
-                          setCurrentPage(1)
-                          setIsLastPage(false)
-      } : undefined,
+      // Clearing goes back to the browser's zone
+      onClear: !isBrowserDefault
+        ? () => {
+            resetTimezone().then((result) => {
+              if (!result.success) toast.error(result.error || 'Failed to save your time zone')
+            })
+            resetPaging()
+          }
+        : undefined,
+      options: timeZoneOptions
+    },
+    {
+      id: 'dateRange',
+      label: 'Call Date',
+      type: 'custom',
+      element: (
+        <InputGroup className="shadow-sm">
+          <CustomFlatpickr
+            className="form-control"
+            placeholder="Any call date"
+            value={dateRangeValue}
+            options={{ mode: 'range', enableTime: false, dateFormat: 'M j, Y' }}
+            onChange={handleDateRangeChange}
+          />
+          {dateFrom && (
+            <InputGroup.Text role="button" className="bg-body-secondary" onClick={() => handleDateRangeChange([])}>
+              <IconifyIcon icon="solar:close-circle-bold" width={16} height={16} />
+            </InputGroup.Text>
+          )}
+        </InputGroup>
+      )
+    },
+    ...(showAgentFilter
+      ? [
+          {
+            id: 'agent',
+            label: 'Agent',
+            type: 'select' as const,
+            value: agentId,
+            onChange: (value: string) => {
+              setAgentId(value)
+              resetPaging()
+            },
+            onClear: agentId
+              ? () => {
+                  setAgentId('')
+                  resetPaging()
+                }
+              : undefined,
+            options: [{ label: 'All Agents', value: '' }, ...agentOptions.map((agent) => ({ label: agent.name, value: agent.id }))]
+          }
+        ]
+      : []),
+    {
+      id: 'storeNumber',
+      label: 'Store Number',
+      type: 'custom',
+      element: (
+        <Form.Control
+          className="shadow-sm"
+          placeholder="Store number"
+          value={storeInput}
+          onChange={(event) => setStoreInput(event.target.value)}
+          aria-label="Filter by store number"
+          style={{ fontSize: '0.95rem' }}
+        />
+      )
+    },
+    {
+      id: 'callSuccess',
+      label: 'Call Outcome',
+      type: 'select',
+      value: callSuccess,
+      onChange: (value: string) => {
+        setCallSuccess(value as SummaryCallSuccess | '')
+        resetPaging()
+      },
+      onClear: callSuccess
+        ? () => {
+            setCallSuccess('')
+            resetPaging()
+          }
+        : undefined,
+      options: [{ label: 'Any Outcome', value: '' }, ...CALL_SUCCESS_OPTIONS]
+    },
+    {
+      id: 'minDuration',
+      label: 'Minimum Duration',
+      type: 'select',
+      value: minDuration === null ? '' : String(minDuration),
+      onChange: (value: string) => {
+        setMinDuration(value ? Number(value) : null)
+        resetPaging()
+      },
+      onClear:
+        minDuration !== null
+          ? () => {
+              setMinDuration(null)
+              resetPaging()
+            }
+          : undefined,
       options: [
-        { label: 'UTC', value: '' },
-        { label: 'EST', value: 'EST' },
-        { label: 'CST', value: 'CST' },
-        { label: 'MST', value: 'MST' },
-        { label: 'PST', value: 'PST' }
+        { label: 'Any Duration', value: '' },
+        ...MIN_DURATION_OPTIONS.map((option) => ({ label: option.label, value: String(option.value) }))
       ]
     }
   ]
@@ -505,7 +905,28 @@ const CallRecordsPage = () => {
                           </div>
   )
 
-  const filtersDirty = filter !== 'all' || sort !== 'newest' || timezone !== 'UTC'
+  const filtersDirty =
+    filter !== 'all' ||
+    sort !== 'newest' ||
+    !!dateFrom ||
+    !!agentId ||
+    !!storeInput ||
+    !!callSuccess ||
+    minDuration !== null
+
+  // A column sort replaces the newest/oldest filter, so describe that instead
+  const sortedColumn = sortColumn ? dataTableColumns.find((column) => column.key === sortColumn) : undefined
+  const exportQueryDescription = [
+    debouncedSearch ? `Search "${debouncedSearch}"` : null,
+    dateFrom && dateTo ? `Calls ${dateFrom} to ${dateTo}` : null,
+    storeNumber ? `Store ${storeNumber}` : null,
+    ...toolbarFilters
+      .filter((control) => !(sortedColumn && control.id === 'sort'))
+      .map((control) => control.options?.find((option) => option.value === (control.value ?? ''))?.label),
+    sortedColumn ? `Sorted by ${sortedColumn.header} (${sortDirection === 'asc' ? 'ascending' : 'descending'})` : null
+  ]
+    .filter(Boolean)
+    .join(' · ')
 
   if (!isAuthenticated) {
     return (
@@ -541,7 +962,7 @@ const CallRecordsPage = () => {
                 </Col>
               </Row>
 
-      {loading && (
+      {initialLoading && (
         <Row className="mt-4">
           <Col xs={12}>
               <style>{`
@@ -589,7 +1010,7 @@ const CallRecordsPage = () => {
         </Row>
       )}
 
-      {!loading && (
+      {!initialLoading && (
         <Row className="mt-4">
           <Col xs={12}>
             <DataTable
@@ -597,11 +1018,11 @@ const CallRecordsPage = () => {
               title="Call Records"
               description="Track and filter every AI call summary"
               columns={dataTableColumns}
-              data={sortedAndPaginatedSummaries}
+              data={summaries}
               loading={loading}
               error={error}
               onRetry={fetchSummaries}
-              minTableWidth={1650}
+              minTableWidth={1780}
               toolbar={{
                 showFilters,
                 onToggleFilters: () => setShowFilters((prev) => !prev),
@@ -612,22 +1033,38 @@ const CallRecordsPage = () => {
                   onClear: () => setSearchQuery('')
                 },
                 filters: toolbarFilters,
-                extra: filtersDirty ? (
-                  <Button
-                    variant="outline-secondary"
-                    className="shadow-sm"
-                    onClick={clearFilters}
-                    title="Clear all filters"
-                    style={{ fontSize: '0.95rem' }}
-                  >
-                    <IconifyIcon icon="solar:close-circle-bold" width={18} height={18} />
-                  </Button>
-                ) : undefined
+                extra: (
+                  <div className="d-flex gap-2">
+                    <Button
+                      variant="outline-primary"
+                      className="shadow-sm"
+                      onClick={() => setShowExportModal(true)}
+                      disabled={totalCount === 0}
+                      title="Export call records"
+                      style={{ fontSize: '0.95rem' }}
+                    >
+                      <IconifyIcon icon="solar:download-minimalistic-outline" width={18} height={18} className="me-1" />
+                      Export
+                    </Button>
+                    {filtersDirty && (
+                      <Button
+                        variant="outline-secondary"
+                        className="shadow-sm"
+                        onClick={clearFilters}
+                        title="Clear all filters"
+                        style={{ fontSize: '0.95rem' }}
+                      >
+                        <IconifyIcon icon="solar:close-circle-bold" width={18} height={18} />
+                      </Button>
+                    )}
+                  </div>
+                )
               }}
               columnPanel={{
                 enableColumnVisibility: true,
                 enableSticky: true,
-                maxSticky: 4
+                maxSticky: 4,
+                onVisibilityChange: setVisibleColumnKeys
               }}
               emptyState={{
                 title: 'No Call Records Found',
@@ -640,7 +1077,21 @@ const CallRecordsPage = () => {
                 state: { columnKey: sortColumn, direction: sortDirection },
                 onToggle: handleSort
               }}
-              rowKey={(row, index) => row.id ?? `${row['Conversation ID'] ?? 'row'}-${index}`}
+              rowKey={rowKey}
+              selection={{
+                selectedKeys,
+                onChange: setSelectedKeys,
+                bulkActions: (
+                  <>
+                    <Button size="sm" variant="primary" onClick={() => handleBulkReadState(true)} disabled={updatingReadState}>
+                      Mark as read
+                    </Button>
+                    <Button size="sm" variant="outline-primary" onClick={() => handleBulkReadState(false)} disabled={updatingReadState}>
+                      Mark as unread
+                    </Button>
+                  </>
+                )
+              }}
               tableContainerStyle={{
                 maxHeight: 'calc(100vh - 350px)',
                 overflowY: 'auto',
@@ -649,7 +1100,7 @@ const CallRecordsPage = () => {
               pagination={{
                 currentPage,
                 pageSize,
-                totalRecords: totalRecordsDisplay,
+                totalRecords: totalCount,
                 startRecord,
                 endRecord,
                 hasMore,
@@ -663,126 +1114,16 @@ const CallRecordsPage = () => {
         </Row>
       )}
 
-                      <Modal show={showDetailModal} onHide={() => setShowDetailModal(false)} size="lg" scrollable>
-                        <ModalHeader closeButton>
-                          <ModalTitle>Call Record Details</ModalTitle>
-                        </ModalHeader>
-                        <ModalBody>
-                          {selectedSummary && (
-                            <div>
-                              <Row className="mb-3">
-                                <Col md={6}>
-                                  <h6 className="text-muted mb-1">Caller Information</h6>
-                                  <p className="mb-1"><strong>Name:</strong> {selectedSummary['Caller Name'] || 'N/A'}</p>
-                                  <p className="mb-1"><strong>Email:</strong> {selectedSummary['Caller Email'] || 'N/A'}</p>
-                                  <p className="mb-1"><strong>Phone:</strong> {selectedSummary['Caller Number'] || 'N/A'}</p>
-                                  <p className="mb-0"><strong>Caller ID:</strong> {selectedSummary['Caller ID'] || 'N/A'}</p>
-                                </Col>
-                                <Col md={6}>
-                                  <h6 className="text-muted mb-1">Call Details</h6>
-                                  <p className="mb-1">
-                                    <strong>Start Time:</strong> {selectedSummary['Call timing'] || selectedSummary['Call Timing'] || 'N/A'}
-                                  </p>
-                                  {selectedSummary['End Call timing'] && (
-                                    <p className="mb-1">
-                                      <strong>End Time:</strong> {selectedSummary['End Call timing']}
-                                    </p>
-                                  )}
-                                  <p className="mb-1">
-                                    <strong>Duration:</strong> {selectedSummary['Duration'] || 'N/A'}
-                                  </p>
-                                  <p className="mb-1"><strong>Call Success:</strong> {selectedSummary['Call Success'] || 'N/A'}</p>
-                                  <p className="mb-1"><strong>Conversation ID:</strong> {selectedSummary['Conversation ID'] || 'N/A'}</p>
-                                  <p className="mb-0"><strong>Store Number:</strong> {selectedSummary['Store Number'] || 'N/A'}</p>
-                                </Col>
-                              </Row>
-
-                              <hr />
-
-                              <Row className="mb-3">
-                                <Col xs={12}>
-                                  <h6 className="text-muted mb-2">Status</h6>
-                                  <div className="d-flex gap-2 mb-2">
-                                    <Badge bg={selectedSummary['View_Status'] ? 'success' : 'warning'}>
-                                      {selectedSummary['View_Status'] ? 'Read' : 'Unread'}
-                                    </Badge>
-                                    {selectedSummary['Action_flag'] && (
-                                      <Badge bg={selectedSummary['Action_status'] === 'Done' ? 'success' : 'danger'}>
-                                        Action: {selectedSummary['Action_status'] || 'Pending'}
-                                      </Badge>
-                                    )}
-                                    {selectedSummary['Urgency'] && (
-                                      <Badge bg="danger">Urgent</Badge>
-                                    )}
-                                  </div>
-                                </Col>
-                              </Row>
-
-                              {selectedSummary['Brief Summary'] && (
-                                <>
-                                  <h6 className="text-muted mb-2">Brief Summary</h6>
-                                  <p className="mb-3">{selectedSummary['Brief Summary']}</p>
-                                </>
-                              )}
-
-                              {selectedSummary['Detailed Summary'] && (
-                                <>
-                                  <h6 className="text-muted mb-2">Detailed Summary</h6>
-                                  <p className="mb-3">{selectedSummary['Detailed Summary']}</p>
-                                </>
-                              )}
-
-                              {selectedSummary['Questions asked during call'] && selectedSummary['Questions asked during call'].length > 0 && (
-                                <>
-                                  <h6 className="text-muted mb-2">Questions Asked During Call</h6>
-                                  <ul className="mb-3">
-                                    {selectedSummary['Questions asked during call'].map((q, idx) => (
-                                      <li key={idx}>{q}</li>
-                                    ))}
-                                  </ul>
-                                </>
-                              )}
-
-                              {selectedSummary['Action Items'] && selectedSummary['Action Items'].length > 0 && (
-                                <>
-                                  <h6 className="text-muted mb-2">Action Items</h6>
-                                  <ul className="mb-3">
-                                    {selectedSummary['Action Items'].map((item, idx) => (
-                                      <li key={idx}>{item}</li>
-                                    ))}
-                                  </ul>
-                                </>
-                              )}
-
-                              {selectedSummary['Incident_Report'] && (
-                                <>
-                                  <h6 className="text-muted mb-2">Incident Report</h6>
-                                  <p className="mb-3">{selectedSummary['Incident_Report']}</p>
-                                </>
-                              )}
-
-                              {selectedSummary['Recording Link'] && (
-                                <div className="mt-3">
-                                  <a
-                                    href={selectedSummary['Recording Link']}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="btn btn-primary"
-                                  >
-                                    <IconifyIcon icon="solar:play-outline" width={20} height={20} className="me-2" />
-                                    Play Recording
-                                  </a>
-                                </div>
-                              )}
-                            </div>
-                          )}
-                        </ModalBody>
-                        <ModalFooter>
-                          <Button variant="secondary" onClick={() => setShowDetailModal(false)}>
-                            Close
-                          </Button>
-                        </ModalFooter>
-                      </Modal>
+      <CallSummaryModal summary={selectedSummary} show={showDetailModal} onHide={() => setShowDetailModal(false)} />
+
+      <ExportCallRecordsModal
+        show={showExportModal}
+        onHide={() => setShowExportModal(false)}
+        query={summaryQuery}
+        queryDescription={exportQueryDescription}
+        visibleColumnKeys={visibleColumnKeys}
+        agentNames={agentNames}
+      />
 
       <Footer />
     </>
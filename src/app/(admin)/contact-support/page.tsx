@@ -0,0 +1,319 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Alert, Badge, Button, Card, CardBody, CardHeader, CardTitle, Col, Form, Row, Spinner } from 'react-bootstrap'
+import Link from 'next/link'
+import { toast } from 'react-toastify'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useTimezone } from '@/context/useTimezoneContext'
+import { formatDateTime } from '@/helpers/billing'
+import useQueryParams from '@/hooks/useQueryParams'
+import { mapFieldErrors } from '@/lib/api-error'
+import { supportApi } from '@/lib/support-api'
+import type { SupportTicketCategory, SupportTicketOut, SupportTicketPriority, SupportTicketStatus } from '@/types/support'
+
+type SupportFormState = {
+  subject: string
+  category: SupportTicketCategory
+  priority: SupportTicketPriority
+  description: string
+  conversationId: string
+}
+
+const supportFieldMap: Record<string, keyof SupportFormState> = {
+  subject: 'subject',
+  category: 'category',
+  priority: 'priority',
+  description: 'description',
+  conversation_id: 'conversationId'
+}
+
+const CATEGORY_OPTIONS: { value: SupportTicketCategory; label: string }[] = [
+  { value: 'agent', label: 'My agent' },
+  { value: 'call-records', label: 'Call records' },
+  { value: 'billing', label: 'Billing' },
+  { value: 'account', label: 'Account & sign-in' },
+  { value: 'other', label: 'Something else' }
+]
+
+const PRIORITY_OPTIONS: { value: SupportTicketPriority; label: string }[] = [
+  { value: 'low', label: 'Low - general question' },
+  { value: 'normal', label: 'Normal - something isn\'t working right' },
+  { value: 'high', label: 'High - my agent can\'t take calls' }
+]
+
+const STATUS_VARIANTS: Record<SupportTicketStatus, string> = {
+  open: 'primary',
+  pending: 'warning',
+  resolved: 'success',
+  closed: 'secondary'
+}
+
+const SUBJECT_MAX_LENGTH = 150
+const DESCRIPTION_MIN_LENGTH = 20
+
+const ContactSupportPage = () => {
+  // Call details link here with the conversation already filled in
+  const { conversation_id: conversationParam = '' } = useQueryParams()
+  const { timezone } = useTimezone()
+
+  const initialForm: SupportFormState = {
+    subject: '',
+    category: conversationParam ? 'call-records' : 'agent',
+    priority: 'normal',
+    description: '',
+    conversationId: conversationParam
+  }
+
+  const [form, setForm] = useState<SupportFormState>(initialForm)
+  const [formErrors, setFormErrors] = useState<Partial<Record<keyof SupportFormState, string>>>({})
+  const [submitting, setSubmitting] = useState(false)
+  const [createdTicket, setCreatedTicket] = useState<SupportTicketOut | null>(null)
+
+  const [tickets, setTickets] = useState<SupportTicketOut[]>([])
+  const [ticketsLoading, setTicketsLoading] = useState(true)
+  const [ticketsError, setTicketsError] = useState<string | null>(null)
+
+  const loadTickets = useCallback(async () => {
+    setTicketsLoading(true)
+    setTicketsError(null)
+    try {
+      const response = await supportApi.listTickets()
+      if (response.error || !response.data) {
+        setTicketsError(response.error || 'Failed to load your requests')
+        return
+      }
+      setTickets(response.data)
+    } catch (error) {
+      setTicketsError(error instanceof Error ? error.message : 'Failed to load your requests')
+    } finally {
+      setTicketsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTickets()
+  }, [loadTickets])
+
+  const handleChange =
+    (field: keyof SupportFormState) => (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+      setForm((prev) => ({ ...prev, [field]: event.target.value }))
+      setFormErrors((prev) => ({ ...prev, [field]: undefined }))
+    }
+
+  const validateForm = () => {
+    const errors: Partial<Record<keyof SupportFormState, string>> = {}
+    const subject = form.subject.trim()
+    if (!subject) {
+      errors.subject = 'Subject is required'
+    } else if (subject.length > SUBJECT_MAX_LENGTH) {
+      errors.subject = `Keep the subject under ${SUBJECT_MAX_LENGTH} characters`
+    }
+    if (form.description.trim().length < DESCRIPTION_MIN_LENGTH) {
+      errors.description = `Describe the problem in at least ${DESCRIPTION_MIN_LENGTH} characters`
+    }
+    setFormErrors(errors)
+    return Object.keys(errors).length === 0
+  }
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!validateForm()) return
+
+    setSubmitting(true)
+    try {
+      const response = await supportApi.createTicket({
+        subject: form.subject.trim(),
+        category: form.category,
+        priority: form.priority,
+        description: form.description.trim(),
+        conversation_id: form.conversationId.trim() || undefined
+      })
+      if (response.error || !response.data) {
+        const serverErrors = mapFieldErrors(response.apiError, supportFieldMap)
+        if (Object.keys(serverErrors).length > 0) {
+          setFormErrors(serverErrors)
+        } else {
+          toast.error(response.error || 'Unable to send your request')
+        }
+        return
+      }
+
+      const ticket = response.data
+      setCreatedTicket(ticket)
+      setTickets((prev) => [ticket, ...prev.filter((existing) => existing.id !== ticket.id)])
+      setForm({ ...initialForm, conversationId: '' })
+      toast.success('Support request sent')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to send your request')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const getCategoryLabel = (category: SupportTicketCategory) =>
+    CATEGORY_OPTIONS.find((option) => option.value === category)?.label ?? category
+
+  return (
+    <>
+      <Row>
+        <Col xs={12}>
+          <div className="page-title-box">
+            <h4 className="mb-0">Contact Support</h4>
+            <ol className="breadcrumb mb-0">
+              <li className="breadcrumb-item">
+                <Link href="/">Taplox</Link>
+              </li>
+              <div className="mx-1" style={{ height: 24, paddingRight: '8px' }}>
+                <IconifyIcon icon="bx:chevron-right" height={16} width={16} />
+              </div>
+              <li className="breadcrumb-item active">Contact Support</li>
+            </ol>
+          </div>
+        </Col>
+      </Row>
+
+      <Row className="mt-4 g-4">
+        <Col lg={7}>
+          <Card>
+            <CardHeader>
+              <CardTitle as="h5">New Request</CardTitle>
+              <p className="text-muted mb-0">
+                Check the <Link href="/faqs">FAQs</Link> for quick answers, or tell us what you need and we&apos;ll follow up by email.
+              </p>
+            </CardHeader>
+            <CardBody>
+              {createdTicket && (
+                <Alert variant="success" dismissible onClose={() => setCreatedTicket(null)}>
+                  Thanks, we received your request. Your reference is <strong>#{createdTicket.id}</strong>.
+                </Alert>
+              )}
+              <Form onSubmit={handleSubmit} noValidate>
+                <Row className="g-3">
+                  <Col xs={12}>
+                    <Form.Group controlId="support-subject">
+                      <Form.Label>Subject</Form.Label>
+                      <Form.Control
+                        value={form.subject}
+                        onChange={handleChange('subject')}
+                        maxLength={SUBJECT_MAX_LENGTH}
+                        placeholder="Short summary of the problem"
+                        isInvalid={!!formErrors.subject}
+                      />
+                      <Form.Control.Feedback type="invalid">{formErrors.subject}</Form.Control.Feedback>
+                    </Form.Group>
+                  </Col>
+                  <Col md={6}>
+                    <Form.Group controlId="support-category">
+                      <Form.Label>Category</Form.Label>
+                      <Form.Select value={form.category} onChange={handleChange('category')} isInvalid={!!formErrors.category}>
+                        {CATEGORY_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </Form.Select>
+                      <Form.Control.Feedback type="invalid">{formErrors.category}</Form.Control.Feedback>
+                    </Form.Group>
+                  </Col>
+                  <Col md={6}>
+                    <Form.Group controlId="support-priority">
+                      <Form.Label>Priority</Form.Label>
+                      <Form.Select value={form.priority} onChange={handleChange('priority')} isInvalid={!!formErrors.priority}>
+                        {PRIORITY_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </Form.Select>
+                      <Form.Control.Feedback type="invalid">{formErrors.priority}</Form.Control.Feedback>
+                    </Form.Group>
+                  </Col>
+                  <Col xs={12}>
+                    <Form.Group controlId="support-description">
+                      <Form.Label>Description</Form.Label>
+                      <Form.Control
+                        as="textarea"
+                        rows={6}
+                        value={form.description}
+                        onChange={handleChange('description')}
+                        placeholder="What happened, when, and what you expected instead"
+                        isInvalid={!!formErrors.description}
+                      />
+                      <Form.Control.Feedback type="invalid">{formErrors.description}</Form.Control.Feedback>
+                    </Form.Group>
+                  </Col>
+                  <Col xs={12}>
+                    <Form.Group controlId="support-conversation">
+                      <Form.Label>Conversation ID</Form.Label>
+                      <Form.Control
+                        value={form.conversationId}
+                        onChange={handleChange('conversationId')}
+                        placeholder="Optional"
+                        isInvalid={!!formErrors.conversationId}
+                      />
+                      <Form.Control.Feedback type="invalid">{formErrors.conversationId}</Form.Control.Feedback>
+                      <Form.Text className="text-muted">If this is about a specific call, copy its ID from the call details.</Form.Text>
+                    </Form.Group>
+                  </Col>
+                  <Col xs={12} className="d-flex justify-content-end">
+                    <Button type="submit" variant="primary" disabled={submitting} className="d-inline-flex align-items-center gap-2">
+                      {submitting && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+                      Send request
+                    </Button>
+                  </Col>
+                </Row>
+              </Form>
+            </CardBody>
+          </Card>
+        </Col>
+
+        <Col lg={5}>
+          <Card>
+            <CardHeader className="d-flex justify-content-between align-items-center">
+              <CardTitle as="h5" className="mb-0">
+                Your Requests
+              </CardTitle>
+              <Button variant="link" size="sm" className="p-0" onClick={loadTickets} disabled={ticketsLoading}>
+                Refresh
+              </Button>
+            </CardHeader>
+            <CardBody>
+              {ticketsLoading ? (
+                <div className="text-center py-4">
+                  <Spinner animation="border" size="sm" variant="primary" />
+                </div>
+              ) : ticketsError ? (
+                <Alert variant="danger" className="mb-0">
+                  {ticketsError}
+                </Alert>
+              ) : tickets.length === 0 ? (
+                <p className="text-muted mb-0">You haven&apos;t sent any requests yet.</p>
+              ) : (
+                <ul className="list-unstyled mb-0">
+                  {tickets.map((ticket) => (
+                    <li key={ticket.id} className="border-bottom py-2">
+                      <div className="d-flex justify-content-between gap-2">
+                        <span className="fw-medium text-truncate" title={ticket.subject}>
+                          {ticket.subject}
+                        </span>
+                        <Badge bg={STATUS_VARIANTS[ticket.status] ?? 'secondary'} className="text-capitalize align-self-start">
+                          {ticket.status}
+                        </Badge>
+                      </div>
+                      <small className="text-muted">
+                        #{ticket.id} · {getCategoryLabel(ticket.category)} · {formatDateTime(ticket.created_at, { timeZone: timezone })}
+                      </small>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardBody>
+          </Card>
+        </Col>
+      </Row>
+    </>
+  )
+}
+
+export default ContactSupportPage
@@ -3,12 +3,17 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react'
 import { Badge, Button, Col, Form, Modal, Row } from 'react-bootstrap'
 import { toast } from 'react-toastify'
+import AuditHistoryLink from '@/components/AuditHistoryLink'
 import { DataTable } from '@/components/table'
 import type { DataTableColumn, DataTableFilterControl } from '@/components/table'
 import IconifyIcon from '@/components/wrapper/IconifyIcon'
 import { useAuth } from '@/context/useAuthContext'
+import { useTimezone } from '@/context/useTimezoneContext'
+import usePermission from '@/hooks/usePermission'
 import { couponApi } from '@/lib/coupon-api'
 import { subscriptionApi } from '@/lib/subscription-api'
+import { mapFieldErrors } from '@/lib/api-error'
+import type { ApiError } from '@/types/api'
 import type {
   Coupon,
   CouponPayload,
@@ -54,6 +59,14 @@ const DEFAULT_COUPON_FORM: CouponFormState = {
   notes: ''
 }
 
+// Backend payload fields that have an inline error slot in the form
+const couponFieldMap: Record<string, keyof CouponFormState> = {
+  code: 'code',
+  name: 'name',
+  discountValue: 'discountValue',
+  endDate: 'endDate'
+}
+
 const now = new Date()
 const nextMonth = new Date(now)
 nextMonth.setMonth(now.getMonth() + 1)
@@ -121,8 +134,15 @@ const couponStatusOptions: { label: string; value: CouponStatus }[] = [
 ]
 
 const CouponManagementPage = () => {
-  const { token, user, isAuthenticated } = useAuth()
-  const isAdmin = Boolean(isAuthenticated && user?.role === 'admin')
+  const { isAuthenticated } = useAuth()
+  const { timezone } = useTimezone()
+  const canReadCoupons = usePermission('coupons:read')
+  const canWriteCoupons = usePermission('coupons:write')
+  const canDeleteCoupons = usePermission('coupons:delete')
+  const canReadAuditLog = usePermission('audit-log:read')
+  const canReadBilling = usePermission('billing:read')
+  const canViewCoupons = isAuthenticated && canReadCoupons
+  const canManageCoupons = isAuthenticated && canWriteCoupons
 
   const [coupons, setCoupons] = useState<Coupon[]>(DEMO_COUPONS)
   const [plans, setPlans] = useState<SubscriptionPlan[]>([])
@@ -162,11 +182,11 @@ const CouponManagementPage = () => {
   }, [debouncedSearch, statusFilter, discountFilter, planFilter])
 
   const fetchCoupons = useCallback(async () => {
-    if (!token || !isAdmin) return
+    if (!canViewCoupons) return
     setLoading(true)
     setError(null)
     try {
-      const response = await couponApi.listCoupons(token)
+      const response = await couponApi.listCoupons()
       if (response.error) {
         setError(response.error)
         return
@@ -182,13 +202,13 @@ const CouponManagementPage = () => {
     } finally {
       setLoading(false)
     }
-  }, [isAdmin, token])
+  }, [canViewCoupons])
 
   const fetchPlans = useCallback(async () => {
-    if (!token || !isAdmin) return
+    if (!isAuthenticated || !canReadBilling) return
     setPlanLoading(true)
     try {
-      const response = await subscriptionApi.listPlans(token)
+      const response = await subscriptionApi.listPlans()
       if (!response.error) {
         const payload = Array.isArray(response.data) ? response.data : response.data?.items ?? []
         if (payload && payload.length) {
@@ -198,7 +218,7 @@ const CouponManagementPage = () => {
     } finally {
       setPlanLoading(false)
     }
-  }, [isAdmin, token])
+  }, [isAuthenticated, canReadBilling])
 
   useEffect(() => {
     fetchPlans()
@@ -319,11 +339,20 @@ const CouponManagementPage = () => {
     return Object.keys(nextErrors).length === 0
   }
 
+  // Returns true when the backend rejection could be shown next to the form fields
+  const applyServerErrors = (apiError?: ApiError) => {
+    const serverErrors = mapFieldErrors(apiError, couponFieldMap)
+    if (Object.keys(serverErrors).length === 0) return false
+    setFormErrors((prev) => ({ ...prev, ...serverErrors }))
+    toast.error('Please fix the highlighted fields.')
+    return true
+  }
+
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault()
     if (!validateForm()) return
-    if (!token || !isAdmin) {
-      toast.error('You need admin access to manage coupons.')
+    if (!canManageCoupons) {
+      toast.error('You do not have permission to manage coupons.')
       return
     }
 
@@ -346,8 +375,11 @@ const CouponManagementPage = () => {
     setSubmitting(true)
     try {
       if (formMode === 'create') {
-        const response = await couponApi.createCoupon(token, payload)
-        if (response.error) throw new Error(response.error)
+        const response = await couponApi.createCoupon(payload)
+        if (response.error) {
+          if (applyServerErrors(response.apiError)) return
+          throw new Error(response.error)
+        }
         if (response.data) {
           setCoupons((prev) => [response.data as Coupon, ...prev])
         } else {
@@ -355,8 +387,11 @@ const CouponManagementPage = () => {
         }
         toast.success('Coupon created.')
       } else if (activeCoupon) {
-        const response = await couponApi.updateCoupon(token, activeCoupon.id, payload)
-        if (response.error) throw new Error(response.error)
+        const response = await couponApi.updateCoupon(activeCoupon.id, payload)
+        if (response.error) {
+          if (applyServerErrors(response.apiError)) return
+          throw new Error(response.error)
+        }
         if (response.data) {
           setCoupons((prev) => prev.map((coupon) => (coupon.id === response.data!.id ? response.data! : coupon)))
         } else {
@@ -373,10 +408,14 @@ const CouponManagementPage = () => {
   }
 
   const handleDelete = async () => {
-    if (!token || !deleteTarget) return
+    if (!deleteTarget) return
+    if (!isAuthenticated || !canDeleteCoupons) {
+      toast.error('You do not have permission to delete coupons.')
+      return
+    }
     setDeleteLoading(true)
     try {
-      const response = await couponApi.deleteCoupon(token, deleteTarget.id)
+      const response = await couponApi.deleteCoupon(deleteTarget.id)
       if (response.error) throw new Error(response.error)
       setCoupons((prev) => prev.filter((coupon) => coupon.id !== deleteTarget.id))
       toast.success('Coupon deleted.')
@@ -478,7 +517,7 @@ const CouponManagementPage = () => {
         key: 'window',
         header: 'Schedule',
         width: 220,
-        render: (coupon) => formatDateRange(coupon.startDate, coupon.endDate)
+        render: (coupon) => formatDateRange(coupon.startDate, coupon.endDate, timezone)
       },
       {
         key: 'usage',
@@ -512,19 +551,27 @@ const CouponManagementPage = () => {
         width: 170,
         align: 'right',
         sticky: 'right',
-        render: (coupon) => (
-          <div className="d-flex justify-content-end gap-2">
-            <Button size="sm" variant="outline-primary" onClick={() => openEditModal(coupon)}>
-              <IconifyIcon icon="solar:pen-linear" width={16} height={16} />
-            </Button>
-            <Button size="sm" variant="outline-danger" onClick={() => confirmDelete(coupon)}>
-              <IconifyIcon icon="solar:trash-bin-trash-linear" width={16} height={16} />
-            </Button>
-          </div>
-        )
+        render: (coupon) =>
+          canManageCoupons || canDeleteCoupons || canReadAuditLog ? (
+            <div className="d-flex justify-content-end gap-2">
+              {canManageCoupons && (
+                <Button size="sm" variant="outline-primary" onClick={() => openEditModal(coupon)}>
+                  <IconifyIcon icon="solar:pen-linear" width={16} height={16} />
+                </Button>
+              )}
+              {canDeleteCoupons && (
+                <Button size="sm" variant="outline-danger" onClick={() => confirmDelete(coupon)}>
+                  <IconifyIcon icon="solar:trash-bin-trash-linear" width={16} height={16} />
+                </Button>
+              )}
+              <AuditHistoryLink entityType="coupon" entityId={coupon.id} />
+            </div>
+          ) : (
+            <span className="text-muted">—</span>
+          )
       }
     ],
-    [planLookup, openEditModal, confirmDelete]
+    [planLookup, canManageCoupons, canDeleteCoupons, canReadAuditLog, openEditModal, confirmDelete, timezone]
   )
 
   return (
@@ -549,12 +596,12 @@ const CouponManagementPage = () => {
             placeholder: 'Search coupons or codes...'
           },
           filters: toolbarFilters,
-          extra: (
+          extra: canManageCoupons ? (
             <Button variant='primary' onClick={openCreateModal} className='d-inline-flex align-items-center gap-2'>
               <IconifyIcon icon='solar:add-circle-bold' width={18} height={18} />
               New coupon
             </Button>
-          )
+          ) : undefined
         }}
         pagination={{
           currentPage,
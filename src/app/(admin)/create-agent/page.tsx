@@ -7,7 +7,9 @@ import { useRouter } from 'next/navigation'
 import { toast } from 'react-toastify'
 import IconifyIcon from '@/components/wrapper/IconifyIcon'
 import { useAuth } from '@/context/useAuthContext'
+import usePermission from '@/hooks/usePermission'
 import { adminAgentApi } from '@/lib/admin-agent-api'
+import { mapFieldErrors } from '@/lib/api-error'
 import VoiceSelector from '@/components/VoiceSelector'
 import TagsInput from '@/components/TagsInput'
 import type {
@@ -60,8 +62,26 @@ const initialFormState: AgentFormState = {
   turnEagerness: ''
 }
 
+// Backend payload paths -> form fields, used to highlight server-side validation errors
+const agentFieldMap: Record<string, keyof AgentFormState> = {
+  name: 'name',
+  'conversation_config.agent.language': 'language',
+  'conversation_config.agent.first_message': 'firstMessage',
+  'conversation_config.agent.prompt.prompt': 'prompt',
+  'conversation_config.agent.prompt.llm': 'llm',
+  'conversation_config.agent.prompt.temperature': 'temperature',
+  'conversation_config.agent.prompt.max_tokens': 'maxTokens',
+  'conversation_config.tts.voice_id': 'voiceId',
+  'conversation_config.tts.model_id': 'ttsModelId',
+  'conversation_config.tts.stability': 'stability',
+  'conversation_config.tts.speed': 'speed',
+  'conversation_config.tts.similarity_boost': 'similarityBoost',
+  'conversation_config.turn.turn_eagerness': 'turnEagerness'
+}
+
 const CreateAgentPage = () => {
-  const { token, isAuthenticated, user, isLoading } = useAuth()
+  const { isAuthenticated, isLoading } = useAuth()
+  const canWriteAgents = usePermission('agents:write')
   const router = useRouter()
   const [formData, setFormData] = useState<AgentFormState>(initialFormState)
   const [formErrors, setFormErrors] = useState<Record<string, string>>({})
@@ -115,7 +135,7 @@ const CreateAgentPage = () => {
 
   const handleCreateAgent = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault()
-    if (!token || !isAuthenticated || user?.role !== 'admin') {
+    if (!isAuthenticated || !canWriteAgents) {
       toast.error('You are not authorized to create agents')
       return
     }
@@ -179,9 +199,15 @@ const CreateAgentPage = () => {
         tags: tags.length > 0 ? tags : undefined
       }
 
-      const response = await adminAgentApi.createAgent(token, payload)
+      const response = await adminAgentApi.createAgent(payload)
       if (response.error) {
-        toast.error(response.error)
+        const serverErrors = mapFieldErrors(response.apiError, agentFieldMap)
+        if (Object.keys(serverErrors).length > 0) {
+          setFormErrors((prev) => ({ ...prev, ...serverErrors }))
+          toast.error('Please fix the highlighted fields')
+        } else {
+          toast.error(response.error)
+        }
       } else {
         toast.success('Agent created successfully')
         setFormData(initialFormState)
@@ -209,20 +235,6 @@ const CreateAgentPage = () => {
     )
   }
 
-  if (user && user.role !== 'admin') {
-    return (
-      <Row className="py-5">
-        <Col xs={12}>
-          <div className="text-center">
-            <IconifyIcon icon="solar:shield-cross-outline" width={48} height={48} className="text-danger mb-3" />
-            <h4 className="mb-2">Access restricted</h4>
-            <p className="text-muted mb-0">Only admins can manage agents.</p>
-          </div>
-        </Col>
-      </Row>
-    )
-  }
-
   return (
     <>
       <Row>
@@ -264,8 +276,10 @@ const CreateAgentPage = () => {
                       <Form.Control
                         value={formData.name}
                         onChange={handleInputChange('name')}
+                        isInvalid={!!formErrors.name}
                         placeholder="Sales Concierge"
                       />
+                      <Form.Control.Feedback type="invalid">{formErrors.name}</Form.Control.Feedback>
                       <Form.Text className="text-muted">Optional: Name for the agent</Form.Text>
                     </Form.Group>
                   </Col>
@@ -290,6 +304,7 @@ const CreateAgentPage = () => {
                       <Form.Select
                         value={formData.language}
                         onChange={handleInputChange('language')}
+                        isInvalid={!!formErrors.language}
                       >
                         <option value="">Select language (optional)</option>
                         {languageOptions.map((lang) => (
@@ -298,6 +313,7 @@ const CreateAgentPage = () => {
                           </option>
                         ))}
                       </Form.Select>
+                      <Form.Control.Feedback type="invalid">{formErrors.language}</Form.Control.Feedback>
                       <Form.Text className="text-muted">Primary language code</Form.Text>
                     </Form.Group>
                   </Col>
@@ -307,8 +323,10 @@ const CreateAgentPage = () => {
                       <Form.Control
                         value={formData.firstMessage}
                         onChange={handleInputChange('firstMessage')}
+                        isInvalid={!!formErrors.firstMessage}
                         placeholder="Hello! How can I help you today?"
                       />
+                      <Form.Control.Feedback type="invalid">{formErrors.firstMessage}</Form.Control.Feedback>
                       <Form.Text className="text-muted">Optional: Initial greeting message</Form.Text>
                     </Form.Group>
                   </Col>
@@ -333,6 +351,7 @@ const CreateAgentPage = () => {
                       <Form.Select
                         value={formData.llm}
                         onChange={handleInputChange('llm')}
+                        isInvalid={!!formErrors.llm}
                       >
                         <option value="">Select LLM model (optional)</option>
                         {llmModelOptions.map((model) => (
@@ -341,6 +360,7 @@ const CreateAgentPage = () => {
                           </option>
                         ))}
                       </Form.Select>
+                      <Form.Control.Feedback type="invalid">{formErrors.llm}</Form.Control.Feedback>
                       <Form.Text className="text-muted">Optional: LLM model identifier</Form.Text>
                     </Form.Group>
                   </Col>
@@ -354,8 +374,10 @@ const CreateAgentPage = () => {
                         max="2"
                         value={formData.temperature}
                         onChange={handleInputChange('temperature')}
+                        isInvalid={!!formErrors.temperature}
                         placeholder="0.7"
                       />
+                      <Form.Control.Feedback type="invalid">{formErrors.temperature}</Form.Control.Feedback>
                       <Form.Text className="text-muted">Optional: 0-2, controls randomness</Form.Text>
                     </Form.Group>
                   </Col>
@@ -366,8 +388,10 @@ const CreateAgentPage = () => {
                         type="number"
                         value={formData.maxTokens}
                         onChange={handleInputChange('maxTokens')}
+                        isInvalid={!!formErrors.maxTokens}
                         placeholder="1000"
                       />
+                      <Form.Control.Feedback type="invalid">{formErrors.maxTokens}</Form.Control.Feedback>
                       <Form.Text className="text-muted">Optional: Maximum response length</Form.Text>
                     </Form.Group>
                   </Col>
@@ -384,7 +408,6 @@ const CreateAgentPage = () => {
                           setFormData((prev) => ({ ...prev, voiceId }))
                           setFormErrors((prev) => ({ ...prev, voiceId: '' }))
                         }}
-                        token={token}
                         isInvalid={!!formErrors.voiceId}
                         errorMessage={formErrors.voiceId}
                       />
@@ -396,12 +419,14 @@ const CreateAgentPage = () => {
                       <Form.Select
                         value={formData.ttsModelId}
                         onChange={handleInputChange('ttsModelId')}
+                        isInvalid={!!formErrors.ttsModelId}
                       >
                         <option value="">Select TTS Model (Optional)</option>
                         <option value="eleven_turbo_v2">Eleven Turbo v2</option>
                         <option value="eleven_flash_v2">Eleven Flash v2</option>
                         <option value="eleven_multilingual_v2">Eleven Multilingual v2</option>
                       </Form.Select>
+                      <Form.Control.Feedback type="invalid">{formErrors.ttsModelId}</Form.Control.Feedback>
                       <Form.Text className="text-muted">Optional: TTS model selection</Form.Text>
                     </Form.Group>
                   </Col>
@@ -415,8 +440,10 @@ const CreateAgentPage = () => {
                         max="1"
                         value={formData.stability}
                         onChange={handleInputChange('stability')}
+                        isInvalid={!!formErrors.stability}
                         placeholder="0.5"
                       />
+                      <Form.Control.Feedback type="invalid">{formErrors.stability}</Form.Control.Feedback>
                       <Form.Text className="text-muted">Optional: 0-1, voice stability</Form.Text>
                     </Form.Group>
                   </Col>
@@ -430,8 +457,10 @@ const CreateAgentPage = () => {
                         max="4"
                         value={formData.speed}
                         onChange={handleInputChange('speed')}
+                        isInvalid={!!formErrors.speed}
                         placeholder="1.0"
                       />
+                      <Form.Control.Feedback type="invalid">{formErrors.speed}</Form.Control.Feedback>
                       <Form.Text className="text-muted">Optional: 0.25-4, speech speed</Form.Text>
                     </Form.Group>
                   </Col>
@@ -445,8 +474,10 @@ const CreateAgentPage = () => {
                         max="1"
                         value={formData.similarityBoost}
                         onChange={handleInputChange('similarityBoost')}
+                        isInvalid={!!formErrors.similarityBoost}
                         placeholder="0.75"
                       />
+                      <Form.Control.Feedback type="invalid">{formErrors.similarityBoost}</Form.Control.Feedback>
                       <Form.Text className="text-muted">Optional: 0-1, voice similarity</Form.Text>
                     </Form.Group>
                   </Col>
@@ -458,7 +489,7 @@ const CreateAgentPage = () => {
               <Col md={12}>
                 <Form.Group>
                   <Form.Label>Turn Eagerness</Form.Label>
-                  <Form.Select value={formData.turnEagerness} onChange={handleInputChange('turnEagerness')}>
+                  <Form.Select value={formData.turnEagerness} onChange={handleInputChange('turnEagerness')} isInvalid={!!formErrors.turnEagerness}>
                     <option value="">Select eagerness</option>
                     {turnEagernessOptions.map((option) => (
                       <option key={option} value={option}>
@@ -466,6 +497,7 @@ const CreateAgentPage = () => {
                       </option>
                     ))}
                   </Form.Select>
+                  <Form.Control.Feedback type="invalid">{formErrors.turnEagerness}</Form.Control.Feedback>
                   <Form.Text className="text-muted">
                     Defaults: Turn timeout (5s), Initial wait time (3s), Silence end timeout (15s)
                   </Form.Text>
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { FormEvent, useCallback, useEffect, useMemo, useState } from 'react'
+import React, { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Badge, Button, Col, Form, Modal, Row, Spinner } from 'react-bootstrap'
 import Link from 'next/link'
 import { toast } from 'react-toastify'
@@ -8,6 +8,7 @@ import { DataTable } from '@/components/table'
 import type { DataTableColumn, DataTableFilterControl } from '@/components/table'
 import IconifyIcon from '@/components/wrapper/IconifyIcon'
 import { useAuth } from '@/context/useAuthContext'
+import usePermission from '@/hooks/usePermission'
 import { knowledgeBaseApi } from '@/lib/knowledge-base-api'
 import { adminAgentApi } from '@/lib/admin-agent-api'
 import type { KnowledgeBaseDependentAgent, KnowledgeBaseDocument } from '@/types/knowledge-base'
@@ -42,7 +43,10 @@ const getStatusVariant = (status?: string) => {
 const DEFAULT_PAGE_SIZE = 10
 
 const DocumentsPage = () => {
-  const { token, user, isAuthenticated, isLoading } = useAuth()
+  const { isAuthenticated, isLoading } = useAuth()
+  const canReadDocuments = usePermission('documents:read')
+  const canWriteDocuments = usePermission('documents:write')
+  const canDeleteDocuments = usePermission('documents:delete')
 
   const [documents, setDocuments] = useState<KnowledgeBaseDocument[]>([])
   const [loading, setLoading] = useState(false)
@@ -72,6 +76,7 @@ const DocumentsPage = () => {
   const [attachSubmitting, setAttachSubmitting] = useState(false)
 
   const [deleteLoadingId, setDeleteLoadingId] = useState<string | null>(null)
+  const fetchAbortRef = useRef<AbortController | null>(null)
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -87,21 +92,31 @@ const DocumentsPage = () => {
   }, [typeFilter, pageSize])
 
   const fetchDocuments = useCallback(async () => {
-    if (!token || !isAuthenticated || user?.role !== 'admin') {
+    if (!isAuthenticated || !canReadDocuments) {
       setDocuments([])
       setLoading(false)
       return
     }
 
+    // Cancel any in-flight request so a stale search can't overwrite newer results
+    fetchAbortRef.current?.abort()
+    const controller = new AbortController()
+    fetchAbortRef.current = controller
+
     setLoading(true)
     setError(null)
 
     try {
-      const response = await knowledgeBaseApi.listDocuments(token, {
-        page_size: 100,
-        search: debouncedSearch || undefined,
-        types: typeFilter !== 'all' && typeFilter ? [typeFilter] : undefined
-      })
+      const response = await knowledgeBaseApi.listDocuments(
+        {
+          page_size: 100,
+          search: debouncedSearch || undefined,
+          types: typeFilter !== 'all' && typeFilter ? [typeFilter] : undefined
+        },
+        { signal: controller.signal }
+      )
+
+      if (response.aborted) return
 
       if (response.error || !response.data) {
         setError(response.error || 'Failed to fetch documents.')
@@ -115,19 +130,22 @@ const DocumentsPage = () => {
       setError(err instanceof Error ? err.message : 'Failed to fetch documents.')
       setDocuments([])
     } finally {
-      setLoading(false)
+      if (!controller.signal.aborted) {
+        setLoading(false)
+      }
     }
-  }, [token, isAuthenticated, user?.role, debouncedSearch, typeFilter])
+  }, [isAuthenticated, canReadDocuments, debouncedSearch, typeFilter])
 
   const fetchAgents = useCallback(async () => {
-    if (!token || !isAuthenticated || user?.role !== 'admin') {
+    // Agents are only listed to attach documents to
+    if (!isAuthenticated || !canWriteDocuments) {
       setAvailableAgents([])
       return
     }
 
     setAgentsLoading(true)
     try {
-      const response = await adminAgentApi.getAllAgents(token, { skip: 0, limit: 100 })
+      const response = await adminAgentApi.getAllAgents({ skip: 0, limit: 100 })
       if (response.error || !response.data) {
         toast.error(response.error || 'Unable to load agents for attachment.')
         setAvailableAgents([])
@@ -143,12 +161,18 @@ const DocumentsPage = () => {
     } finally {
       setAgentsLoading(false)
     }
-  }, [token, isAuthenticated, user?.role])
+  }, [isAuthenticated, canWriteDocuments])
 
   useEffect(() => {
     fetchDocuments()
   }, [fetchDocuments])
 
+  useEffect(() => {
+    return () => {
+      fetchAbortRef.current?.abort()
+    }
+  }, [])
+
   useEffect(() => {
     fetchAgents()
   }, [fetchAgents])
@@ -222,8 +246,8 @@ const DocumentsPage = () => {
     setCurrentPage(1)
   }
 
-  const ensureAdminAccess = () => {
-    if (!token || !isAuthenticated || user?.role !== 'admin') {
+  const ensureAccess = (isAllowed: boolean) => {
+    if (!isAuthenticated || !isAllowed) {
       toast.error('You are not authorized to manage documents.')
       return false
     }
@@ -231,7 +255,7 @@ const DocumentsPage = () => {
   }
 
   const handleViewRow = async (doc: KnowledgeBaseDocument) => {
-    if (!ensureAdminAccess()) return
+    if (!ensureAccess(canReadDocuments)) return
     const docId = getDocumentIdentifier(doc)
     if (!docId) {
       toast.error('Document identifier is missing.')
@@ -246,8 +270,8 @@ const DocumentsPage = () => {
 
     try {
       const [detailsResponse, dependentsResponse] = await Promise.all([
-        knowledgeBaseApi.getDocument(token, docId),
-        knowledgeBaseApi.getDependentAgents(token, docId)
+        knowledgeBaseApi.getDocument(docId),
+        knowledgeBaseApi.getDependentAgents(docId)
       ])
 
       if (detailsResponse.error) {
@@ -269,7 +293,7 @@ const DocumentsPage = () => {
   }
 
   const handleAttachPrompt = (doc: KnowledgeBaseDocument) => {
-    if (!ensureAdminAccess()) return
+    if (!ensureAccess(canWriteDocuments)) return
     setSelectedDocument(doc)
     setAttachAgentId('')
     setAttachModalOpen(true)
@@ -277,7 +301,7 @@ const DocumentsPage = () => {
 
   const handleAttachSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault()
-    if (!ensureAdminAccess()) return
+    if (!ensureAccess(canWriteDocuments)) return
 
     const docId = getDocumentIdentifier(selectedDocument)
     if (!docId) {
@@ -291,7 +315,7 @@ const DocumentsPage = () => {
 
     setAttachSubmitting(true)
     try {
-      const response = await knowledgeBaseApi.attachDocumentToAgent(token as string, attachAgentId, {
+      const response = await knowledgeBaseApi.attachDocumentToAgent(attachAgentId, {
         document_ids: [docId],
         usage_mode: 'auto'
       })
@@ -312,7 +336,7 @@ const DocumentsPage = () => {
   }
 
   const handleDeletePrompt = (doc: KnowledgeBaseDocument) => {
-    if (!ensureAdminAccess()) return
+    if (!ensureAccess(canDeleteDocuments)) return
     setSelectedDocument(doc)
     setDeleteModalOpen(true)
   }
@@ -398,28 +422,41 @@ const DocumentsPage = () => {
               >
                 {isViewing ? <Spinner animation="border" size="sm" /> : <IconifyIcon icon="solar:eye-outline" width={16} height={16} />}
               </Button>
-              <Button size="sm" variant="outline-primary" title="Attach to agent" onClick={() => handleAttachPrompt(row)}>
-                <IconifyIcon icon="solar:link-circle-outline" width={16} height={16} />
-              </Button>
-              <Button
-                size="sm"
-                variant="outline-danger"
-                title="Delete document"
-                onClick={() => handleDeletePrompt(row)}
-                disabled={isDeleting}
-              >
-                {isDeleting ? (
-                  <Spinner animation="border" size="sm" />
-                ) : (
-                  <IconifyIcon icon="solar:trash-bin-minimalistic-outline" width={16} height={16} />
-                )}
-              </Button>
+              {canWriteDocuments && (
+                <Button size="sm" variant="outline-primary" title="Attach to agent" onClick={() => handleAttachPrompt(row)}>
+                  <IconifyIcon icon="solar:link-circle-outline" width={16} height={16} />
+                </Button>
+              )}
+              {canDeleteDocuments && (
+                <Button
+                  size="sm"
+                  variant="outline-danger"
+                  title="Delete document"
+                  onClick={() => handleDeletePrompt(row)}
+                  disabled={isDeleting}
+                >
+                  {isDeleting ? (
+                    <Spinner animation="border" size="sm" />
+                  ) : (
+                    <IconifyIcon icon="solar:trash-bin-minimalistic-outline" width={16} height={16} />
+                  )}
+                </Button>
+              )}
             </div>
           )
         }
       }
     ],
-    [startIndex, viewLoadingId, deleteLoadingId, handleViewRow, handleAttachPrompt, handleDeletePrompt]
+    [
+      startIndex,
+      viewLoadingId,
+      deleteLoadingId,
+      canWriteDocuments,
+      canDeleteDocuments,
+      handleViewRow,
+      handleAttachPrompt,
+      handleDeletePrompt
+    ]
   )
 
   const tableMinWidth = useMemo(
@@ -432,7 +469,7 @@ const DocumentsPage = () => {
   )
 
   const handleConfirmDelete = async () => {
-    if (!ensureAdminAccess()) return
+    if (!ensureAccess(canDeleteDocuments)) return
     const docId = getDocumentIdentifier(selectedDocument)
     if (!docId) {
       toast.error('Document identifier is missing.')
@@ -441,7 +478,7 @@ const DocumentsPage = () => {
 
     setDeleteLoadingId(docId)
     try {
-      const response = await knowledgeBaseApi.deleteDocument(token as string, docId)
+      const response = await knowledgeBaseApi.deleteDocument(docId)
       if (response.error) {
         toast.error(response.error)
         return
@@ -469,20 +506,6 @@ const DocumentsPage = () => {
     )
   }
 
-  if (user && user.role !== 'admin') {
-    return (
-      <Row className="py-5">
-        <Col xs={12}>
-          <div className="text-center">
-            <IconifyIcon icon="solar:shield-cross-outline" width={48} height={48} className="text-danger mb-3" />
-            <h4 className="mb-2">Access restricted</h4>
-            <p className="text-muted mb-0">Only admins can manage documents.</p>
-          </div>
-        </Col>
-      </Row>
-    )
-  }
-
   return (
     <>
       <Row>
@@ -0,0 +1,104 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { Accordion, AccordionBody, AccordionHeader, AccordionItem, Card, CardBody, Col, Form, InputGroup, Row } from 'react-bootstrap'
+import Link from 'next/link'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { faqsData } from '@/assets/data/faqs'
+import type { FaqType } from '@/types/data'
+
+const FaqsPage = () => {
+  const [searchQuery, setSearchQuery] = useState('')
+
+  const groupedFaqs = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    const matches = query
+      ? faqsData.filter((faq) => `${faq.question} ${faq.answer}`.toLowerCase().includes(query))
+      : faqsData
+
+    return matches.reduce<Partial<Record<FaqType['category'], FaqType[]>>>((groups, faq) => {
+      groups[faq.category] = [...(groups[faq.category] ?? []), faq]
+      return groups
+    }, {})
+  }, [searchQuery])
+
+  const categories = Object.keys(groupedFaqs) as FaqType['category'][]
+
+  return (
+    <>
+      <Row>
+        <Col xs={12}>
+          <div className="page-title-box">
+            <h4 className="mb-0">FAQs</h4>
+            <ol className="breadcrumb mb-0">
+              <li className="breadcrumb-item">
+                <Link href="/">Taplox</Link>
+              </li>
+              <div className="mx-1" style={{ height: 24, paddingRight: '8px' }}>
+                <IconifyIcon icon="bx:chevron-right" height={16} width={16} />
+              </div>
+              <li className="breadcrumb-item active">FAQs</li>
+            </ol>
+          </div>
+        </Col>
+      </Row>
+
+      <Row className="mt-4 justify-content-center">
+        <Col xl={9}>
+          <InputGroup className="mb-4">
+            <InputGroup.Text>
+              <IconifyIcon icon="solar:magnifer-outline" width={18} height={18} />
+            </InputGroup.Text>
+            <Form.Control
+              value={searchQuery}
+              onChange={(event) => setSearchQuery(event.target.value)}
+              placeholder="Search questions..."
+              aria-label="Search questions"
+            />
+          </InputGroup>
+
+          {categories.length === 0 ? (
+            <Card>
+              <CardBody className="text-center py-5">
+                <h5>No matching questions</h5>
+                <p className="text-muted mb-0">Try a different search, or ask us directly below.</p>
+              </CardBody>
+            </Card>
+          ) : (
+            categories.map((category) => (
+              <Card key={category}>
+                <CardBody>
+                  <h5 className="mb-3">{category}</h5>
+                  <Accordion flush>
+                    {groupedFaqs[category]?.map((faq) => (
+                      <AccordionItem eventKey={faq.id} key={faq.id}>
+                        <AccordionHeader>
+                          <div className="fw-medium">{faq.question}</div>
+                        </AccordionHeader>
+                        <AccordionBody className="text-muted">{faq.answer}</AccordionBody>
+                      </AccordionItem>
+                    ))}
+                  </Accordion>
+                </CardBody>
+              </Card>
+            ))
+          )}
+
+          <Card className="bg-light-subtle">
+            <CardBody className="d-flex flex-wrap align-items-center justify-content-between gap-3">
+              <div>
+                <h5 className="mb-1">Still need help?</h5>
+                <p className="text-muted mb-0">Send us a request and our team will get back to you.</p>
+              </div>
+              <Link href="/contact-support" className="btn btn-primary">
+                Contact Support
+              </Link>
+            </CardBody>
+          </Card>
+        </Col>
+      </Row>
+    </>
+  )
+}
+
+export default FaqsPage
@@ -0,0 +1,283 @@
+'use client'
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Badge, Button, Col, Row } from 'react-bootstrap'
+import Link from 'next/link'
+import CallSummaryModal from '@/components/CallSummaryModal'
+import { DataTable } from '@/components/table'
+import type { DataTableColumn, DataTableFilterControl } from '@/components/table'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useAuth } from '@/context/useAuthContext'
+import { useTimezone } from '@/context/useTimezoneContext'
+import { formatCallDate, isUrgentSummary } from '@/helpers/summary'
+import { summaryApi } from '@/lib/summary-api'
+import type { CallSummary, SummarySort } from '@/types/summary'
+
+const IncidentReportPage = () => {
+  const { isAuthenticated } = useAuth()
+  const { timezone } = useTimezone()
+  const [incidents, setIncidents] = useState<CallSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [sort, setSort] = useState<SummarySort>('newest')
+  const [showFilters, setShowFilters] = useState(true)
+
+  const [currentPage, setCurrentPage] = useState(1)
+  const [pageSize, setPageSize] = useState(10)
+  const [totalCount, setTotalCount] = useState(0)
+
+  const [selectedIncident, setSelectedIncident] = useState<CallSummary | null>(null)
+  const fetchAbortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchQuery.trim())
+      setCurrentPage(1)
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  const fetchIncidents = useCallback(async () => {
+    if (!isAuthenticated) {
+      setLoading(false)
+      return
+    }
+
+    // Cancel any in-flight request so a stale search can't overwrite newer results
+    fetchAbortRef.current?.abort()
+    const controller = new AbortController()
+    fetchAbortRef.current = controller
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await summaryApi.getUserSummaries(
+        {
+          skip: (currentPage - 1) * pageSize,
+          limit: pageSize,
+          search: debouncedSearch || undefined,
+          filter: 'incidents',
+          sort
+        },
+        { signal: controller.signal }
+      )
+
+      if (response.aborted) return
+
+      if (response.error || !response.data) {
+        setError(response.error || 'Failed to load incident reports')
+        setIncidents([])
+        setTotalCount(0)
+        return
+      }
+
+      setIncidents(response.data.summaries)
+      setTotalCount(response.data.total)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load incident reports')
+      setIncidents([])
+      setTotalCount(0)
+    } finally {
+      if (!controller.signal.aborted) {
+        setLoading(false)
+      }
+    }
+  }, [isAuthenticated, currentPage, pageSize, debouncedSearch, sort])
+
+  useEffect(() => {
+    fetchIncidents()
+  }, [fetchIncidents])
+
+  useEffect(() => {
+    return () => fetchAbortRef.current?.abort()
+  }, [])
+
+  const columns: DataTableColumn<CallSummary>[] = [
+    {
+      key: 'callTime',
+      header: 'Reported',
+      minWidth: 190,
+      render: (row) => <span className="text-nowrap">{formatCallDate(row.callStart, timezone)}</span>
+    },
+    {
+      key: 'caller',
+      header: 'Caller',
+      minWidth: 180,
+      render: (row) => (
+        <div>
+          <div className="fw-medium">{row.callerName || <span className="text-muted fst-italic">N/A</span>}</div>
+          {row.callerNumber && <small className="text-muted">{row.callerNumber}</small>}
+        </div>
+      )
+    },
+    {
+      key: 'store',
+      header: 'Store',
+      minWidth: 100,
+      render: (row) => row.storeNumber || <span className="text-muted fst-italic">N/A</span>
+    },
+    {
+      key: 'incident',
+      header: 'Incident',
+      minWidth: 320,
+      render: (row) => (
+        <div className="text-truncate" style={{ maxWidth: '420px' }} title={row.incidentReport || ''}>
+          {row.incidentReport}
+        </div>
+      )
+    },
+    {
+      key: 'urgency',
+      header: 'Urgency',
+      align: 'center',
+      minWidth: 100,
+      render: (row) =>
+        isUrgentSummary(row) ? (
+          <Badge bg="danger" className="px-2 py-1">
+            Urgent
+          </Badge>
+        ) : (
+          <Badge bg="secondary" className="px-2 py-1">
+            Normal
+          </Badge>
+        )
+    },
+    {
+      key: 'actions',
+      header: 'Actions',
+      align: 'center',
+      minWidth: 120,
+      sticky: 'right',
+      render: (row) => (
+        <div className="d-flex gap-2 justify-content-center">
+          <Button variant="primary" size="sm" onClick={() => setSelectedIncident(row)} title="View Details">
+            <IconifyIcon icon="solar:eye-outline" width={16} height={16} />
+          </Button>
+          {row.recordingLink && (
+            <Button
+              variant="success"
+              size="sm"
+              as="a"
+              href={row.recordingLink}
+              target="_blank"
+              rel="noopener noreferrer"
+              title="Play Recording"
+            >
+              <IconifyIcon icon="solar:play-outline" width={16} height={16} />
+            </Button>
+          )}
+        </div>
+      )
+    }
+  ]
+
+  const filters: DataTableFilterControl[] = [
+    {
+      id: 'sort',
+      label: 'Sort',
+      type: 'select',
+      value: sort === 'newest' ? '' : sort,
+      onChange: (value: string) => {
+        setSort((value || 'newest') as SummarySort)
+        setCurrentPage(1)
+      },
+      options: [
+        { label: 'Newest First', value: '' },
+        { label: 'Oldest First', value: 'oldest' }
+      ]
+    }
+  ]
+
+  if (!isAuthenticated) {
+    return (
+      <Row>
+        <Col xs={12}>
+          <div className="text-center py-5">
+            <p>Please sign in to view incident reports.</p>
+            <Link href="/auth/sign-in">
+              <Button variant="primary">Sign In</Button>
+            </Link>
+          </div>
+        </Col>
+      </Row>
+    )
+  }
+
+  return (
+    <>
+      <Row>
+        <Col xs={12}>
+          <div className="page-title-box">
+            <h4 className="mb-0">Incident Report</h4>
+            <ol className="breadcrumb mb-0">
+              <li className="breadcrumb-item">
+                <Link href="/">Taplox</Link>
+              </li>
+              <div className="mx-1" style={{ height: 24, paddingRight: '8px' }}>
+                <IconifyIcon icon="bx:chevron-right" height={16} width={16} />
+              </div>
+              <li className="breadcrumb-item active">Incident Report</li>
+            </ol>
+          </div>
+        </Col>
+      </Row>
+
+      <Row className="mt-4">
+        <Col xs={12}>
+          <DataTable
+            id="incident-report-table"
+            title="Incident Reports"
+            description="Incidents your agent reported during calls"
+            columns={columns}
+            data={incidents}
+            rowKey={(row, index) => row.id ?? `${row.conversationId ?? 'incident'}-${index}`}
+            loading={loading}
+            error={error}
+            onRetry={fetchIncidents}
+            minTableWidth={1100}
+            toolbar={{
+              showFilters,
+              onToggleFilters: () => setShowFilters((prev) => !prev),
+              search: {
+                value: searchQuery,
+                placeholder: 'Search by caller, store or incident...',
+                onChange: setSearchQuery,
+                onClear: () => setSearchQuery('')
+              },
+              filters
+            }}
+            emptyState={{
+              title: 'No incidents reported',
+              description: debouncedSearch
+                ? 'Try adjusting your search to see results.'
+                : 'Calls where your agent files an incident report will appear here.'
+            }}
+            pagination={{
+              currentPage,
+              pageSize,
+              totalRecords: totalCount,
+              onPageChange: setCurrentPage,
+              onPageSizeChange: (size: number) => {
+                setPageSize(size)
+                setCurrentPage(1)
+              },
+              startRecord: incidents.length > 0 ? (currentPage - 1) * pageSize + 1 : 0,
+              endRecord: (currentPage - 1) * pageSize + incidents.length,
+              totalPages: Math.max(1, Math.ceil(totalCount / pageSize)),
+              isLastPage: currentPage * pageSize >= totalCount,
+              hasMore: currentPage * pageSize < totalCount
+            }}
+          />
+        </Col>
+      </Row>
+
+      <CallSummaryModal summary={selectedIncident} show={!!selectedIncident} onHide={() => setSelectedIncident(null)} />
+    </>
+  )
+}
+
+export default IncidentReportPage
@@ -2,16 +2,22 @@
 import Footer from '@/components/layout/Footer'
 import { ChildrenType } from '@/types/component-props'
 import dynamic from 'next/dynamic'
+import { usePathname } from 'next/navigation'
 import { Suspense } from 'react'
 import { Container } from 'react-bootstrap'
+import { getRequiredPermission } from '@/helpers/route-access'
 import AuthGuard from '@/lib/auth-guard'
+import ImpersonationBanner from '@/components/ImpersonationBanner'
 
 const TopNavigationBar = dynamic(() => import('@/components/layout/TopNavigationBar/page'))
 const VerticalNavigationBar = dynamic(() => import('@/components/layout/VerticalNavigationBar/page'))
 
 const AdminLayout = ({ children }: ChildrenType) => {
+  // Same route permissions as the middleware, checked again as the role can change client-side
+  const pathname = usePathname()
+
   return (
-    <AuthGuard signInPath="/auth/admin/sign-in">
+    <AuthGuard signInPath="/auth/admin/sign-in" requirePermission={getRequiredPermission(pathname)}>
       <div className="wrapper">
         <Suspense>
           <TopNavigationBar />
@@ -22,6 +28,7 @@ const AdminLayout = ({ children }: ChildrenType) => {
           <Footer />
         </div>
       </div>
+      <ImpersonationBanner />
     </AuthGuard>
   )
 }
@@ -3,12 +3,17 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react'
 import { Badge, Button, Col, Form, Modal, Row, InputGroup } from 'react-bootstrap'
 import { toast } from 'react-toastify'
+import AuditHistoryLink from '@/components/AuditHistoryLink'
 import { DataTable } from '@/components/table'
 import type { DataTableColumn, DataTableFilterControl } from '@/components/table'
 import IconifyIcon from '@/components/wrapper/IconifyIcon'
 import TagsInput from '@/components/TagsInput'
 import { useAuth } from '@/context/useAuthContext'
+import { useTimezone } from '@/context/useTimezoneContext'
+import usePermission from '@/hooks/usePermission'
 import { subscriptionApi } from '@/lib/subscription-api'
+import { mapFieldErrors } from '@/lib/api-error'
+import type { ApiError } from '@/types/api'
 import {
   type BillingFrequency,
   type SubscriptionPlan,
@@ -42,6 +47,13 @@ const DEFAULT_FORM_STATE: PlanFormState = {
   trialDays: '14'
 }
 
+// Backend payload fields that have an inline error slot in the form
+const planFieldMap: Record<string, keyof PlanFormState> = {
+  name: 'name',
+  price: 'price',
+  trialDays: 'trialDays'
+}
+
 const now = new Date().toISOString()
 
 const DEMO_PLANS: SubscriptionPlan[] = [
@@ -114,8 +126,13 @@ const statusOptions: { label: string; value: SubscriptionPlanStatus }[] = [
 ]
 
 const SubscriptionPlansPage = () => {
-  const { token, user, isAuthenticated } = useAuth()
-  const isAdmin = Boolean(isAuthenticated && user?.role === 'admin')
+  const { isAuthenticated } = useAuth()
+  const canReadBilling = usePermission('billing:read')
+  const canWriteBilling = usePermission('billing:write')
+  const canReadAuditLog = usePermission('audit-log:read')
+  const { timezone } = useTimezone()
+  const canViewPlans = isAuthenticated && canReadBilling
+  const canManagePlans = isAuthenticated && canWriteBilling
 
   const [plans, setPlans] = useState<SubscriptionPlan[]>(DEMO_PLANS)
   const [loading, setLoading] = useState(false)
@@ -153,12 +170,12 @@ const SubscriptionPlansPage = () => {
   }, [debouncedSearch, tierFilter, statusFilter, billingFilter])
 
   const fetchPlans = useCallback(async () => {
-    if (!token || !isAdmin) return
+    if (!canViewPlans) return
     setLoading(true)
     setError(null)
 
     try {
-      const response = await subscriptionApi.listPlans(token)
+      const response = await subscriptionApi.listPlans()
 
       if (response.error) {
         setError(response.error)
@@ -179,7 +196,7 @@ const SubscriptionPlansPage = () => {
     } finally {
       setLoading(false)
     }
-  }, [isAdmin, token])
+  }, [canViewPlans])
 
   useEffect(() => {
     fetchPlans()
@@ -276,11 +293,20 @@ const SubscriptionPlansPage = () => {
     return Object.keys(nextErrors).length === 0
   }
 
+  // Returns true when the backend rejection could be shown next to the form fields
+  const applyServerErrors = (apiError?: ApiError) => {
+    const serverErrors = mapFieldErrors(apiError, planFieldMap)
+    if (Object.keys(serverErrors).length === 0) return false
+    setFormErrors((prev) => ({ ...prev, ...serverErrors }))
+    toast.error('Please fix the highlighted fields.')
+    return true
+  }
+
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault()
     if (!validateForm()) return
-    if (!token || !isAdmin) {
-      toast.error('You need admin access to modify subscription plans.')
+    if (!canManagePlans) {
+      toast.error('You do not have permission to modify subscription plans.')
       return
     }
 
@@ -328,8 +354,11 @@ const SubscriptionPlansPage = () => {
     setSubmitting(true)
     try {
       if (formMode === 'create') {
-        const response = await subscriptionApi.createPlan(token, payload)
-        if (response.error) throw new Error(response.error)
+        const response = await subscriptionApi.createPlan(payload)
+        if (response.error) {
+          if (applyServerErrors(response.apiError)) return
+          throw new Error(response.error)
+        }
         if (response.data) {
           setPlans((prev) => [response.data as SubscriptionPlan, ...prev])
         } else {
@@ -337,8 +366,11 @@ const SubscriptionPlansPage = () => {
         }
         toast.success('Subscription plan created.')
       } else if (activePlan) {
-        const response = await subscriptionApi.updatePlan(token, activePlan.id, payload)
-        if (response.error) throw new Error(response.error)
+        const response = await subscriptionApi.updatePlan(activePlan.id, payload)
+        if (response.error) {
+          if (applyServerErrors(response.apiError)) return
+          throw new Error(response.error)
+        }
         if (response.data) {
           setPlans((prev) => prev.map((plan) => (plan.id === response.data!.id ? response.data! : plan)))
         } else {
@@ -355,10 +387,14 @@ const SubscriptionPlansPage = () => {
   }
 
   const handleDelete = async () => {
-    if (!token || !deleteTarget) return
+    if (!deleteTarget) return
+    if (!canManagePlans) {
+      toast.error('You do not have permission to delete subscription plans.')
+      return
+    }
     setDeleteLoading(true)
     try {
-      const response = await subscriptionApi.deletePlan(token, deleteTarget.id)
+      const response = await subscriptionApi.deletePlan(deleteTarget.id)
       if (response.error) throw new Error(response.error)
       setPlans((prev) => prev.filter((plan) => plan.id !== deleteTarget.id))
       toast.success('Subscription plan deleted.')
@@ -472,7 +508,7 @@ const SubscriptionPlansPage = () => {
         key: 'updatedAt',
         header: 'Updated',
         width: 200,
-        render: (plan) => formatDateTime(plan.updatedAt || plan.createdAt)
+        render: (plan) => formatDateTime(plan.updatedAt || plan.createdAt, { timeZone: timezone })
       },
       {
         key: 'actions',
@@ -480,19 +516,27 @@ const SubscriptionPlansPage = () => {
         width: 170,
         align: 'right',
         sticky: 'right',
-        render: (plan) => (
-          <div className="d-flex justify-content-end gap-2">
-            <Button size="sm" variant="outline-primary" onClick={() => openEditModal(plan)}>
-              <IconifyIcon icon="solar:pen-linear" width={16} height={16} />
-            </Button>
-            <Button size="sm" variant="outline-danger" onClick={() => confirmDelete(plan)}>
-              <IconifyIcon icon="solar:trash-bin-trash-linear" width={16} height={16} />
-            </Button>
-          </div>
-        )
+        render: (plan) =>
+          canManagePlans || canReadAuditLog ? (
+            <div className="d-flex justify-content-end gap-2">
+              {canManagePlans && (
+                <>
+                  <Button size="sm" variant="outline-primary" onClick={() => openEditModal(plan)}>
+                    <IconifyIcon icon="solar:pen-linear" width={16} height={16} />
+                  </Button>
+                  <Button size="sm" variant="outline-danger" onClick={() => confirmDelete(plan)}>
+                    <IconifyIcon icon="solar:trash-bin-trash-linear" width={16} height={16} />
+                  </Button>
+                </>
+              )}
+              <AuditHistoryLink entityType="plan" entityId={plan.id} />
+            </div>
+          ) : (
+            <span className="text-muted">—</span>
+          )
       }
     ],
-    [openEditModal, confirmDelete]
+    [canManagePlans, canReadAuditLog, openEditModal, confirmDelete, timezone]
   )
 
   return (
@@ -517,12 +561,12 @@ const SubscriptionPlansPage = () => {
             placeholder: 'Search plans or tiers...'
           },
           filters: toolbarFilters,
-          extra: (
+          extra: canManagePlans ? (
             <Button variant="primary" onClick={openCreateModal} className="d-inline-flex align-items-center gap-2">
               <IconifyIcon icon="solar:add-circle-bold" width={18} height={18} />
               Create Plan
             </Button>
-          )
+          ) : undefined
         }}
         pagination={{
           currentPage,
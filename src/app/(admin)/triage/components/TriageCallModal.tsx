@@ -0,0 +1,180 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Badge, Button, Col, Form, Modal, ModalBody, ModalFooter, ModalHeader, ModalTitle, Row } from 'react-bootstrap'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useTimezone } from '@/context/useTimezoneContext'
+import { formatDateTime } from '@/helpers/billing'
+import {
+  getAvailableTriageActions,
+  getTriageStatusOption,
+  TRIAGE_ACTION_LABELS,
+  TRIAGE_ACTION_PAST_TENSE
+} from '@/helpers/triage'
+import type { TriageAction, TriageCallOut } from '@/types/triage'
+
+interface TriageCallModalProps {
+  call: TriageCallOut | null
+  canAct: boolean
+  onHide: () => void
+  // Both resolve true once saved so the note field can be cleared
+  onAction: (call: TriageCallOut, action: TriageAction, note?: string) => Promise<boolean>
+  onAddNote: (call: TriageCallOut, body: string) => Promise<boolean>
+}
+
+const NOTE_MAX_LENGTH = 2000
+
+/**
+ * An urgent call with its notes, where it can be claimed, acknowledged or resolved with a note
+ */
+const TriageCallModal: React.FC<TriageCallModalProps> = ({ call, canAct, onHide, onAction, onAddNote }) => {
+  const [note, setNote] = useState('')
+  const [noteError, setNoteError] = useState<string | null>(null)
+  const [pending, setPending] = useState<TriageAction | 'note' | null>(null)
+  const { timezone } = useTimezone()
+
+  const callId = call?.id
+  useEffect(() => {
+    setNote('')
+    setNoteError(null)
+  }, [callId])
+
+  if (!call) return null
+
+  const status = getTriageStatusOption(call.status)
+  const actions = getAvailableTriageActions(call.status)
+
+  const run = async (action: TriageAction | 'note') => {
+    const trimmed = note.trim()
+    if ((action === 'note' || action === 'resolve') && !trimmed) {
+      setNoteError(action === 'resolve' ? 'Describe how the call was resolved' : 'Write a note first')
+      return
+    }
+
+    setPending(action)
+    try {
+      const saved = action === 'note' ? await onAddNote(call, trimmed) : await onAction(call, action, trimmed || undefined)
+      if (saved) setNote('')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <Modal show onHide={onHide} size="lg" scrollable>
+      <ModalHeader closeButton>
+        <ModalTitle as="h5" className="d-flex align-items-center gap-2">
+          Urgent Call
+          <Badge bg={status.variant}>{status.label}</Badge>
+        </ModalTitle>
+      </ModalHeader>
+      <ModalBody>
+        <Row className="mb-3">
+          <Col md={6}>
+            <h6 className="text-muted mb-1">Caller</h6>
+            <p className="mb-1"><strong>Name:</strong> {call.caller_name || 'N/A'}</p>
+            <p className="mb-1"><strong>Phone:</strong> {call.caller_number || 'N/A'}</p>
+            <p className="mb-0"><strong>Store Number:</strong> {call.store_number || 'N/A'}</p>
+          </Col>
+          <Col md={6}>
+            <h6 className="text-muted mb-1">Triage</h6>
+            <p className="mb-1"><strong>Received:</strong> {formatDateTime(call.received_at, { timeZone: timezone })}</p>
+            {call.claimed_by_name && (
+              <p className="mb-1">
+                <strong>Claimed by:</strong> {call.claimed_by_name}
+                {call.claimed_at && <span className="text-muted"> · {formatDateTime(call.claimed_at, { timeZone: timezone })}</span>}
+              </p>
+            )}
+            {call.acknowledged_at && (
+              <p className="mb-1"><strong>Acknowledged:</strong> {formatDateTime(call.acknowledged_at, { timeZone: timezone })}</p>
+            )}
+          </Col>
+        </Row>
+
+        {call.incident_report && (
+          <>
+            <h6 className="text-muted mb-2">Incident Report</h6>
+            <p className="mb-3">{call.incident_report}</p>
+          </>
+        )}
+        {call.brief_summary && (
+          <>
+            <h6 className="text-muted mb-2">Summary</h6>
+            <p className="mb-3">{call.brief_summary}</p>
+          </>
+        )}
+        {call.recording_link && (
+          <a href={call.recording_link} target="_blank" rel="noopener noreferrer" className="btn btn-sm btn-outline-primary mb-3">
+            <IconifyIcon icon="solar:play-outline" width={16} height={16} className="me-1" />
+            Play Recording
+          </a>
+        )}
+
+        <hr />
+
+        <h6 className="text-muted mb-2">Notes</h6>
+        {call.notes.length === 0 ? (
+          <p className="text-muted small">No notes yet.</p>
+        ) : (
+          <ul className="list-unstyled mb-3">
+            {call.notes.map((entry) => (
+              <li key={entry.id} className="border-start border-2 ps-3 pb-2 mb-2">
+                <div className="small text-muted">
+                  <strong className="text-body">{entry.author_name}</strong>
+                  {entry.action && <> · {TRIAGE_ACTION_PAST_TENSE[entry.action]}</>} · {formatDateTime(entry.created_at, { timeZone: timezone })}
+                </div>
+                <div style={{ whiteSpace: 'pre-wrap' }}>{entry.body}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canAct && (
+          <Form.Group controlId="triage-note">
+            <Form.Label>Note</Form.Label>
+            <Form.Control
+              as="textarea"
+              rows={3}
+              value={note}
+              onChange={(event) => {
+                setNote(event.target.value)
+                setNoteError(null)
+              }}
+              maxLength={NOTE_MAX_LENGTH}
+              placeholder="Who you spoke to, what was done, next steps..."
+              isInvalid={!!noteError}
+            />
+            <Form.Control.Feedback type="invalid">{noteError}</Form.Control.Feedback>
+            <Form.Text className="text-muted">Added to the call with the action you choose, or on its own.</Form.Text>
+          </Form.Group>
+        )}
+      </ModalBody>
+      <ModalFooter>
+        {canAct && (
+          <>
+            <Button variant="outline-secondary" className="me-auto" onClick={() => run('note')} disabled={!!pending}>
+              {pending === 'note' && <span className="spinner-border spinner-border-sm me-1" role="status" aria-hidden="true" />}
+              Add note
+            </Button>
+            {actions.map((action) => (
+              <Button
+                key={action}
+                variant={action === 'resolve' ? 'success' : 'primary'}
+                onClick={() => run(action)}
+                disabled={!!pending}
+              >
+                {pending === action && <span className="spinner-border spinner-border-sm me-1" role="status" aria-hidden="true" />}
+                {TRIAGE_ACTION_LABELS[action]}
+              </Button>
+            ))}
+          </>
+        )}
+        <Button variant="secondary" onClick={onHide}>
+          Close
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
+
+export default TriageCallModal
@@ -0,0 +1,416 @@
+'use client'
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Badge, Button, Col, Form, Row } from 'react-bootstrap'
+import Link from 'next/link'
+import { toast } from 'react-toastify'
+import { DataTable } from '@/components/table'
+import type { DataTableColumn, DataTableFilterControl } from '@/components/table'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useAuth } from '@/context/useAuthContext'
+import { useTimezone } from '@/context/useTimezoneContext'
+import { useTriage } from '@/context/useTriageContext'
+import { formatDateTime } from '@/helpers/billing'
+import {
+  formatDuration,
+  formatResponseWindow,
+  getAvailableTriageActions,
+  getSlaState,
+  getTriageStatusOption,
+  RESPONSE_WINDOW_OPTIONS,
+  TRIAGE_STATUS_OPTIONS
+} from '@/helpers/triage'
+import useNow from '@/hooks/useNow'
+import usePermission from '@/hooks/usePermission'
+import { triageApi } from '@/lib/triage-api'
+import type { TriageAction, TriageCallOut, TriageQueryParams } from '@/types/triage'
+import TriageCallModal from './components/TriageCallModal'
+
+type OpenStatus = NonNullable<TriageQueryParams['status']>
+
+const DEFAULT_RESPONSE_WINDOW_MINUTES = 30
+
+const TriagePage = () => {
+  const { isAuthenticated } = useAuth()
+  const { refreshCounts } = useTriage()
+  const { timezone } = useTimezone()
+  const canAct = usePermission('triage:write')
+  const now = useNow(30 * 1000)
+
+  const [calls, setCalls] = useState<TriageCallOut[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [statusFilter, setStatusFilter] = useState<OpenStatus | ''>('')
+  const [showFilters, setShowFilters] = useState(true)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [pageSize, setPageSize] = useState(25)
+  const [totalCount, setTotalCount] = useState(0)
+
+  const [responseWindow, setResponseWindow] = useState(DEFAULT_RESPONSE_WINDOW_MINUTES)
+  const [savingWindow, setSavingWindow] = useState(false)
+
+  const [selectedCallId, setSelectedCallId] = useState<string | null>(null)
+  const [pendingCallId, setPendingCallId] = useState<string | null>(null)
+  const fetchAbortRef = useRef<AbortController | null>(null)
+
+  const selectedCall = calls.find((call) => call.id === selectedCallId) ?? null
+
+  const fetchQueue = useCallback(async () => {
+    if (!isAuthenticated) {
+      setLoading(false)
+      return
+    }
+
+    fetchAbortRef.current?.abort()
+    const controller = new AbortController()
+    fetchAbortRef.current = controller
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await triageApi.listQueue(
+        {
+          skip: (currentPage - 1) * pageSize,
+          limit: pageSize,
+          status: statusFilter || undefined
+        },
+        { signal: controller.signal }
+      )
+
+      if (response.aborted) return
+
+      if (response.error || !response.data) {
+        setError(response.error || 'Failed to load the triage queue')
+        setCalls([])
+        setTotalCount(0)
+        return
+      }
+
+      setCalls(response.data.items)
+      setTotalCount(response.data.total)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the triage queue')
+      setCalls([])
+      setTotalCount(0)
+    } finally {
+      if (!controller.signal.aborted) {
+        setLoading(false)
+      }
+    }
+  }, [isAuthenticated, currentPage, pageSize, statusFilter])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  useEffect(() => {
+    return () => fetchAbortRef.current?.abort()
+  }, [])
+
+  useEffect(() => {
+    if (!isAuthenticated) return
+    triageApi.getSettings().then((response) => {
+      if (response.data) setResponseWindow(response.data.response_window_minutes)
+    })
+  }, [isAuthenticated])
+
+  const handleResponseWindowChange = async (minutes: number) => {
+    const previous = responseWindow
+    setResponseWindow(minutes)
+    setSavingWindow(true)
+    try {
+      const response = await triageApi.updateSettings({ response_window_minutes: minutes })
+      if (response.error || !response.data) {
+        setResponseWindow(previous)
+        toast.error(response.error || 'Unable to update the response window')
+        return
+      }
+      setResponseWindow(response.data.response_window_minutes)
+      // Overdue counts depend on the window
+      refreshCounts()
+    } finally {
+      setSavingWindow(false)
+    }
+  }
+
+  const handleAction = async (call: TriageCallOut, action: TriageAction, note?: string) => {
+    setPendingCallId(call.id)
+    try {
+      const response = await triageApi.performAction(call.id, action, { note })
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Unable to update the call')
+        return false
+      }
+
+      const updated = response.data
+      if (updated.status === 'resolved') {
+        setCalls((prev) => prev.filter((item) => item.id !== updated.id))
+        setTotalCount((prev) => Math.max(0, prev - 1))
+        setSelectedCallId(null)
+        toast.success('Call resolved')
+      } else {
+        setCalls((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
+      }
+      refreshCounts()
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to update the call')
+      return false
+    } finally {
+      setPendingCallId(null)
+    }
+  }
+
+  const handleAddNote = async (call: TriageCallOut, body: string) => {
+    const response = await triageApi.addNote(call.id, body)
+    if (response.error || !response.data) {
+      toast.error(response.error || 'Unable to add the note')
+      return false
+    }
+    const note = response.data
+    setCalls((prev) => prev.map((item) => (item.id === call.id ? { ...item, notes: [...item.notes, note] } : item)))
+    return true
+  }
+
+  const columns: DataTableColumn<TriageCallOut>[] = [
+    {
+      key: 'sla',
+      header: 'Waiting',
+      minWidth: 150,
+      render: (row) => {
+        const sla = getSlaState(row.received_at, responseWindow, now)
+        if (sla.breached) {
+          return (
+            <Badge bg="danger" className="px-2 py-1" title={`Past the ${formatResponseWindow(responseWindow)} response window`}>
+              <IconifyIcon icon="solar:alarm-outline" width={12} height={12} className="me-1" />
+              {formatDuration(sla.elapsedMs)} · overdue
+            </Badge>
+          )
+        }
+        return (
+          <Badge
+            bg={sla.warning ? 'warning' : 'light'}
+            text={sla.warning ? undefined : 'dark'}
+            className="px-2 py-1"
+            title={`${formatDuration(sla.remainingMs)} left to respond`}
+          >
+            {formatDuration(sla.elapsedMs)}
+          </Badge>
+        )
+      }
+    },
+    {
+      key: 'received',
+      header: 'Received',
+      minWidth: 170,
+      render: (row) => <span className="text-nowrap">{formatDateTime(row.received_at, { timeZone: timezone })}</span>
+    },
+    {
+      key: 'caller',
+      header: 'Caller',
+      minWidth: 180,
+      render: (row) => (
+        <div>
+          <div className="fw-medium">{row.caller_name || <span className="text-muted fst-italic">N/A</span>}</div>
+          {row.caller_number && <small className="text-muted">{row.caller_number}</small>}
+        </div>
+      )
+    },
+    {
+      key: 'summary',
+      header: 'What happened',
+      minWidth: 300,
+      render: (row) => {
+        const text = row.incident_report || row.brief_summary || ''
+        return (
+          <div className="text-truncate" style={{ maxWidth: '380px' }} title={text}>
+            {text || <span className="text-muted fst-italic">No summary</span>}
+          </div>
+        )
+      }
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      minWidth: 160,
+      render: (row) => {
+        const status = getTriageStatusOption(row.status)
+        return (
+          <div>
+            <Badge bg={status.variant} className="px-2 py-1">
+              {status.label}
+            </Badge>
+            {row.claimed_by_name && <div className="small text-muted mt-1">{row.claimed_by_name}</div>}
+          </div>
+        )
+      }
+    },
+    {
+      key: 'actions',
+      header: 'Actions',
+      align: 'center',
+      minWidth: 200,
+      sticky: 'right',
+      render: (row) => {
+        const actions = getAvailableTriageActions(row.status)
+        const pending = pendingCallId === row.id
+        return (
+          <div className="d-flex gap-2 justify-content-center">
+            <Button variant="primary" size="sm" onClick={() => setSelectedCallId(row.id)} title="Open">
+              <IconifyIcon icon="solar:eye-outline" width={16} height={16} />
+            </Button>
+            {canAct && actions.includes('claim') && (
+              <Button variant="outline-info" size="sm" onClick={() => handleAction(row, 'claim')} disabled={pending}>
+                Claim
+              </Button>
+            )}
+            {canAct && actions.includes('acknowledge') && (
+              <Button variant="outline-primary" size="sm" onClick={() => handleAction(row, 'acknowledge')} disabled={pending}>
+                Acknowledge
+              </Button>
+            )}
+            {/* Resolving needs a note, so it happens in the call modal */}
+            {canAct && (
+              <Button variant="outline-success" size="sm" onClick={() => setSelectedCallId(row.id)} disabled={pending} title="Resolve">
+                <IconifyIcon icon="solar:check-circle-outline" width={16} height={16} />
+              </Button>
+            )}
+          </div>
+        )
+      }
+    }
+  ]
+
+  const filters: DataTableFilterControl[] = [
+    {
+      id: 'status',
+      label: 'Status',
+      type: 'select',
+      value: statusFilter,
+      onChange: (value: string) => {
+        setStatusFilter(value as OpenStatus | '')
+        setCurrentPage(1)
+      },
+      options: [
+        { label: 'All unresolved', value: '' },
+        ...TRIAGE_STATUS_OPTIONS.filter((option) => option.value !== 'resolved').map((option) => ({
+          label: option.label,
+          value: option.value
+        }))
+      ]
+    }
+  ]
+
+  if (!isAuthenticated) {
+    return (
+      <Row>
+        <Col xs={12}>
+          <div className="text-center py-5">
+            <p>Please sign in to view urgent calls.</p>
+            <Link href="/auth/sign-in">
+              <Button variant="primary">Sign In</Button>
+            </Link>
+          </div>
+        </Col>
+      </Row>
+    )
+  }
+
+  return (
+    <>
+      <Row>
+        <Col xs={12}>
+          <div className="page-title-box">
+            <h4 className="mb-0">Urgent Triage</h4>
+            <ol className="breadcrumb mb-0">
+              <li className="breadcrumb-item">
+                <Link href="/">Taplox</Link>
+              </li>
+              <div className="mx-1" style={{ height: 24, paddingRight: '8px' }}>
+                <IconifyIcon icon="bx:chevron-right" height={16} width={16} />
+              </div>
+              <li className="breadcrumb-item active">Urgent Triage</li>
+            </ol>
+          </div>
+        </Col>
+      </Row>
+
+      <Row className="mt-4">
+        <Col xs={12}>
+          <DataTable
+            id="triage-table"
+            title="Urgent Calls"
+            description="Unresolved urgent calls, longest waiting first"
+            columns={columns}
+            data={calls}
+            rowKey={(row) => row.id}
+            loading={loading}
+            error={error}
+            onRetry={fetchQueue}
+            minTableWidth={1150}
+            toolbar={{
+              showFilters,
+              onToggleFilters: () => setShowFilters((prev) => !prev),
+              filters,
+              extra: (
+                <div className="d-flex align-items-center gap-2">
+                  <Form.Label htmlFor="triage-response-window" className="mb-0 text-nowrap small text-muted">
+                    Respond within
+                  </Form.Label>
+                  <Form.Select
+                    id="triage-response-window"
+                    size="sm"
+                    value={responseWindow}
+                    onChange={(event) => handleResponseWindowChange(Number(event.target.value))}
+                    disabled={!canAct || savingWindow}
+                    style={{ width: 'auto' }}
+                  >
+                    {/* Keep a window set elsewhere selectable even if it isn't a preset */}
+                    {[...new Set([...RESPONSE_WINDOW_OPTIONS, responseWindow])]
+                      .sort((a, b) => a - b)
+                      .map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                          {formatResponseWindow(minutes)}
+                        </option>
+                      ))}
+                  </Form.Select>
+                </div>
+              )
+            }}
+            emptyState={{
+              title: 'No urgent calls waiting',
+              description: statusFilter ? 'No calls with this status.' : 'Calls your agent marks as urgent will appear here.'
+            }}
+            pagination={{
+              currentPage,
+              pageSize,
+              totalRecords: totalCount,
+              onPageChange: setCurrentPage,
+              onPageSizeChange: (size: number) => {
+                setPageSize(size)
+                setCurrentPage(1)
+              },
+              startRecord: calls.length > 0 ? (currentPage - 1) * pageSize + 1 : 0,
+              endRecord: (currentPage - 1) * pageSize + calls.length,
+              totalPages: Math.max(1, Math.ceil(totalCount / pageSize)),
+              isLastPage: currentPage * pageSize >= totalCount,
+              hasMore: currentPage * pageSize < totalCount
+            }}
+          />
+        </Col>
+      </Row>
+
+      <TriageCallModal
+        call={selectedCall}
+        canAct={canAct}
+        onHide={() => setSelectedCallId(null)}
+        onAction={handleAction}
+        onAddNote={handleAddNote}
+      />
+    </>
+  )
+}
+
+export default TriagePage
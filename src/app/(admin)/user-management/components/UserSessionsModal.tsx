@@ -0,0 +1,121 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Button, Modal, ModalBody, ModalFooter, ModalHeader, ModalTitle } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+import ActiveSessionsList from '@/components/ActiveSessionsList'
+import { adminUserApi } from '@/lib/admin-user-api'
+import type { ActiveSessionOut, UserOut } from '@/types/auth'
+
+interface UserSessionsModalProps {
+  user: UserOut | null
+  canRevoke: boolean
+  onHide: () => void
+}
+
+/**
+ * Another user's signed-in devices, with revocation for admins who can edit users
+ */
+const UserSessionsModal: React.FC<UserSessionsModalProps> = ({ user, canRevoke, onHide }) => {
+  const [sessions, setSessions] = useState<ActiveSessionOut[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [revokingAll, setRevokingAll] = useState(false)
+
+  const userId = user?.id
+
+  const loadSessions = useCallback(async () => {
+    if (!userId) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await adminUserApi.listSessions(userId)
+      if (response.error || !response.data) {
+        setError(response.error || 'Unable to load sessions')
+        return
+      }
+      setSessions(response.data)
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    setSessions([])
+    loadSessions()
+  }, [loadSessions])
+
+  const handleRevoke = async (session: ActiveSessionOut) => {
+    if (!userId) return
+
+    setRevokingId(session.id)
+    try {
+      const response = await adminUserApi.revokeSession(userId, session.id)
+      if (response.error) {
+        toast.error(response.error)
+        return
+      }
+      setSessions((prev) => prev.filter((item) => item.id !== session.id))
+      toast.success('Session revoked')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleRevokeAll = async () => {
+    if (!user) return
+    const confirmed = window.confirm(`Sign ${user.username} out of every device?`)
+    if (!confirmed) return
+
+    setRevokingAll(true)
+    try {
+      const response = await adminUserApi.revokeAllSessions(user.id)
+      if (response.error) {
+        toast.error(response.error)
+        return
+      }
+      setSessions([])
+      toast.success(`${user.username} was signed out everywhere`)
+    } finally {
+      setRevokingAll(false)
+    }
+  }
+
+  return (
+    <Modal show={!!user} onHide={onHide} centered size="lg">
+      <ModalHeader closeButton>
+        <ModalTitle as="h5">Active sessions · {user?.username}</ModalTitle>
+      </ModalHeader>
+      <ModalBody>
+        <ActiveSessionsList
+          sessions={sessions}
+          loading={loading}
+          error={error}
+          onRetry={loadSessions}
+          onRevoke={canRevoke ? handleRevoke : undefined}
+          revokingId={revokingId}
+        />
+      </ModalBody>
+      <ModalFooter>
+        {canRevoke && sessions.length > 0 && (
+          <Button
+            variant="outline-danger"
+            onClick={handleRevokeAll}
+            disabled={revokingAll}
+            className="d-inline-flex align-items-center gap-2 me-auto"
+          >
+            {revokingAll && <span className="spinner-border spinner-border-sm" role="status" aria-hidden="true" />}
+            Sign out everywhere
+          </Button>
+        )}
+        <Button variant="secondary" onClick={onHide}>
+          Close
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
+
+export default UserSessionsModal
@@ -16,15 +16,21 @@ import {
 } from 'react-bootstrap'
 import Link from 'next/link'
 import { toast } from 'react-toastify'
+import AuditHistoryLink from '@/components/AuditHistoryLink'
 import { DataTable } from '@/components/table'
 import type { DataTableColumn, DataTableFilterControl } from '@/components/table'
 import IconifyIcon from '@/components/wrapper/IconifyIcon'
 import { useAuth } from '@/context/useAuthContext'
+import { isStaffRole } from '@/helpers/permissions'
+import usePermission from '@/hooks/usePermission'
 import { adminUserApi } from '@/lib/admin-user-api'
 import { adminAgentApi } from '@/lib/admin-agent-api'
+import { mapFieldErrors } from '@/lib/api-error'
+import type { ApiResponse } from '@/lib/api-client'
 import type { UserOut } from '@/types/auth'
 import type { AdminUserCreatePayload, AdminUserUpdatePayload } from '@/types/admin-user'
 import type { AdminAgent, UnassignedAgent } from '@/types/admin-agent'
+import UserSessionsModal from './components/UserSessionsModal'
 
 type ModalMode = 'create' | 'edit' | 'assign-agent'
 
@@ -36,6 +42,12 @@ const initialFormState: UserFormState = {
   password: ''
 }
 
+const userFieldMap: Record<string, keyof UserFormState> = {
+  username: 'username',
+  email: 'email',
+  password: 'password'
+}
+
 const normalizeAgentItems = (payload: unknown): AdminAgent[] => {
   if (!payload) return []
   if (Array.isArray(payload)) return payload as AdminAgent[]
@@ -59,7 +71,13 @@ const normalizeUnassignedAgents = (payload: unknown): UnassignedAgent[] => {
 }
 
 const UserManagementPage = () => {
-  const { token, user, isAuthenticated, isLoading } = useAuth()
+  const { user, isAuthenticated, isLoading, startImpersonation } = useAuth()
+  const canReadUsers = usePermission('users:read')
+  const canWriteUsers = usePermission('users:write')
+  const canDeleteUsers = usePermission('users:delete')
+  const canImpersonate = usePermission('users:impersonate')
+  const canResetTwoFactor = usePermission('users:reset-two-factor')
+  const canReadAgents = usePermission('agents:read')
   const [users, setUsers] = useState<UserOut[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -81,6 +99,9 @@ const UserManagementPage = () => {
   const [blockLoadingId, setBlockLoadingId] = useState<string | null>(null)
   const [deleteLoadingId, setDeleteLoadingId] = useState<string | null>(null)
   const [agentLoadingId, setAgentLoadingId] = useState<string | null>(null)
+  const [impersonateLoadingId, setImpersonateLoadingId] = useState<string | null>(null)
+  const [resetTwoFactorLoadingId, setResetTwoFactorLoadingId] = useState<string | null>(null)
+  const [sessionsUser, setSessionsUser] = useState<UserOut | null>(null)
   const [editingUserId, setEditingUserId] = useState<string | null>(null)
   const [agentAssignmentUserId, setAgentAssignmentUserId] = useState<string | null>(null)
   const [agentIdInput, setAgentIdInput] = useState('')
@@ -99,7 +120,7 @@ const UserManagementPage = () => {
   }, [debouncedSearch, statusFilter, pageSize])
 
   const fetchUsers = useCallback(async () => {
-    if (!token || !isAuthenticated || user?.role !== 'admin') {
+    if (!isAuthenticated || !canReadUsers) {
       setUsers([])
       setTotalRecords(0)
       return
@@ -109,7 +130,7 @@ const UserManagementPage = () => {
     setError(null)
 
     try {
-      const response = await adminUserApi.listUsers(token, {
+      const response = await adminUserApi.listUsers({
         skip: (currentPage - 1) * pageSize,
         limit: pageSize,
         search: debouncedSearch || undefined,
@@ -141,7 +162,7 @@ const UserManagementPage = () => {
     } finally {
       setLoading(false)
     }
-  }, [token, isAuthenticated, user?.role, currentPage, pageSize, debouncedSearch, statusFilter])
+  }, [isAuthenticated, canReadUsers, currentPage, pageSize, debouncedSearch, statusFilter])
 
   useEffect(() => {
     fetchUsers()
@@ -150,9 +171,9 @@ const UserManagementPage = () => {
   // Load all agents to build name lookup map
   useEffect(() => {
     const loadAllAgents = async () => {
-      if (!token || !isAuthenticated || user?.role !== 'admin') return
+      if (!isAuthenticated || !canReadAgents) return
       try {
-        const response = await adminAgentApi.getAllAgents(token, { limit: 1000 })
+        const response = await adminAgentApi.getAllAgents({ limit: 1000 })
         const agentsList = normalizeAgentItems(response.data)
         if (agentsList.length) {
           const agentsMap = new Map<string, string>()
@@ -173,7 +194,7 @@ const UserManagementPage = () => {
       }
     }
     loadAllAgents()
-  }, [token, isAuthenticated, user?.role])
+  }, [isAuthenticated, canReadAgents])
 
   const resetForm = () => {
     setFormData(initialFormState)
@@ -210,13 +231,23 @@ const UserManagementPage = () => {
     return Object.keys(errors).length === 0
   }
 
+  // Highlight fields rejected by the backend, otherwise fall back to a toast
+  const showSubmitError = (response: ApiResponse) => {
+    const serverErrors = mapFieldErrors(response.apiError, userFieldMap)
+    if (Object.keys(serverErrors).length > 0) {
+      setFormErrors((prev) => ({ ...prev, ...serverErrors }))
+      toast.error('Please fix the highlighted fields')
+    } else {
+      toast.error(response.error)
+    }
+  }
+
   const loadUnassignedAgents = useCallback(
     async (currentAgentId?: string | null) => {
-      if (!token) return
       setAgentsOptionsLoading(true)
       try {
         // Fetch all agents to build a name lookup map
-        const allAgentsResponse = await adminAgentApi.getAllAgents(token, { limit: 1000 })
+        const allAgentsResponse = await adminAgentApi.getAllAgents({ limit: 1000 })
         const allAgents = normalizeAgentItems(allAgentsResponse.data)
         const agentsMap = new Map<string, string>()
         allAgents.forEach((agent) => {
@@ -229,7 +260,7 @@ const UserManagementPage = () => {
         setAllAgentsMap(agentsMap)
 
         // Fetch unassigned agents
-        const response = await adminAgentApi.getUnassignedAgents(token)
+        const response = await adminAgentApi.getUnassignedAgents()
         if (response.error || !response.data) {
           toast.error(response.error || 'Failed to load unassigned agents')
           setUnassignedAgents([])
@@ -252,12 +283,11 @@ const UserManagementPage = () => {
         setAgentsOptionsLoading(false)
       }
     },
-    [token]
+    []
   )
 
   const handleFormSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault()
-    if (!token) return
 
     if (modalMode === 'assign-agent') {
       await handleAssignAgent(event)
@@ -276,9 +306,9 @@ const UserManagementPage = () => {
           email: formData.email.trim(),
           password: formData.password
         }
-        const response = await adminUserApi.createUser(token, payload)
+        const response = await adminUserApi.createUser(payload)
         if (response.error) {
-          toast.error(response.error)
+          showSubmitError(response)
           return
         }
         toast.success('User created successfully')
@@ -287,9 +317,9 @@ const UserManagementPage = () => {
           username: formData.username.trim(),
           email: formData.email.trim()
         }
-        const response = await adminUserApi.updateUser(token, editingUserId, payload)
+        const response = await adminUserApi.updateUser(editingUserId, payload)
         if (response.error) {
-          toast.error(response.error)
+          showSubmitError(response)
           return
         }
         toast.success('User updated successfully')
@@ -322,12 +352,11 @@ const UserManagementPage = () => {
 
   const handleToggleStatus = useCallback(
     async (userRecord: UserOut) => {
-      if (!token) return
       setBlockLoadingId(userRecord.id)
       setError(null)
 
       try {
-        const response = await adminUserApi.updateStatus(token, userRecord.id, !userRecord.blocked)
+        const response = await adminUserApi.updateStatus(userRecord.id, !userRecord.blocked)
         if (response.error) {
           toast.error(response.error)
         } else {
@@ -342,12 +371,11 @@ const UserManagementPage = () => {
         setBlockLoadingId(null)
       }
     },
-    [token]
+    []
   )
 
   const handleDeleteUser = useCallback(
     async (userRecord: UserOut) => {
-      if (!token) return
       const confirmed = window.confirm(`Delete ${userRecord.username}? This action cannot be undone.`)
       if (!confirmed) return
 
@@ -355,7 +383,7 @@ const UserManagementPage = () => {
       setError(null)
 
       try {
-        const response = await adminUserApi.deleteUser(token, userRecord.id)
+        const response = await adminUserApi.deleteUser(userRecord.id)
         if (response.error) {
           toast.error(response.error)
         } else {
@@ -368,15 +396,56 @@ const UserManagementPage = () => {
         setDeleteLoadingId(null)
       }
     },
-    [token, fetchUsers]
+    [fetchUsers]
   )
 
-  const handleOpenAgentModal = useCallback(
+  const handleImpersonate = useCallback(
     async (userRecord: UserOut) => {
-      if (!token) {
-        toast.error('Authentication required')
-        return
+      const confirmed = window.confirm(
+        `View the dashboard as ${userRecord.username}? Everything you do will be recorded against your account.`
+      )
+      if (!confirmed) return
+
+      setImpersonateLoadingId(userRecord.id)
+      const result = await startImpersonation(userRecord)
+      if (!result.success) {
+        toast.error(result.error)
+        setImpersonateLoadingId(null)
+      }
+    },
+    [startImpersonation]
+  )
+
+  const handleResetTwoFactor = useCallback(async (userRecord: UserOut) => {
+    const confirmed = window.confirm(
+      `Reset two-factor authentication for ${userRecord.username}? They will sign in with just their password until they set it up again.`
+    )
+    if (!confirmed) return
+
+    setResetTwoFactorLoadingId(userRecord.id)
+    setError(null)
+
+    try {
+      const response = await adminUserApi.resetTwoFactor(userRecord.id)
+      if (response.error) {
+        toast.error(response.error)
+      } else {
+        toast.success('Two-factor authentication reset')
+        setUsers((prev) =>
+          prev.map((item) =>
+            item.id === userRecord.id ? response.data ?? { ...item, two_factor_enabled: false } : item
+          )
+        )
       }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to reset two-factor authentication')
+    } finally {
+      setResetTwoFactorLoadingId(null)
+    }
+  }, [])
+
+  const handleOpenAgentModal = useCallback(
+    async (userRecord: UserOut) => {
       setAgentLoadingId(userRecord.id)
       setAgentAssignmentUserId(userRecord.id)
       setAgentIdInput(userRecord.agent_id ?? '')
@@ -388,12 +457,12 @@ const UserManagementPage = () => {
         setAgentLoadingId(null)
       }
     },
-    [token, loadUnassignedAgents]
+    [loadUnassignedAgents]
   )
 
   const handleAssignAgent = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault()
-    if (!token || !agentAssignmentUserId) return
+    if (!agentAssignmentUserId) return
 
     setSubmitting(true)
     setError(null)
@@ -402,7 +471,7 @@ const UserManagementPage = () => {
       const payload: AdminUserUpdatePayload = {
         agent_id: agentIdInput.trim() || ''
       }
-      const response = await adminUserApi.updateUser(token, agentAssignmentUserId, payload)
+      const response = await adminUserApi.updateUser(agentAssignmentUserId, payload)
       if (response.error) {
         toast.error(response.error)
       } else {
@@ -470,7 +539,7 @@ const UserManagementPage = () => {
         header: 'Role',
         minWidth: 110,
         render: (row) => (
-          <Badge bg={row.role === 'admin' ? 'primary' : 'secondary'} className="text-uppercase">
+          <Badge bg={isStaffRole(row.role) ? 'primary' : 'secondary'} className="text-uppercase">
             {row.role}
           </Badge>
         )
@@ -507,6 +576,13 @@ const UserManagementPage = () => {
         defaultSticky: true,
         render: (row) => {
           const isLoading = blockLoadingId === row.id
+          if (!canWriteUsers) {
+            return (
+              <Badge bg={row.blocked ? 'danger' : 'success'} className="px-2 py-1 text-uppercase">
+                {row.blocked ? 'Blocked' : 'Active'}
+              </Badge>
+            )
+          }
           return (
             <div
               onClick={() => !isLoading && handleToggleStatus(row)}
@@ -569,44 +645,89 @@ const UserManagementPage = () => {
         defaultSticky: true,
         render: (row) => (
           <div className="d-flex gap-2 justify-content-center flex-wrap">
+            {canWriteUsers && (
+              <>
+                <Button
+                  size="sm"
+                  variant="outline-primary"
+                  onClick={() => handleEditUser(row)}
+                  title="Edit user"
+                >
+                  <IconifyIcon icon="solar:pen-new-square-outline" width={16} height={16} />
+                </Button>
+                <Button
+                  size="sm"
+                  variant={row.agent_id ? 'outline-warning' : 'outline-info'}
+                  onClick={() => handleOpenAgentModal(row)}
+                  title={row.agent_id ? 'Unassign agent' : 'Assign agent'}
+                  disabled={agentLoadingId === row.id}
+                >
+                  {agentLoadingId === row.id ? (
+                    <span className="spinner-border spinner-border-sm" role="status" />
+                  ) : (
+                    <IconifyIcon
+                      icon={row.agent_id ? 'solar:user-minus-outline' : 'solar:user-plus-outline'}
+                      width={16}
+                      height={16}
+                    />
+                  )}
+                </Button>
+              </>
+            )}
             <Button
               size="sm"
-              variant="outline-primary"
-              onClick={() => handleEditUser(row)}
-              title="Edit user"
-            >
-              <IconifyIcon icon="solar:pen-new-square-outline" width={16} height={16} />
-            </Button>
-            <Button
-              size="sm"
-              variant={row.agent_id ? 'outline-warning' : 'outline-info'}
-              onClick={() => handleOpenAgentModal(row)}
-              title={row.agent_id ? 'Unassign agent' : 'Assign agent'}
-              disabled={agentLoadingId === row.id}
-            >
-              {agentLoadingId === row.id ? (
-                <span className="spinner-border spinner-border-sm" role="status" />
-              ) : (
-                <IconifyIcon
-                  icon={row.agent_id ? 'solar:user-minus-outline' : 'solar:user-plus-outline'}
-                  width={16}
-                  height={16}
-                />
-              )}
-            </Button>
-            <Button
-              size="sm"
-              variant="outline-danger"
-              onClick={() => handleDeleteUser(row)}
-              title="Delete user"
-              disabled={deleteLoadingId === row.id}
+              variant="outline-secondary"
+              onClick={() => setSessionsUser(row)}
+              title="Active sessions"
             >
-              {deleteLoadingId === row.id ? (
-                <span className="spinner-border spinner-border-sm" role="status" />
-              ) : (
-                <IconifyIcon icon="solar:trash-bin-minimalistic-outline" width={16} height={16} />
-              )}
+              <IconifyIcon icon="solar:devices-outline" width={16} height={16} />
             </Button>
+            {canImpersonate && row.role === 'user' && (
+              <Button
+                size="sm"
+                variant="outline-dark"
+                onClick={() => handleImpersonate(row)}
+                title="Impersonate user"
+                disabled={impersonateLoadingId !== null}
+              >
+                {impersonateLoadingId === row.id ? (
+                  <span className="spinner-border spinner-border-sm" role="status" />
+                ) : (
+                  <IconifyIcon icon="solar:login-3-outline" width={16} height={16} />
+                )}
+              </Button>
+            )}
+            {canResetTwoFactor && isStaffRole(row.role) && row.two_factor_enabled && row.id !== user?.id && (
+              <Button
+                size="sm"
+                variant="outline-warning"
+                onClick={() => handleResetTwoFactor(row)}
+                title="Reset two-factor authentication"
+                disabled={resetTwoFactorLoadingId === row.id}
+              >
+                {resetTwoFactorLoadingId === row.id ? (
+                  <span className="spinner-border spinner-border-sm" role="status" />
+                ) : (
+                  <IconifyIcon icon="solar:shield-keyhole-outline" width={16} height={16} />
+                )}
+              </Button>
+            )}
+            {canDeleteUsers && (
+              <Button
+                size="sm"
+                variant="outline-danger"
+                onClick={() => handleDeleteUser(row)}
+                title="Delete user"
+                disabled={deleteLoadingId === row.id}
+              >
+                {deleteLoadingId === row.id ? (
+                  <span className="spinner-border spinner-border-sm" role="status" />
+                ) : (
+                  <IconifyIcon icon="solar:trash-bin-minimalistic-outline" width={16} height={16} />
+                )}
+              </Button>
+            )}
+            <AuditHistoryLink entityType="user" entityId={row.id} />
           </div>
         )
       }
@@ -617,10 +738,19 @@ const UserManagementPage = () => {
       blockLoadingId,
       deleteLoadingId,
       agentLoadingId,
+      impersonateLoadingId,
+      resetTwoFactorLoadingId,
       allAgentsMap,
+      user?.id,
+      canWriteUsers,
+      canDeleteUsers,
+      canImpersonate,
+      canResetTwoFactor,
       handleToggleStatus,
       handleEditUser,
       handleDeleteUser,
+      handleImpersonate,
+      handleResetTwoFactor,
       handleOpenAgentModal
     ]
   )
@@ -672,20 +802,6 @@ const UserManagementPage = () => {
     )
   }
 
-  if (user && user.role !== 'admin') {
-    return (
-      <Row className="py-5">
-        <Col xs={12}>
-          <div className="text-center">
-            <IconifyIcon icon="solar:shield-cross-outline" width={48} height={48} className="text-danger mb-3" />
-            <h4 className="mb-2">Access restricted</h4>
-            <p className="text-muted mb-0">Only admins can manage users.</p>
-          </div>
-        </Col>
-      </Row>
-    )
-  }
-
   return (
     <>
       <Row>
@@ -728,12 +844,12 @@ const UserManagementPage = () => {
                 onClear: () => setSearchQuery('')
               },
               filters,
-              extra: (
+              extra: canWriteUsers ? (
                 <Button onClick={() => handleOpenModal('create')} className="shadow-sm">
                   <IconifyIcon icon="solar:user-plus-outline" width={18} height={18} className="me-2" />
                   Add User
                 </Button>
-              )
+              ) : undefined
             }}
             pagination={pagination}
             columnPanel={{
@@ -892,6 +1008,8 @@ const UserManagementPage = () => {
           </ModalFooter>
         </Form>
       </Modal>
+
+      <UserSessionsModal user={sessionsUser} canRevoke={canWriteUsers} onHide={() => setSessionsUser(null)} />
     </>
   )
 }
@@ -3,7 +3,10 @@ import DarkLogo from '@/assets/images/logo-dark.png'
 import LightLogo from '@/assets/images/logo-light.png'
 import TextFormInput from '@/components/from/TextFormInput'
 import PasswordFormInput from '@/components/from/PasswordFormInput'
+import TwoFactorCodeForm from '@/components/TwoFactorCodeForm'
+import SsoSignInButton, { getSsoErrorMessage } from '@/components/SsoSignInButton'
 import { useAuth } from '@/context/useAuthContext'
+import useQueryParams from '@/hooks/useQueryParams'
 import { yupResolver } from '@hookform/resolvers/yup'
 import Image from 'next/image'
 import Link from 'next/link'
@@ -12,13 +15,15 @@ import { useEffect, useState } from 'react'
 import { Card, CardBody, Col, Row, Alert } from 'react-bootstrap'
 import { useForm, type Resolver } from 'react-hook-form'
 import * as yup from 'yup'
-import type { SignInRequest } from '@/types/auth'
+import type { SignInRequest, TwoFactorChallengeOut } from '@/types/auth'
 
 const AdminSignIn = () => {
   const router = useRouter()
-  const { signIn, isAuthenticated, user } = useAuth()
-  const [error, setError] = useState<string | null>(null)
+  const { signIn, verifyTwoFactor, isAuthenticated, user } = useAuth()
+  const { error: ssoError } = useQueryParams()
+  const [error, setError] = useState<string | null>(getSsoErrorMessage(ssoError))
   const [loading, setLoading] = useState(false)
+  const [challenge, setChallenge] = useState<TwoFactorChallengeOut | null>(null)
 
   const messageSchema: yup.ObjectSchema<SignInRequest> = yup
     .object({
@@ -69,7 +74,9 @@ const AdminSignIn = () => {
 
       const result = await signIn(signInData, true) // true = admin login
 
-      if (!result.success) {
+      if (result.challenge) {
+        setChallenge(result.challenge)
+      } else if (!result.success) {
         setError(result.error || 'Admin sign in failed. Please check your credentials and try again.')
       }
     } catch (err) {
@@ -81,6 +88,24 @@ const AdminSignIn = () => {
     }
   }
 
+  const handleVerify = async (code: string, isRecoveryCode: boolean) => {
+    if (!challenge) return
+
+    setLoading(true)
+    setError(null)
+
+    const result = await verifyTwoFactor(challenge, code, isRecoveryCode)
+    if (!result.success) {
+      setError(result.error || 'Invalid code. Please try again.')
+    }
+    setLoading(false)
+  }
+
+  const handleRestart = () => {
+    setChallenge(null)
+    setError(null)
+  }
+
   return (
     <div className="">
       <div className="account-pages py-5">
@@ -102,7 +127,11 @@ const AdminSignIn = () => {
                       <span className="badge bg-danger me-2">Admin</span>
                       Welcome Back!
                     </h4>
-                    <p className="text-muted">Sign in to your admin account to continue</p>
+                    <p className="text-muted">
+                      {challenge
+                        ? 'Two-factor authentication is enabled for this account'
+                        : 'Sign in to your admin account to continue'}
+                    </p>
                   </div>
 
                   {error && (
@@ -111,43 +140,54 @@ const AdminSignIn = () => {
                     </Alert>
                   )}
 
-                  <form onSubmit={handleSubmit(handleLogin)} className="mt-4">
-                    <div className="mb-3">
-                      <TextFormInput
-                        control={control}
-                        name="email"
-                        type="text"
-                        placeholder="Enter your email or username"
-                        className="form-control"
-                        label="Email or Username"
-                      />
-                    </div>
-                    <div className="mb-3">
-                      <PasswordFormInput
-                        control={control}
-                        name="password"
-                        placeholder="Enter your password"
-                        className="form-control"
-                        label="Password"
-                      />
-                    </div>
+                  {challenge ? (
+                    <TwoFactorCodeForm
+                      onVerify={handleVerify}
+                      onCancel={handleRestart}
+                      submitting={loading}
+                      buttonClassName="btn btn-danger btn-lg fw-medium"
+                    />
+                  ) : (
+                    <form onSubmit={handleSubmit(handleLogin)} className="mt-4">
+                      <div className="mb-3">
+                        <TextFormInput
+                          control={control}
+                          name="email"
+                          type="text"
+                          placeholder="Enter your email or username"
+                          className="form-control"
+                          label="Email or Username"
+                        />
+                      </div>
+                      <div className="mb-3">
+                        <PasswordFormInput
+                          control={control}
+                          name="password"
+                          placeholder="Enter your password"
+                          className="form-control"
+                          label="Password"
+                        />
+                      </div>
+
+                      <div className="form-check mb-3">
+                        <input type="checkbox" className="form-check-input" id="remember-me" />
+                        <label className="form-check-label" htmlFor="remember-me">
+                          Remember me
+                        </label>
+                      </div>
+                      <div className="d-grid">
+                        <button
+                          className="btn btn-danger btn-lg fw-medium"
+                          type="submit"
+                          disabled={loading}
+                        >
+                          {loading ? 'Signing in...' : 'Admin Sign In'}
+                        </button>
+                      </div>
+                    </form>
+                  )}
 
-                    <div className="form-check mb-3">
-                      <input type="checkbox" className="form-check-input" id="remember-me" />
-                      <label className="form-check-label" htmlFor="remember-me">
-                        Remember me
-                      </label>
-                    </div>
-                    <div className="d-grid">
-                      <button
-                        className="btn btn-danger btn-lg fw-medium"
-                        type="submit"
-                        disabled={loading}
-                      >
-                        {loading ? 'Signing in...' : 'Admin Sign In'}
-                      </button>
-                    </div>
-                  </form>
+                  {!challenge && <SsoSignInButton portal="admin" disabled={loading} />}
                 </CardBody>
               </Card>
               <p className="text-center mt-4">
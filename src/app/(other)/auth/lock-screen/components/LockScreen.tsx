@@ -1,16 +1,31 @@
 'use client'
-import React, { useEffect } from 'react'
+import React, { useEffect, useState } from 'react'
 import Image from 'next/image'
 import DarkLogo from '@/assets/images/logo-dark.png'
 import LightLogo from '@/assets/images/logo-light.png'
 import Link from 'next/link'
+import { useRouter } from 'next/navigation'
 import { yupResolver } from '@hookform/resolvers/yup'
-import { useForm } from 'react-hook-form'
+import { useForm, type Resolver } from 'react-hook-form'
 import * as yup from 'yup'
-import TextFormInput from '@/components/from/TextFormInput'
-import { Card, CardBody, Col, Row } from 'react-bootstrap'
+import PasswordFormInput from '@/components/from/PasswordFormInput'
+import TwoFactorCodeForm from '@/components/TwoFactorCodeForm'
+import { useAuth } from '@/context/useAuthContext'
+import { Alert, Card, CardBody, Col, Row } from 'react-bootstrap'
+import type { TwoFactorChallengeOut } from '@/types/auth'
+
+type UnlockFormData = {
+  password: string
+}
 
 const LockScreen = () => {
+  const router = useRouter()
+  const { user, isLoading, isLocked, unlock, verifyTwoFactor, signOut } = useAuth()
+  const [error, setError] = useState<string | null>(null)
+  const [unlocking, setUnlocking] = useState(false)
+  const [challenge, setChallenge] = useState<TwoFactorChallengeOut | null>(null)
+  const [signingOut, setSigningOut] = useState(false)
+
   useEffect(() => {
     document.body.classList.add('authentication-bg')
     return () => {
@@ -18,15 +33,66 @@ const LockScreen = () => {
     }
   }, [])
 
-  const messageSchema = yup.object({
-    name: yup.string().required('Please enter Name'),
-    email: yup.string().email().required('Please enter Email'),
+  // Nothing to unlock without a locked session
+  useEffect(() => {
+    // signIn and signOut navigate away themselves
+    if (isLoading || unlocking || signingOut) return
+    if (!user) {
+      router.replace('/auth/sign-in')
+    } else if (!isLocked) {
+      router.replace('/dashboards')
+    }
+  }, [isLoading, unlocking, signingOut, user, isLocked, router])
+
+  const messageSchema: yup.ObjectSchema<UnlockFormData> = yup.object({
     password: yup.string().required('Please enter password'),
   })
 
-  const { handleSubmit, control } = useForm({
-    resolver: yupResolver(messageSchema),
+  const { handleSubmit, control, reset } = useForm<UnlockFormData>({
+    defaultValues: { password: '' },
+    resolver: yupResolver(messageSchema) as Resolver<UnlockFormData>,
   })
+
+  const handleUnlock = async ({ password }: UnlockFormData) => {
+    setUnlocking(true)
+    setError(null)
+
+    const result = await unlock(password)
+    if (result.challenge) {
+      setChallenge(result.challenge)
+      setUnlocking(false)
+    } else if (!result.success) {
+      setError(result.error || 'Incorrect password. Please try again.')
+      reset()
+      setUnlocking(false)
+    }
+  }
+
+  const handleVerify = async (code: string, isRecoveryCode: boolean) => {
+    if (!challenge) return
+
+    setUnlocking(true)
+    setError(null)
+
+    const result = await verifyTwoFactor(challenge, code, isRecoveryCode)
+    if (!result.success) {
+      setError(result.error || 'Invalid code. Please try again.')
+      setUnlocking(false)
+    }
+  }
+
+  const handleRestart = () => {
+    setChallenge(null)
+    setError(null)
+    reset()
+  }
+
+  const handleSignOut = (e: React.MouseEvent) => {
+    e.preventDefault()
+    setSigningOut(true)
+    signOut()
+  }
+
   return (
     <>
       <div className="">
@@ -38,48 +104,56 @@ const LockScreen = () => {
                   <CardBody className=" p-5">
                     <div className="text-center">
                       <div className="mx-auto mb-4 text-center auth-logo">
-                        <Link href="" className="logo-dark">
+                        <Link href="/dashboards" className="logo-dark">
                           <Image src={DarkLogo} height={32} alt="logo dark" />
                         </Link>
-                        <Link href="" className="logo-light">
+                        <Link href="/dashboards" className="logo-light">
                           <Image src={LightLogo} height={28} alt="logo light" />
                         </Link>
                       </div>
-                      <h4 className="fw-bold text-dark mb-2">Hi ! Gaston</h4>
-                      <p className="text-muted">Enter your password to access the admin.</p>
+                      <h4 className="fw-bold text-dark mb-2">Hi ! {user?.username}</h4>
+                      <p className="text-muted">
+                        Your session is locked. Enter your password to pick up where you left off.
+                      </p>
                     </div>
-                    <form onSubmit={handleSubmit(() => {})} className="mt-4">
-                      <div className="mb-3">
-                        <label className="form-label" htmlFor="example-password">
-                          Password
-                        </label>
-                        <TextFormInput
-                          control={control}
-                          name="password"
-                          placeholder="Enter your password"
-                          className="bg-light bg-opacity-50 border-light py-2"
-                        />
-                      </div>
-                      <div className="mb-3">
-                        <div className="form-check">
-                          <input type="checkbox" className="form-check-input" id="checkbox-signin" />
-                          <label className="form-check-label" htmlFor="checkbox-signin">
-                            I accept Terms and Condition
-                          </label>
+
+                    {error && (
+                      <Alert variant="danger" className="mt-3" dismissible onClose={() => setError(null)}>
+                        {error}
+                      </Alert>
+                    )}
+
+                    {challenge ? (
+                      <TwoFactorCodeForm
+                        onVerify={handleVerify}
+                        onCancel={handleRestart}
+                        submitting={unlocking}
+                        submitLabel="Unlock"
+                      />
+                    ) : (
+                      <form onSubmit={handleSubmit(handleUnlock)} className="mt-4">
+                        <div className="mb-3">
+                          <PasswordFormInput
+                            control={control}
+                            name="password"
+                            placeholder="Enter your password"
+                            className="bg-light bg-opacity-50 border-light py-2"
+                            label="Password"
+                          />
                         </div>
-                      </div>
-                      <div className="mb-1 text-center d-grid">
-                        <button className="btn btn-dark btn-lg fw-medium" type="submit">
-                          Sign In
-                        </button>
-                      </div>
-                    </form>
+                        <div className="mb-1 text-center d-grid">
+                          <button className="btn btn-dark btn-lg fw-medium" type="submit" disabled={unlocking || !user}>
+                            {unlocking ? 'Unlocking...' : 'Unlock'}
+                          </button>
+                        </div>
+                      </form>
+                    )}
                   </CardBody>
                 </Card>
                 <p className="text-center mt-4 text-white text-opacity-50">
-                  Not you? return&nbsp;
-                  <Link href="/auth/sign-up" className="text-decoration-none text-white fw-bold">
-                    Sign Up
+                  Not you?&nbsp;
+                  <Link href="" onClick={handleSignOut} className="text-decoration-none text-white fw-bold">
+                    Sign Out
                   </Link>
                 </p>
               </Col>
@@ -1,16 +1,25 @@
 'use client'
 import Link from 'next/link'
-import React, { useEffect } from 'react'
+import React, { useEffect, useState } from 'react'
 import DarkLogo from '@/assets/images/logo-dark.png'
 import LightLogo from '@/assets/images/logo-light.png'
 import Image from 'next/image'
 import * as yup from 'yup'
 import TextFormInput from '@/components/from/TextFormInput'
+import { authApi } from '@/lib/auth-api'
 import { yupResolver } from '@hookform/resolvers/yup'
-import { useForm } from 'react-hook-form'
-import { Card, CardBody, Col, Row } from 'react-bootstrap'
+import { useForm, type Resolver } from 'react-hook-form'
+import { Alert, Card, CardBody, Col, Row } from 'react-bootstrap'
+
+type ResetRequestFormData = {
+  email: string
+}
 
 const ResetPassword = () => {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
   useEffect(() => {
     document.body.classList.add('authentication-bg')
     return () => {
@@ -18,13 +27,30 @@ const ResetPassword = () => {
     }
   }, [])
 
-  const messageSchema = yup.object({
-    email: yup.string().email().required('Please enter Email'),
+  const messageSchema: yup.ObjectSchema<ResetRequestFormData> = yup.object({
+    email: yup.string().trim().email('Please enter a valid email address').required('Please enter Email'),
   })
 
-  const { handleSubmit, control } = useForm({
-    resolver: yupResolver(messageSchema),
+  const { handleSubmit, control } = useForm<ResetRequestFormData>({
+    defaultValues: { email: '' },
+    resolver: yupResolver(messageSchema) as Resolver<ResetRequestFormData>,
   })
+
+  const handleResetRequest = async ({ email }: ResetRequestFormData) => {
+    setLoading(true)
+    setError(null)
+
+    const response = await authApi.forgotPassword(email.trim())
+    // Unknown emails get the same confirmation so accounts cannot be enumerated
+    if (response.error && response.status !== 404) {
+      setError(response.error)
+    } else {
+      setSentTo(email.trim())
+    }
+
+    setLoading(false)
+  }
+
   return (
     <>
       <div className="">
@@ -43,27 +69,56 @@ const ResetPassword = () => {
                           <Image src={LightLogo} height={28} alt="logo light" />
                         </Link>
                       </div>
-                      <h4 className="fw-bold text-dark mb-2">Reset Password</h4>
-                      <p className="text-muted">
-                        Enter your email address and we&apos;ll send you an email with instructions to reset your password.
-                      </p>
+                      <h4 className="fw-bold text-dark mb-2">{sentTo ? 'Check your email' : 'Reset Password'}</h4>
+                      {sentTo ? (
+                        <p className="text-muted">
+                          If an account exists for <strong>{sentTo}</strong>, we&apos;ve sent a link to reset your
+                          password. The link expires shortly, so use it soon.
+                        </p>
+                      ) : (
+                        <p className="text-muted">
+                          Enter your email address and we&apos;ll send you an email with instructions to reset your
+                          password.
+                        </p>
+                      )}
                     </div>
-                    <form onSubmit={handleSubmit(() => {})} className="mt-4">
-                      <div className="mb-3">
-                        <TextFormInput
-                          control={control}
-                          name="email"
-                          placeholder="Enter your email"
-                          className="bg-light bg-opacity-50 border-light py-2"
-                          label="Email"
-                        />
-                      </div>
-                      <div className="d-grid">
-                        <button className="btn btn-dark btn-lg fw-medium" type="submit">
-                          Reset Password
+
+                    {error && (
+                      <Alert variant="danger" className="mt-3" dismissible onClose={() => setError(null)}>
+                        {error}
+                      </Alert>
+                    )}
+
+                    {sentTo ? (
+                      <div className="d-grid mt-4">
+                        <button
+                          className="btn btn-outline-dark btn-lg fw-medium"
+                          type="button"
+                          disabled={loading}
+                          onClick={() => handleResetRequest({ email: sentTo })}
+                        >
+                          {loading ? 'Sending...' : 'Send the link again'}
                         </button>
                       </div>
-                    </form>
+                    ) : (
+                      <form onSubmit={handleSubmit(handleResetRequest)} className="mt-4">
+                        <div className="mb-3">
+                          <TextFormInput
+                            control={control}
+                            name="email"
+                            type="email"
+                            placeholder="Enter your email"
+                            className="bg-light bg-opacity-50 border-light py-2"
+                            label="Email"
+                          />
+                        </div>
+                        <div className="d-grid">
+                          <button className="btn btn-dark btn-lg fw-medium" type="submit" disabled={loading}>
+                            {loading ? 'Sending...' : 'Reset Password'}
+                          </button>
+                        </div>
+                      </form>
+                    )}
                   </CardBody>
                 </Card>
                 <p className="text-center mt-4 text-white text-opacity-50">
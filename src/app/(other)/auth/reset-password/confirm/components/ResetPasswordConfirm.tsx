@@ -0,0 +1,261 @@
+'use client'
+import Link from 'next/link'
+import React, { useEffect, useState } from 'react'
+import DarkLogo from '@/assets/images/logo-dark.png'
+import LightLogo from '@/assets/images/logo-light.png'
+import Image from 'next/image'
+import * as yup from 'yup'
+import PasswordFormInput from '@/components/from/PasswordFormInput'
+import PasswordRequirements from '@/components/PasswordRequirements'
+import Spinner from '@/components/Spinner'
+import { passwordSchema } from '@/helpers/password'
+import useQueryParams from '@/hooks/useQueryParams'
+import { mapFieldErrors } from '@/lib/api-error'
+import { authApi } from '@/lib/auth-api'
+import type { ApiResponse } from '@/lib/api-client'
+import { yupResolver } from '@hookform/resolvers/yup'
+import { useForm, useWatch, type Resolver } from 'react-hook-form'
+import { Alert, Card, CardBody, Col, Row } from 'react-bootstrap'
+
+type ResetStep = 'verifying' | 'ready' | 'completed' | 'rejected' | 'expired' | 'invalid'
+
+type NewPasswordFormData = {
+  password: string
+  confirm_password: string
+}
+
+const STEP_CONTENT: Record<Exclude<ResetStep, 'verifying' | 'ready'>, { title: string; message: string }> = {
+  completed: {
+    title: 'Password updated',
+    message: 'Your password has been reset. You can now sign in with your new password.',
+  },
+  rejected: {
+    title: 'Request cancelled',
+    message: 'Thanks for letting us know. This reset link no longer works and your password was not changed.',
+  },
+  expired: {
+    title: 'Link expired',
+    message: 'This password reset link has expired. Request a new one to continue.',
+  },
+  invalid: {
+    title: 'Invalid link',
+    message: 'This password reset link is invalid or has already been used. Request a new one to continue.',
+  },
+}
+
+// Expired tokens are answered with 410 Gone, anything else rejecting the token means it is unusable
+const getTokenFailureStep = (response: ApiResponse): ResetStep | null => {
+  if (response.status === 410) return 'expired'
+  if ([400, 401, 403, 404].includes(response.status) && response.apiError?.code !== 'validation_error') return 'invalid'
+  return null
+}
+
+const ResetPasswordConfirm = () => {
+  const { token = '' } = useQueryParams()
+  const [step, setStep] = useState<ResetStep>(token ? 'verifying' : 'invalid')
+  const [email, setEmail] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    document.body.classList.add('authentication-bg')
+    return () => {
+      document.body.classList.remove('authentication-bg')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!token) return
+
+    const verifyToken = async () => {
+      const response = await authApi.verifyResetToken(token)
+      if (response.data) {
+        setEmail(response.data.email)
+        setStep('ready')
+        return
+      }
+
+      const failureStep = getTokenFailureStep(response)
+      if (failureStep) {
+        setStep(failureStep)
+      } else {
+        setError(response.error || 'Unable to verify the reset link. Please try again.')
+        setStep('invalid')
+      }
+    }
+
+    verifyToken()
+  }, [token])
+
+  const messageSchema: yup.ObjectSchema<NewPasswordFormData> = yup.object({
+    password: passwordSchema,
+    confirm_password: yup
+      .string()
+      .required('Please confirm your password')
+      .oneOf([yup.ref('password')], 'Passwords must match'),
+  })
+
+  const { handleSubmit, control, setError: setFieldError } = useForm<NewPasswordFormData>({
+    defaultValues: { password: '', confirm_password: '' },
+    resolver: yupResolver(messageSchema) as Resolver<NewPasswordFormData>,
+  })
+  const password = useWatch({ control, name: 'password' })
+
+  const handleReset = async ({ password }: NewPasswordFormData) => {
+    setSubmitting(true)
+    setError(null)
+
+    const response = await authApi.resetPassword(token, password)
+    if (!response.error) {
+      setStep('completed')
+    } else {
+      const fieldErrors = mapFieldErrors(response.apiError, { new_password: 'password' as const })
+      // A 400 here is usually about the password itself rather than the token
+      const failureStep = response.status === 400 ? null : getTokenFailureStep(response)
+      if (fieldErrors.password) {
+        setFieldError('password', { message: fieldErrors.password })
+      } else if (failureStep) {
+        setStep(failureStep)
+      } else {
+        setError(response.error)
+      }
+    }
+
+    setSubmitting(false)
+  }
+
+  const handleReject = async () => {
+    setSubmitting(true)
+    setError(null)
+
+    const response = await authApi.rejectReset(token)
+    if (!response.error) {
+      setStep('rejected')
+    } else {
+      const failureStep = getTokenFailureStep(response)
+      if (failureStep) {
+        setStep(failureStep)
+      } else {
+        setError(response.error)
+      }
+    }
+
+    setSubmitting(false)
+  }
+
+  const outcome = step === 'verifying' || step === 'ready' ? null : STEP_CONTENT[step]
+
+  return (
+    <>
+      <div className="">
+        <div className="account-pages py-5">
+          <div className="container">
+            <Row className=" justify-content-center">
+              <Col md={6} lg={5}>
+                <Card className=" border-0 shadow-lg">
+                  <CardBody className=" p-5">
+                    <div className="text-center">
+                      <div className="mx-auto mb-4 text-center auth-logo">
+                        <Link href="/dashboards" className="logo-dark">
+                          <Image src={DarkLogo} height={32} alt="logo dark" />
+                        </Link>
+                        <Link href="/dashboards" className="logo-light">
+                          <Image src={LightLogo} height={28} alt="logo light" />
+                        </Link>
+                      </div>
+                      <h4 className="fw-bold text-dark mb-2">{outcome ? outcome.title : 'Set a new password'}</h4>
+                      {outcome && <p className="text-muted">{outcome.message}</p>}
+                      {step === 'ready' && email && (
+                        <p className="text-muted">
+                          Choose a new password for <strong>{email}</strong>.
+                        </p>
+                      )}
+                    </div>
+
+                    {error && (
+                      <Alert variant="danger" className="mt-3" dismissible onClose={() => setError(null)}>
+                        {error}
+                      </Alert>
+                    )}
+
+                    {step === 'verifying' && (
+                      <div className="d-flex justify-content-center py-4">
+                        <Spinner />
+                      </div>
+                    )}
+
+                    {step === 'ready' && (
+                      <form onSubmit={handleSubmit(handleReset)} className="mt-4">
+                        <div className="mb-2">
+                          <PasswordFormInput
+                            control={control}
+                            name="password"
+                            placeholder="Enter your new password"
+                            className="form-control"
+                            label="New Password"
+                          />
+                        </div>
+                        <div className="mb-3">
+                          <PasswordRequirements password={password} />
+                        </div>
+                        <div className="mb-3">
+                          <PasswordFormInput
+                            control={control}
+                            name="confirm_password"
+                            placeholder="Confirm your new password"
+                            className="form-control"
+                            label="Confirm Password"
+                          />
+                        </div>
+                        <div className="d-grid">
+                          <button className="btn btn-dark btn-lg fw-medium" type="submit" disabled={submitting}>
+                            {submitting ? 'Saving...' : 'Reset Password'}
+                          </button>
+                        </div>
+                        <div className="text-center mt-3">
+                          <span className="text-muted">Didn&apos;t request this?</span>{' '}
+                          <button
+                            type="button"
+                            className="btn btn-link p-0 align-baseline"
+                            onClick={handleReject}
+                            disabled={submitting}
+                          >
+                            This wasn&apos;t me
+                          </button>
+                        </div>
+                      </form>
+                    )}
+
+                    {(step === 'expired' || step === 'invalid') && (
+                      <div className="d-grid mt-4">
+                        <Link href="/auth/reset-password" className="btn btn-dark btn-lg fw-medium">
+                          Request a new link
+                        </Link>
+                      </div>
+                    )}
+
+                    {(step === 'completed' || step === 'rejected') && (
+                      <div className="d-grid mt-4">
+                        <Link href="/auth/sign-in" className="btn btn-dark btn-lg fw-medium">
+                          Go to Sign In
+                        </Link>
+                      </div>
+                    )}
+                  </CardBody>
+                </Card>
+                <p className="text-center mt-4 text-white text-opacity-50">
+                  Back to&nbsp;
+                  <Link href="/auth/sign-in" className="text-decoration-none text-white fw-bold">
+                    Sign In
+                  </Link>
+                </p>
+              </Col>
+            </Row>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
+
+export default ResetPasswordConfirm
@@ -0,0 +1,10 @@
+import { Metadata } from 'next'
+import ResetPasswordConfirm from './components/ResetPasswordConfirm'
+
+export const metadata: Metadata = { title: 'Set New Password' }
+
+const ResetPasswordConfirmPage = () => {
+  return <ResetPasswordConfirm />
+}
+
+export default ResetPasswordConfirmPage
@@ -3,7 +3,9 @@ import DarkLogo from '@/assets/images/logo-dark.png'
 import LightLogo from '@/assets/images/logo-light.png'
 import TextFormInput from '@/components/from/TextFormInput'
 import PasswordFormInput from '@/components/from/PasswordFormInput'
+import SsoSignInButton, { getSsoErrorMessage } from '@/components/SsoSignInButton'
 import { useAuth } from '@/context/useAuthContext'
+import useQueryParams from '@/hooks/useQueryParams'
 import { yupResolver } from '@hookform/resolvers/yup'
 import Image from 'next/image'
 import Link from 'next/link'
@@ -17,7 +19,8 @@ import type { SignInRequest } from '@/types/auth'
 const SignIn = () => {
   const router = useRouter()
   const { signIn, isAuthenticated } = useAuth()
-  const [error, setError] = useState<string | null>(null)
+  const { error: ssoError } = useQueryParams()
+  const [error, setError] = useState<string | null>(getSsoErrorMessage(ssoError))
   const [loading, setLoading] = useState(false)
 
   const messageSchema: yup.ObjectSchema<SignInRequest> = yup
@@ -152,6 +155,8 @@ const SignIn = () => {
                       </button>
                     </div>
                   </form>
+
+                  <SsoSignInButton portal="user" disabled={loading} />
                 </CardBody>
               </Card>
               <p className="text-center mt-4 text-white text-opacity-50">
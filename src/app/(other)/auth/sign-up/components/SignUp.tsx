@@ -8,6 +8,7 @@ import LightLogo from '@/assets/images/logo-light.png'
 import TextFormInput from '@/components/from/TextFormInput'
 import PasswordFormInput from '@/components/from/PasswordFormInput'
 import { useAuth } from '@/context/useAuthContext'
+import { passwordSchema } from '@/helpers/password'
 import { yupResolver } from '@hookform/resolvers/yup'
 import { useForm, Controller, type Resolver } from 'react-hook-form'
 import * as yup from 'yup'
@@ -22,7 +23,6 @@ const SignUp = () => {
   const router = useRouter()
   const { signUp, isAuthenticated } = useAuth()
   const [error, setError] = useState<string | null>(null)
-  const [success, setSuccess] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [showTermsModal, setShowTermsModal] = useState(false)
 
@@ -56,15 +56,7 @@ const SignUp = () => {
         .trim()
         .email('Please enter a valid email address')
         .required('Email is required'),
-      password: yup
-        .string()
-        .min(8, 'Password must be at least 8 characters')
-        .max(128, 'Password must be less than 128 characters')
-        .matches(
-          /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])/,
-          'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&)'
-        )
-        .required('Password is required'),
+      password: passwordSchema,
       confirm_password: yup
         .string()
         .required('Please confirm your password')
@@ -91,7 +83,6 @@ const SignUp = () => {
     try {
       setLoading(true)
       setError(null)
-      setSuccess(null)
 
       // Extract only the fields needed for the API (exclude acceptedTerms)
       const signUpData: SignUpRequest = {
@@ -108,14 +99,11 @@ const SignUp = () => {
         return
       }
 
-      // For user signup, OTP is sent - show success message
+      // For user signup, OTP is sent - continue on the verification screen
       if (result.data) {
-        const expiresMinutes = Math.ceil((result.data.expires_in || 600) / 60)
-        setSuccess(
-          `Verification code sent! Please check your email (${result.data.email}) for the OTP code. The code expires in ${expiresMinutes} minute${expiresMinutes !== 1 ? 's' : ''}.`
-        )
-        // Optionally redirect to OTP verification page or show OTP input
-        // For now, just show success message
+        const expiresAt = Date.now() + (result.data.expires_in || 600) * 1000
+        const params = new URLSearchParams({ email: result.data.email, expires_at: expiresAt.toString() })
+        router.push(`/auth/verify-email?${params.toString()}`)
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.'
@@ -156,12 +144,6 @@ const SignUp = () => {
                       </Alert>
                     )}
 
-                    {success && (
-                      <Alert variant="success" className="mt-3" dismissible onClose={() => setSuccess(null)}>
-                        {success}
-                      </Alert>
-                    )}
-
                     <form onSubmit={handleSubmit(handleSignUp)} className="mt-4">
                       <div className="mb-3">
                         <TextFormInput
@@ -0,0 +1,69 @@
+'use client'
+import React, { useEffect, useRef, useState } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import DarkLogo from '@/assets/images/logo-dark.png'
+import LightLogo from '@/assets/images/logo-light.png'
+import { useAuth } from '@/context/useAuthContext'
+import { Alert, Card, CardBody, Col, Row } from 'react-bootstrap'
+
+const SsoComplete = () => {
+  const { completeSsoSignIn } = useAuth()
+  const [error, setError] = useState<string | null>(null)
+  const startedRef = useRef(false)
+
+  useEffect(() => {
+    document.body.classList.add('authentication-bg')
+    return () => {
+      document.body.classList.remove('authentication-bg')
+    }
+  }, [])
+
+  useEffect(() => {
+    // Sign in once, StrictMode runs effects twice in development
+    if (startedRef.current) return
+    startedRef.current = true
+
+    completeSsoSignIn().then((result) => {
+      if (!result.success) setError(result.error || 'Single sign-on failed')
+    })
+  }, [completeSsoSignIn])
+
+  return (
+    <div className="account-pages py-5">
+      <div className="container">
+        <Row className="justify-content-center">
+          <Col md={6} lg={5}>
+            <Card className="border-0 shadow-lg">
+              <CardBody className="p-5 text-center">
+                <div className="mx-auto mb-4 auth-logo">
+                  <a href="/" className="logo-dark">
+                    <Image src={DarkLogo} height={32} alt="logo dark" />
+                  </a>
+                  <a href="/" className="logo-light">
+                    <Image src={LightLogo} height={28} alt="logo light" />
+                  </a>
+                </div>
+                {error ? (
+                  <>
+                    <Alert variant="danger">{error}</Alert>
+                    <Link href="/auth/sign-in" className="btn btn-dark">
+                      Back to Sign In
+                    </Link>
+                  </>
+                ) : (
+                  <>
+                    <span className="spinner-border text-primary mb-3" role="status" />
+                    <p className="text-muted mb-0">Completing sign-in...</p>
+                  </>
+                )}
+              </CardBody>
+            </Card>
+          </Col>
+        </Row>
+      </div>
+    </div>
+  )
+}
+
+export default SsoComplete
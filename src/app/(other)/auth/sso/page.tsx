@@ -0,0 +1,10 @@
+import { Metadata } from 'next'
+import SsoComplete from './components/SsoComplete'
+
+export const metadata: Metadata = { title: 'Single Sign-On' }
+
+const SsoPage = () => {
+  return <SsoComplete />
+}
+
+export default SsoPage
@@ -0,0 +1,218 @@
+'use client'
+import Image from 'next/image'
+import Link from 'next/link'
+import React, { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import DarkLogo from '@/assets/images/logo-dark.png'
+import LightLogo from '@/assets/images/logo-light.png'
+import { useAuth } from '@/context/useAuthContext'
+import useCountdown from '@/hooks/useCountdown'
+import useQueryParams from '@/hooks/useQueryParams'
+import { authApi } from '@/lib/auth-api'
+import { Alert, Card, CardBody, Col, Form, Row } from 'react-bootstrap'
+
+const OTP_LENGTH = 6
+const RESEND_COOLDOWN_SECONDS = 60
+
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  const remainder = seconds % 60
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`
+}
+
+const VerifyEmail = () => {
+  const router = useRouter()
+  const { verifySignupOtp, isAuthenticated } = useAuth()
+  const { email = '', expires_at: expiresAtParam } = useQueryParams()
+
+  const [otp, setOtp] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [info, setInfo] = useState<string | null>(null)
+  const [verifying, setVerifying] = useState(false)
+  const [resending, setResending] = useState(false)
+  const [expiresAt, setExpiresAt] = useState<number | null>(() => Number(expiresAtParam) || null)
+  const [resendAvailableAt, setResendAvailableAt] = useState<number | null>(
+    () => Date.now() + RESEND_COOLDOWN_SECONDS * 1000
+  )
+
+  const secondsLeft = useCountdown(expiresAt)
+  const resendSecondsLeft = useCountdown(resendAvailableAt)
+  const isExpired = expiresAt !== null && secondsLeft === 0
+
+  useEffect(() => {
+    document.body.classList.add('authentication-bg')
+
+    // Redirect if already authenticated
+    if (isAuthenticated) {
+      router.push('/dashboards')
+    }
+
+    return () => {
+      document.body.classList.remove('authentication-bg')
+    }
+  }, [isAuthenticated, router])
+
+  const handleOtpChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setOtp(event.target.value.replace(/\D/g, '').slice(0, OTP_LENGTH))
+    setError(null)
+  }
+
+  const handleVerify = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (otp.length !== OTP_LENGTH) {
+      setError(`Enter the ${OTP_LENGTH}-digit code from your email.`)
+      return
+    }
+    if (isExpired) {
+      setError('This code has expired. Request a new one below.')
+      return
+    }
+
+    setVerifying(true)
+    setError(null)
+    setInfo(null)
+
+    const result = await verifySignupOtp(email, otp)
+    if (!result.success) {
+      if (result.expired) {
+        setExpiresAt(Date.now())
+        setError('This code has expired. Request a new one below.')
+      } else {
+        setError(result.error || 'The code you entered is incorrect. Please try again.')
+      }
+      setOtp('')
+    }
+
+    setVerifying(false)
+  }
+
+  const handleResend = async () => {
+    if (!email || resendSecondsLeft > 0) return
+
+    setResending(true)
+    setError(null)
+    setInfo(null)
+
+    const response = await authApi.resendSignupOtp(email)
+    if (response.error || !response.data) {
+      setError(response.error || 'Unable to send a new code. Please try again later.')
+    } else {
+      setExpiresAt(Date.now() + response.data.expires_in * 1000)
+      setOtp('')
+      setInfo(`A new code has been sent to ${response.data.email}.`)
+    }
+    setResendAvailableAt(Date.now() + RESEND_COOLDOWN_SECONDS * 1000)
+
+    setResending(false)
+  }
+
+  return (
+    <>
+      <div className="">
+        <div className="account-pages py-5">
+          <div className="container">
+            <Row className=" justify-content-center">
+              <Col md={6} lg={5}>
+                <Card className=" border-0 shadow-lg">
+                  <CardBody className=" p-5">
+                    <div className="text-center">
+                      <div className="mx-auto mb-4 text-center auth-logo">
+                        <Link href="/" className="logo-dark">
+                          <Image src={DarkLogo} height={32} alt="logo dark" />
+                        </Link>
+                        <Link href="/" className="logo-light">
+                          <Image src={LightLogo} height={28} alt="logo light" />
+                        </Link>
+                      </div>
+                      <h4 className="fw-bold text-dark mb-2">Verify your email</h4>
+                      {email ? (
+                        <p className="text-muted">
+                          We sent a {OTP_LENGTH}-digit code to <strong>{email}</strong>. Enter it below to activate your
+                          account.
+                        </p>
+                      ) : (
+                        <p className="text-muted">We could not tell which email to verify. Please sign up again.</p>
+                      )}
+                    </div>
+
+                    {error && (
+                      <Alert variant="danger" className="mt-3" dismissible onClose={() => setError(null)}>
+                        {error}
+                      </Alert>
+                    )}
+
+                    {info && (
+                      <Alert variant="success" className="mt-3" dismissible onClose={() => setInfo(null)}>
+                        {info}
+                      </Alert>
+                    )}
+
+                    {email && (
+                      <form onSubmit={handleVerify} className="mt-4">
+                        <div className="mb-3">
+                          <Form.Label htmlFor="signup-otp">Verification code</Form.Label>
+                          <Form.Control
+                            id="signup-otp"
+                            value={otp}
+                            onChange={handleOtpChange}
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            placeholder={'0'.repeat(OTP_LENGTH)}
+                            className="text-center fs-4"
+                            maxLength={OTP_LENGTH}
+                            disabled={isExpired || verifying}
+                            isInvalid={!!error}
+                            autoFocus
+                          />
+                          <div className="mt-2 small">
+                            {expiresAt === null ? null : isExpired ? (
+                              <span className="text-danger">The code has expired.</span>
+                            ) : (
+                              <span className="text-muted">Code expires in {formatCountdown(secondsLeft)}</span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="mb-3 text-center d-grid">
+                          <button
+                            className="btn btn-dark btn-lg fw-medium"
+                            type="submit"
+                            disabled={verifying || isExpired || otp.length !== OTP_LENGTH}
+                          >
+                            {verifying ? 'Verifying...' : 'Verify & Sign In'}
+                          </button>
+                        </div>
+                        <div className="text-center">
+                          <span className="text-muted">Didn&apos;t get the code?</span>{' '}
+                          <button
+                            type="button"
+                            className="btn btn-link p-0 align-baseline"
+                            onClick={handleResend}
+                            disabled={resending || resendSecondsLeft > 0}
+                          >
+                            {resending
+                              ? 'Sending...'
+                              : resendSecondsLeft > 0
+                                ? `Resend in ${resendSecondsLeft}s`
+                                : 'Resend code'}
+                          </button>
+                        </div>
+                      </form>
+                    )}
+                  </CardBody>
+                </Card>
+                <p className="text-center mt-4 text-white text-opacity-50">
+                  Wrong email?&nbsp;
+                  <Link href="/auth/sign-up" className="text-decoration-none text-white fw-bold">
+                    Sign Up
+                  </Link>
+                </p>
+              </Col>
+            </Row>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
+
+export default VerifyEmail
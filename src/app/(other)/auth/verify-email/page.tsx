@@ -0,0 +1,10 @@
+import { Metadata } from 'next'
+import VerifyEmail from './components/VerifyEmail'
+
+export const metadata: Metadata = { title: 'Verify Email' }
+
+const VerifyEmailPage = () => {
+  return <VerifyEmail />
+}
+
+export default VerifyEmailPage
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ACCESS_TOKEN_COOKIE,
+  BACKEND_API_URL,
+  REFRESH_ENDPOINT,
+  IMPERSONATOR_HEADER,
+  REFRESH_TOKEN_COOKIE,
+  clearImpersonatorCookies,
+  clearSessionCookies,
+  getImpersonation,
+  getSessionRole,
+  isTokenResponse,
+  setSessionCookies,
+  stripTokens,
+} from '@/lib/session-cookies'
+
+// Backend headers the client relies on (JSON parsing, retries and error reporting)
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'retry-after', 'x-request-id', 'x-correlation-id']
+
+type RouteContext = { params: { path: string[] } }
+
+/**
+ * Forward a browser request to the backend with the bearer token from the session cookie.
+ * Token responses (sign-in, refresh) are turned into HttpOnly cookies.
+ */
+const proxy = async (request: NextRequest, { params }: RouteContext) => {
+  const path = `/${params.path.join('/')}`
+  const headers = new Headers({ accept: 'application/json' })
+
+  const contentType = request.headers.get('content-type')
+  if (contentType) headers.set('content-type', contentType)
+
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+  if (accessToken) headers.set('authorization', `Bearer ${accessToken}`)
+
+  const impersonation = await getImpersonation(request)
+  if (impersonation) headers.set(IMPERSONATOR_HEADER, impersonation.impersonator.id)
+
+  let body = ['GET', 'HEAD'].includes(request.method) ? undefined : await request.text()
+
+  // The refresh token is only readable here, so the refresh body is built server-side
+  if (path === REFRESH_ENDPOINT) {
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+    if (!refreshToken) {
+      const response = NextResponse.json({ detail: 'Session expired' }, { status: 401 })
+      clearSessionCookies(response)
+      return response
+    }
+    body = JSON.stringify({ refresh_token: refreshToken })
+    headers.set('content-type', 'application/json')
+  }
+
+  let backendResponse: Response
+  try {
+    backendResponse = await fetch(`${BACKEND_API_URL}${path}${request.nextUrl.search}`, {
+      method: request.method,
+      headers,
+      body,
+      cache: 'no-store',
+    })
+  } catch (error) {
+    console.error('Backend request failed:', error)
+    return NextResponse.json({ detail: 'Unable to reach the server' }, { status: 502 })
+  }
+
+  const responseHeaders = new Headers()
+  FORWARDED_RESPONSE_HEADERS.forEach((name) => {
+    const value = backendResponse.headers.get(name)
+    if (value) responseHeaders.set(name, value)
+  })
+
+  const text = await backendResponse.text()
+
+  if (backendResponse.ok && responseHeaders.get('content-type')?.includes('application/json')) {
+    try {
+      const data = text ? JSON.parse(text) : null
+      if (isTokenResponse(data)) {
+        const response = NextResponse.json(stripTokens(data), {
+          status: backendResponse.status,
+          headers: responseHeaders,
+        })
+        // A refreshed impersonated session still ends with the impersonation
+        await setSessionCookies(response, data, {
+          currentRole: await getSessionRole(request),
+          expiresAt: path === REFRESH_ENDPOINT ? impersonation?.expiresAt : undefined,
+        })
+        // Signing in again replaces any impersonated session, refreshes keep it
+        if (path !== REFRESH_ENDPOINT) clearImpersonatorCookies(response)
+        return response
+      }
+    } catch {
+      // Let the client report the malformed body
+    }
+  }
+
+  const response = new NextResponse(text || null, {
+    status: backendResponse.status,
+    headers: responseHeaders,
+  })
+  if (path === REFRESH_ENDPOINT && !backendResponse.ok) {
+    clearSessionCookies(response)
+  }
+  return response
+}
+
+export { proxy as GET, proxy as POST, proxy as PUT, proxy as PATCH, proxy as DELETE }
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ACCESS_TOKEN_COOKIE,
+  BACKEND_API_URL,
+  PROFILE_ENDPOINT,
+  getImpersonation,
+  isTokenResponse,
+  restoreImpersonatorSession,
+  setSessionCookies,
+  stashImpersonatorSession,
+} from '@/lib/session-cookies'
+import type { CurrentSessionOut, UserOut } from '@/types/auth'
+
+const impersonateEndpoint = (userId: string) => `/admin/users/${encodeURIComponent(userId)}/impersonate`
+
+/**
+ * Start acting as another user. The admin session is parked in cookies and a
+ * user session issued by the backend takes its place.
+ */
+export async function POST(request: NextRequest) {
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+  if (!accessToken) {
+    return NextResponse.json({ detail: 'Not authenticated' }, { status: 401 })
+  }
+  if (await getImpersonation(request)) {
+    return NextResponse.json({ detail: 'Already impersonating a user, return to your session first' }, { status: 409 })
+  }
+
+  const { user_id: userId } = ((await request.json().catch(() => null)) ?? {}) as { user_id?: string }
+  if (!userId) {
+    return NextResponse.json({ detail: [{ loc: ['body', 'user_id'], msg: 'User id is required' }] }, { status: 422 })
+  }
+
+  const headers = { authorization: `Bearer ${accessToken}`, accept: 'application/json' }
+
+  try {
+    const profileResponse = await fetch(`${BACKEND_API_URL}${PROFILE_ENDPOINT}`, { headers, cache: 'no-store' })
+    if (!profileResponse.ok) {
+      return new NextResponse(await profileResponse.text(), {
+        status: profileResponse.status,
+        headers: { 'content-type': profileResponse.headers.get('content-type') ?? 'application/json' },
+      })
+    }
+    const impersonator = (await profileResponse.json()) as UserOut
+
+    const backendResponse = await fetch(`${BACKEND_API_URL}${impersonateEndpoint(userId)}`, {
+      method: 'POST',
+      headers,
+      cache: 'no-store',
+    })
+    const text = await backendResponse.text()
+    let data: unknown = null
+    try {
+      data = backendResponse.ok && text ? JSON.parse(text) : null
+    } catch {
+      return NextResponse.json({ detail: 'The server sent an invalid impersonation response' }, { status: 502 })
+    }
+
+    if (!isTokenResponse(data) || !data.user) {
+      return new NextResponse(text || null, {
+        status: backendResponse.ok ? 502 : backendResponse.status,
+        headers: { 'content-type': backendResponse.headers.get('content-type') ?? 'application/json' },
+      })
+    }
+
+    const response = NextResponse.json<CurrentSessionOut>({ user: data.user, impersonator })
+    const expiresAt = await stashImpersonatorSession(request, response, impersonator)
+    await setSessionCookies(response, data, { expiresAt })
+    return response
+  } catch (error) {
+    console.error('Impersonation failed:', error)
+    return NextResponse.json({ detail: 'Unable to reach the server' }, { status: 502 })
+  }
+}
+
+/**
+ * Stop impersonating and return to the parked admin session
+ */
+export async function DELETE(request: NextRequest) {
+  const impersonation = await getImpersonation(request)
+  if (!impersonation) {
+    return NextResponse.json({ detail: 'Not impersonating a user' }, { status: 409 })
+  }
+
+  const response = NextResponse.json<CurrentSessionOut>({ user: impersonation.impersonator, impersonator: null })
+  restoreImpersonatorSession(request, response)
+  return response
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ACCESS_TOKEN_COOKIE,
+  BACKEND_API_URL,
+  IMPERSONATOR_HEADER,
+  PROFILE_ENDPOINT,
+  REFRESH_ENDPOINT,
+  REFRESH_TOKEN_COOKIE,
+  clearSessionCookies,
+  getImpersonation,
+  isTokenResponse,
+  setSessionCookies,
+} from '@/lib/session-cookies'
+import type { CurrentSessionOut, RefreshTokenOut, UserOut } from '@/types/auth'
+
+const unauthorized = () => {
+  const response = NextResponse.json({ detail: 'Not authenticated' }, { status: 401 })
+  clearSessionCookies(response)
+  return response
+}
+
+const refreshTokens = async (refreshToken: string): Promise<RefreshTokenOut | null> => {
+  const response = await fetch(`${BACKEND_API_URL}${REFRESH_ENDPOINT}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', accept: 'application/json' },
+    body: JSON.stringify({ refresh_token: refreshToken }),
+    cache: 'no-store',
+  })
+  if (!response.ok) return null
+
+  const data = await response.json().catch(() => null)
+  return isTokenResponse(data) ? data : null
+}
+
+/**
+ * Resolve the signed-in user from the session cookies, refreshing the access token if it lapsed.
+ * While impersonating, the admin behind the session is returned alongside the user.
+ */
+export async function GET(request: NextRequest) {
+  let accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+  const impersonation = await getImpersonation(request)
+  const impersonator = impersonation?.impersonator ?? null
+  let refreshed: RefreshTokenOut | null = null
+
+  try {
+    if (!accessToken && refreshToken) {
+      refreshed = await refreshTokens(refreshToken)
+      accessToken = refreshed?.access_token
+    }
+    if (!accessToken) return unauthorized()
+
+    const headers = new Headers({ authorization: `Bearer ${accessToken}`, accept: 'application/json' })
+    if (impersonator) headers.set(IMPERSONATOR_HEADER, impersonator.id)
+
+    const profileResponse = await fetch(`${BACKEND_API_URL}${PROFILE_ENDPOINT}`, { headers, cache: 'no-store' })
+    if (profileResponse.status === 401) return unauthorized()
+    if (!profileResponse.ok) {
+      return NextResponse.json({ detail: 'Unable to load the session' }, { status: profileResponse.status })
+    }
+
+    const user = (await profileResponse.json()) as UserOut
+    const response = NextResponse.json<CurrentSessionOut>({ user, impersonator })
+    if (refreshed) {
+      await setSessionCookies(response, { ...refreshed, user: refreshed.user ?? user }, { expiresAt: impersonation?.expiresAt })
+    }
+    return response
+  } catch (error) {
+    console.error('Session lookup failed:', error)
+    return NextResponse.json({ detail: 'Unable to reach the server' }, { status: 502 })
+  }
+}
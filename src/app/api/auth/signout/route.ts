@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { clearSessionCookies } from '@/lib/session-cookies'
+
+/**
+ * End the session by expiring the HttpOnly cookies
+ */
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 })
+  clearSessionCookies(response)
+  return response
+}
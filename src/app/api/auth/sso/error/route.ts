@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SSO_ERRORS } from '@/helpers/route-access'
+
+// next-auth keeps the callbackUrl passed to signIn(), which carries the portal the flow started from
+const isCallbackUrlCookie = (name: string) => name.replace(/^__Secure-/, '') === 'next-auth.callback-url'
+
+const getPortal = (request: NextRequest) => {
+  const callbackUrl = request.cookies.getAll().find(({ name }) => isCallbackUrlCookie(name))?.value
+  if (!callbackUrl) return null
+  try {
+    return new URL(callbackUrl, request.url).searchParams.get('portal')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * next-auth's error page: send the visitor back to the sign-in page they came from with the error code
+ */
+export function GET(request: NextRequest) {
+  const signInPath = getPortal(request) === 'admin' ? '/auth/admin/sign-in' : '/auth/sign-in'
+  const error = request.nextUrl.searchParams.get('error') || SSO_ERRORS.failed
+  return NextResponse.redirect(new URL(`${signInPath}?error=${encodeURIComponent(error)}`, request.url))
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { isStaffRole } from '@/helpers/permissions'
+import { SSO_COMPLETE_PATH, SSO_ERRORS } from '@/helpers/route-access'
+import {
+  BACKEND_API_URL,
+  clearImpersonatorCookies,
+  isTokenResponse,
+  setSessionCookies,
+} from '@/lib/session-cookies'
+import { SSO_EXCHANGE_ENDPOINT, getSsoDefaultRole } from '@/lib/sso'
+
+// next-auth's session cookie, chunked into `.0`, `.1`, ... when the ID token makes it large
+const isNextAuthSessionCookie = (name: string) => name.replace(/^__Secure-/, '').startsWith('next-auth.session-token')
+
+const clearNextAuthSession = (request: NextRequest, response: NextResponse) => {
+  request.cookies
+    .getAll()
+    .filter(({ name }) => isNextAuthSessionCookie(name))
+    .forEach(({ name }) => response.cookies.set(name, '', { path: '/', maxAge: 0 }))
+}
+
+/**
+ * Landing point once next-auth has signed the visitor in with the identity provider.
+ * The ID token is exchanged with the backend, which maps the identity onto a user (creating one
+ * with SSO_DEFAULT_ROLE if allowed), and the backend session replaces next-auth's.
+ */
+export async function GET(request: NextRequest) {
+  const isAdminPortal = request.nextUrl.searchParams.get('portal') === 'admin'
+  const signInPath = isAdminPortal ? '/auth/admin/sign-in' : '/auth/sign-in'
+
+  const fail = (error: string) => {
+    const response = NextResponse.redirect(new URL(`${signInPath}?error=${error}`, request.url))
+    clearNextAuthSession(request, response)
+    return response
+  }
+
+  const token = await getToken({ req: request })
+  const idToken = token?.idToken
+  if (typeof idToken !== 'string') return fail(SSO_ERRORS.failed)
+
+  try {
+    const backendResponse = await fetch(`${BACKEND_API_URL}${SSO_EXCHANGE_ENDPOINT}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json' },
+      body: JSON.stringify({ id_token: idToken, default_role: getSsoDefaultRole() }),
+      cache: 'no-store',
+    })
+
+    // No user is linked to the identity and just-in-time provisioning is off
+    if (backendResponse.status === 404) return fail(SSO_ERRORS.notProvisioned)
+    if (backendResponse.status === 403) return fail('AccessDenied')
+    if (!backendResponse.ok) return fail(SSO_ERRORS.failed)
+
+    const data = await backendResponse.json().catch(() => null)
+    if (!isTokenResponse(data) || !data.user) return fail(SSO_ERRORS.failed)
+
+    if (isAdminPortal && !isStaffRole(data.user.role)) return fail(SSO_ERRORS.notStaff)
+
+    const response = NextResponse.redirect(new URL(SSO_COMPLETE_PATH, request.url))
+    await setSessionCookies(response, data)
+    clearImpersonatorCookies(response)
+    clearNextAuthSession(request, response)
+    return response
+  } catch (error) {
+    console.error('SSO exchange failed:', error)
+    return fail(SSO_ERRORS.failed)
+  }
+}
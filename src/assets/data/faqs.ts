@@ -0,0 +1,67 @@
+import { FaqType } from '@/types/data'
+
+export const faqsData: FaqType[] = [
+  {
+    id: 'call-records-where',
+    category: 'Calls',
+    question: 'Where can I find the calls my agent handled?',
+    answer:
+      'Every call your agent answers is listed under Call Records with the caller, time, a short summary and a link to the recording. Open a call to read the detailed summary and any questions the caller asked.',
+  },
+  {
+    id: 'call-records-delay',
+    category: 'Calls',
+    question: 'How long does it take for a call to show up?',
+    answer:
+      'Calls usually appear within a minute or two of hanging up, once the recording has been processed and summarized. If a call is still missing after ten minutes, contact support with the caller number and approximate time.',
+  },
+  {
+    id: 'incidents',
+    category: 'Calls',
+    question: 'What is an incident report?',
+    answer:
+      'When a caller reports a problem such as an injury, damage or a complaint, your agent writes a short incident report. These calls are collected on the Incident Report page, and urgent ones are highlighted.',
+  },
+  {
+    id: 'action-items',
+    category: 'Calls',
+    question: 'What are action items?',
+    answer:
+      'Action items are follow-ups your agent captured during a call, like a callback request or an order to check. On the Action Items board you can assign each one, give it a due date and move it from open to in progress to done.',
+  },
+  {
+    id: 'agent-greeting',
+    category: 'Agent',
+    question: 'Can I change what my agent says when it answers?',
+    answer:
+      'Yes. On Agent Settings you can edit the first message, choose a different voice and pick the language your agent greets callers in. Changes apply to the next call.',
+  },
+  {
+    id: 'agent-behaviour',
+    category: 'Agent',
+    question: 'How do I change what my agent knows or how it handles calls?',
+    answer:
+      'Prompts, knowledge and call routing are managed by our team so your agent keeps working reliably. Send a support request describing the change and we will update it for you.',
+  },
+  {
+    id: 'billing-plan',
+    category: 'Billing',
+    question: 'How do I change my plan or update my payment method?',
+    answer:
+      'Plan changes and payment details are handled by our billing team. Contact support with the billing category selected and we will get back to you.',
+  },
+  {
+    id: 'account-password',
+    category: 'Account',
+    question: 'How do I change my password or username?',
+    answer:
+      'Open Account Settings from the profile menu in the top right. Both changes ask for your current password to confirm it is you.',
+  },
+  {
+    id: 'account-sessions',
+    category: 'Account',
+    question: 'I signed in on a shared computer. How do I sign it out?',
+    answer:
+      'Account Settings lists every device signed in to your account. Sign out the one you no longer use, or sign out everywhere else in one click.',
+  },
+]
@@ -0,0 +1,109 @@
+'use client'
+
+import React from 'react'
+import { Badge, Button } from 'react-bootstrap'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useTimezone } from '@/context/useTimezoneContext'
+import { formatDateTime } from '@/helpers/billing'
+import type { ActiveSessionOut } from '@/types/auth'
+
+interface ActiveSessionsListProps {
+  sessions: ActiveSessionOut[]
+  loading?: boolean
+  error?: string | null
+  onRetry?: () => void
+  // Omitted for read-only views, the current session is never revocable from the list
+  onRevoke?: (session: ActiveSessionOut) => void
+  revokingId?: string | null
+}
+
+const DEVICE_ICONS: Record<string, string> = {
+  desktop: 'solar:monitor-outline',
+  mobile: 'solar:smartphone-outline',
+  tablet: 'solar:tablet-outline'
+}
+
+const describeSession = (session: ActiveSessionOut) => {
+  const browser = [session.browser, session.os].filter(Boolean).join(' on ')
+  return session.device ? `${session.device}${browser ? ` · ${browser}` : ''}` : browser || 'Unknown device'
+}
+
+/**
+ * Devices an account is signed in on, most recently active first
+ */
+const ActiveSessionsList: React.FC<ActiveSessionsListProps> = ({ sessions, loading = false, error, onRetry, onRevoke, revokingId }) => {
+  const { timezone } = useTimezone()
+
+  if (loading && sessions.length === 0) {
+    return (
+      <div className="text-center py-3">
+        <span className="spinner-border spinner-border-sm text-primary" role="status" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="d-flex justify-content-between align-items-center text-danger">
+        <span>{error}</span>
+        {onRetry && (
+          <Button size="sm" variant="outline-danger" onClick={onRetry}>
+            Retry
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  if (sessions.length === 0) {
+    return <p className="text-muted mb-0">No active sessions.</p>
+  }
+
+  const sorted = [...sessions].sort(
+    (a, b) => Number(b.current) - Number(a.current) || new Date(b.last_active_at).getTime() - new Date(a.last_active_at).getTime()
+  )
+
+  return (
+    <ul className="list-group list-group-flush">
+      {sorted.map((session) => (
+        <li key={session.id} className="list-group-item px-0 d-flex align-items-center gap-3">
+          <IconifyIcon
+            icon={DEVICE_ICONS[session.device_type ?? ''] ?? 'solar:devices-outline'}
+            width={28}
+            height={28}
+            className="text-muted flex-shrink-0"
+          />
+          <div className="flex-grow-1 min-w-0">
+            <div className="fw-medium text-truncate">
+              {describeSession(session)}
+              {session.current && (
+                <Badge bg="success" className="ms-2">
+                  This device
+                </Badge>
+              )}
+            </div>
+            <small className="text-muted d-block">
+              {[session.ip_address, session.location].filter(Boolean).join(' · ') || 'Unknown location'}
+            </small>
+            <small className="text-muted d-block">
+              Last active {formatDateTime(session.last_active_at, { timeZone: timezone })} · Signed in {formatDateTime(session.created_at, { timeZone: timezone })}
+            </small>
+          </div>
+          {onRevoke && !session.current && (
+            <Button
+              size="sm"
+              variant="outline-danger"
+              onClick={() => onRevoke(session)}
+              disabled={revokingId === session.id}
+              className="flex-shrink-0"
+            >
+              {revokingId === session.id ? <span className="spinner-border spinner-border-sm" role="status" /> : 'Sign out'}
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default ActiveSessionsList
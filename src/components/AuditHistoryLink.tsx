@@ -0,0 +1,37 @@
+'use client'
+
+import React from 'react'
+import Link from 'next/link'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import usePermission from '@/hooks/usePermission'
+import type { AuditEntityType } from '@/types/audit-log'
+
+interface AuditHistoryLinkProps {
+  entityType: AuditEntityType
+  entityId: string
+  label?: string
+}
+
+export const getAuditHistoryHref = (entityType: AuditEntityType, entityId: string) =>
+  `/audit-log?entity_type=${entityType}&entity_id=${encodeURIComponent(entityId)}`
+
+/**
+ * Small button opening the audit log filtered to one record, hidden without audit access
+ */
+const AuditHistoryLink: React.FC<AuditHistoryLinkProps> = ({ entityType, entityId, label }) => {
+  const canReadAuditLog = usePermission('audit-log:read')
+  if (!canReadAuditLog) return null
+
+  return (
+    <Link
+      href={getAuditHistoryHref(entityType, entityId)}
+      className="btn btn-sm btn-outline-secondary d-inline-flex align-items-center gap-1"
+      title="View change history"
+    >
+      <IconifyIcon icon="solar:history-outline" width={16} height={16} />
+      {label}
+    </Link>
+  )
+}
+
+export default AuditHistoryLink
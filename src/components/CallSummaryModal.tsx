@@ -0,0 +1,156 @@
+'use client'
+
+import React from 'react'
+import Link from 'next/link'
+import { Badge, Button, Col, Modal, ModalBody, ModalFooter, ModalHeader, ModalTitle, Row } from 'react-bootstrap'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useTimezone } from '@/context/useTimezoneContext'
+import { formatCallDate, formatCallDuration, isUrgentSummary } from '@/helpers/summary'
+import usePermission from '@/hooks/usePermission'
+import type { CallSummary } from '@/types/summary'
+
+interface CallSummaryModalProps {
+  summary: CallSummary | null
+  show: boolean
+  onHide: () => void
+}
+
+/**
+ * Full details of one call summary: caller, timing, status, summaries, action items and incident report
+ */
+const CallSummaryModal: React.FC<CallSummaryModalProps> = ({ summary, show, onHide }) => {
+  const canContactSupport = usePermission('support:contact')
+  const { timezone } = useTimezone()
+  const conversationId = summary?.conversationId
+
+  return (
+    <Modal show={show} onHide={onHide} size="lg" scrollable>
+      <ModalHeader closeButton>
+        <ModalTitle>Call Record Details</ModalTitle>
+      </ModalHeader>
+      <ModalBody>
+        {summary && (
+          <div>
+            <Row className="mb-3">
+              <Col md={6}>
+                <h6 className="text-muted mb-1">Caller Information</h6>
+                <p className="mb-1"><strong>Name:</strong> {summary.callerName || 'N/A'}</p>
+                <p className="mb-1"><strong>Email:</strong> {summary.callerEmail || 'N/A'}</p>
+                <p className="mb-1"><strong>Phone:</strong> {summary.callerNumber || 'N/A'}</p>
+                <p className="mb-0"><strong>Caller ID:</strong> {summary.callerId || 'N/A'}</p>
+              </Col>
+              <Col md={6}>
+                <h6 className="text-muted mb-1">Call Details</h6>
+                <p className="mb-1">
+                  <strong>Start Time:</strong> {formatCallDate(summary.callStart, timezone)}
+                </p>
+                {summary.callEnd && (
+                  <p className="mb-1">
+                    <strong>End Time:</strong> {formatCallDate(summary.callEnd, timezone)}
+                  </p>
+                )}
+                <p className="mb-1">
+                  <strong>Duration:</strong> {formatCallDuration(summary.durationSeconds)}
+                </p>
+                <p className="mb-1"><strong>Call Success:</strong> {summary.callSuccess || 'N/A'}</p>
+                <p className="mb-1"><strong>Conversation ID:</strong> {summary.conversationId || 'N/A'}</p>
+                <p className="mb-0"><strong>Store Number:</strong> {summary.storeNumber || 'N/A'}</p>
+              </Col>
+            </Row>
+
+            <hr />
+
+            <Row className="mb-3">
+              <Col xs={12}>
+                <h6 className="text-muted mb-2">Status</h6>
+                <div className="d-flex gap-2 mb-2">
+                  <Badge bg={summary.isRead ? 'success' : 'warning'}>
+                    {summary.isRead ? 'Read' : 'Unread'}
+                  </Badge>
+                  {summary.actionFlag && (
+                    <Badge bg={summary.actionStatus === 'Done' ? 'success' : 'danger'}>
+                      Action: {summary.actionStatus || 'Pending'}
+                    </Badge>
+                  )}
+                  {isUrgentSummary(summary) && <Badge bg="danger">Urgent</Badge>}
+                </div>
+              </Col>
+            </Row>
+
+            {summary.briefSummary && (
+              <>
+                <h6 className="text-muted mb-2">Brief Summary</h6>
+                <p className="mb-3">{summary.briefSummary}</p>
+              </>
+            )}
+
+            {summary.detailedSummary && (
+              <>
+                <h6 className="text-muted mb-2">Detailed Summary</h6>
+                <p className="mb-3">{summary.detailedSummary}</p>
+              </>
+            )}
+
+            {summary.questions.length > 0 && (
+              <>
+                <h6 className="text-muted mb-2">Questions Asked During Call</h6>
+                <ul className="mb-3">
+                  {summary.questions.map((q, idx) => (
+                    <li key={idx}>{q}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {summary.actionItems.length > 0 && (
+              <>
+                <h6 className="text-muted mb-2">Action Items</h6>
+                <ul className="mb-3">
+                  {summary.actionItems.map((item, idx) => (
+                    <li key={idx}>{item}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {summary.incidentReport && (
+              <>
+                <h6 className="text-muted mb-2">Incident Report</h6>
+                <p className="mb-3">{summary.incidentReport}</p>
+              </>
+            )}
+
+            {summary.recordingLink && (
+              <div className="mt-3">
+                <a
+                  href={summary.recordingLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="btn btn-primary"
+                >
+                  <IconifyIcon icon="solar:play-outline" width={20} height={20} className="me-2" />
+                  Play Recording
+                </a>
+              </div>
+            )}
+          </div>
+        )}
+      </ModalBody>
+      <ModalFooter>
+        {canContactSupport && conversationId && (
+          <Link
+            href={`/contact-support?conversation_id=${encodeURIComponent(conversationId)}`}
+            className="btn btn-outline-secondary me-auto"
+          >
+            Report a problem with this call
+          </Link>
+        )}
+        <Button variant="secondary" onClick={onHide}>
+          Close
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
+
+export default CallSummaryModal
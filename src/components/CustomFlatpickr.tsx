@@ -4,15 +4,23 @@ import 'flatpickr/dist/themes/light.css'
 
 type FlatpickrProps = {
   className?: string
-  value?: Date | [Date, Date]
+  value?: Date | Date[]
   options?: any
   placeholder?: string
+  onChange?: (dates: Date[]) => void
 }
 
-const CustomFlatpickr = ({ className, value, options, placeholder }: FlatpickrProps) => {
+const CustomFlatpickr = ({ className, value, options, placeholder, onChange }: FlatpickrProps) => {
   return (
     <>
-      <Flatpickr className={className} data-enable-time value={value} options={options} placeholder={placeholder} />
+      <Flatpickr
+        className={className}
+        data-enable-time
+        value={value}
+        options={options}
+        placeholder={placeholder}
+        onChange={onChange ? (dates) => onChange(dates) : undefined}
+      />
     </>
   )
 }
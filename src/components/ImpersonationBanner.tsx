@@ -0,0 +1,47 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useAuth } from '@/context/useAuthContext'
+
+/**
+ * Pinned notice shown while an admin is acting as another user, with the way back
+ */
+const ImpersonationBanner: React.FC = () => {
+  const { user, impersonator, stopImpersonation } = useAuth()
+  const [returning, setReturning] = useState(false)
+
+  if (!impersonator || !user) return null
+
+  const handleReturn = async () => {
+    setReturning(true)
+    const result = await stopImpersonation()
+    if (!result.success) {
+      toast.error(result.error)
+      setReturning(false)
+    }
+  }
+
+  return (
+    <div
+      className="position-fixed bottom-0 start-0 end-0 bg-warning text-dark px-3 py-2 d-flex flex-wrap align-items-center justify-content-center gap-3 shadow"
+      style={{ zIndex: 1090 }}
+      role="status"
+    >
+      <span className="d-flex align-items-center gap-2">
+        <IconifyIcon icon="solar:eye-outline" width={20} height={20} />
+        <span>
+          Viewing as <strong>{user.username}</strong> ({user.email}). Signed in as {impersonator.username}.
+        </span>
+      </span>
+      <Button size="sm" variant="dark" onClick={handleReturn} disabled={returning}>
+        {returning && <span className="spinner-border spinner-border-sm me-2" role="status" />}
+        Return to admin
+      </Button>
+    </div>
+  )
+}
+
+export default ImpersonationBanner
@@ -0,0 +1,30 @@
+'use client'
+
+import React from 'react'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { PASSWORD_REQUIREMENTS } from '@/helpers/password'
+
+interface PasswordRequirementsProps {
+  password: string
+}
+
+/**
+ * Live checklist of the password rules, ticked off as the user types
+ */
+const PasswordRequirements: React.FC<PasswordRequirementsProps> = ({ password }) => {
+  return (
+    <ul className="list-unstyled small mb-0">
+      {PASSWORD_REQUIREMENTS.map((requirement) => {
+        const met = requirement.test(password || '')
+        return (
+          <li key={requirement.key} className={`d-flex align-items-center gap-1 ${met ? 'text-success' : 'text-muted'}`}>
+            <IconifyIcon icon={met ? 'solar:check-circle-bold' : 'solar:close-circle-outline'} width={14} height={14} />
+            {requirement.label}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default PasswordRequirements
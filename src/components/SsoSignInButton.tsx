@@ -0,0 +1,77 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { getProviders, signIn } from 'next-auth/react'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { SSO_CALLBACK_PATH, SSO_ERRORS, SSO_PROVIDER_ID } from '@/helpers/route-access'
+
+interface SsoSignInButtonProps {
+  portal: 'admin' | 'user'
+  disabled?: boolean
+}
+
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  [SSO_ERRORS.notProvisioned]: 'No account is linked to this identity. Ask an administrator for access.',
+  [SSO_ERRORS.notStaff]: 'This account cannot sign in to the admin portal.',
+  AccessDenied: 'Your account is not allowed to sign in.',
+}
+
+/**
+ * Message for the `error` query parameter set when single sign-on fails, null without one
+ */
+export const getSsoErrorMessage = (code?: string) => {
+  if (!code) return null
+  return SSO_ERROR_MESSAGES[code] ?? 'Single sign-on failed. Please try again.'
+}
+
+/**
+ * "Continue with SSO" below the password form, rendered only when an identity provider is configured
+ */
+const SsoSignInButton: React.FC<SsoSignInButtonProps> = ({ portal, disabled = false }) => {
+  const [providerName, setProviderName] = useState<string | null>(null)
+  const [redirecting, setRedirecting] = useState(false)
+
+  useEffect(() => {
+    let active = true
+    getProviders()
+      .then((providers) => {
+        if (active) setProviderName(providers?.[SSO_PROVIDER_ID]?.name ?? null)
+      })
+      .catch(() => {
+        // SSO simply stays hidden when the providers can't be listed
+      })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  if (!providerName) return null
+
+  const handleClick = () => {
+    setRedirecting(true)
+    signIn(SSO_PROVIDER_ID, { callbackUrl: `${SSO_CALLBACK_PATH}?portal=${portal}` })
+  }
+
+  return (
+    <>
+      <div className="d-flex align-items-center gap-2 my-3 text-muted small">
+        <hr className="flex-grow-1 my-0" />
+        or
+        <hr className="flex-grow-1 my-0" />
+      </div>
+      <div className="d-grid">
+        <button
+          type="button"
+          className="btn btn-outline-dark btn-lg fw-medium d-inline-flex align-items-center justify-content-center gap-2"
+          onClick={handleClick}
+          disabled={disabled || redirecting}
+        >
+          <IconifyIcon icon="solar:key-minimalistic-square-outline" width={20} height={20} />
+          {redirecting ? 'Redirecting...' : `Continue with ${providerName}`}
+        </button>
+      </div>
+    </>
+  )
+}
+
+export default SsoSignInButton
@@ -0,0 +1,99 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Form } from 'react-bootstrap'
+
+interface TwoFactorCodeFormProps {
+  onVerify: (code: string, isRecoveryCode: boolean) => Promise<void>
+  onCancel: () => void
+  submitting?: boolean
+  submitLabel?: string
+  buttonClassName?: string
+}
+
+const TOTP_PATTERN = /^\d{6}$/
+
+/**
+ * Second sign-in step: a 6-digit authenticator code, or one of the recovery codes
+ */
+const TwoFactorCodeForm: React.FC<TwoFactorCodeFormProps> = ({
+  onVerify,
+  onCancel,
+  submitting = false,
+  submitLabel = 'Verify',
+  buttonClassName = 'btn btn-dark btn-lg fw-medium',
+}) => {
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const value = useRecoveryCode ? code.trim() : code.replace(/\s/g, '')
+
+    if (useRecoveryCode ? !value : !TOTP_PATTERN.test(value)) {
+      setError(useRecoveryCode ? 'Please enter a recovery code' : 'Enter the 6-digit code from your authenticator app')
+      return
+    }
+
+    setError(null)
+    await onVerify(value, useRecoveryCode)
+    setCode('')
+  }
+
+  const toggleRecoveryCode = (event: React.MouseEvent) => {
+    event.preventDefault()
+    setUseRecoveryCode((prev) => !prev)
+    setCode('')
+    setError(null)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4" noValidate>
+      <Form.Group className="mb-3" controlId="two-factor-code">
+        <Form.Label>{useRecoveryCode ? 'Recovery code' : 'Authentication code'}</Form.Label>
+        <Form.Control
+          value={code}
+          onChange={(event) => {
+            setCode(event.target.value)
+            setError(null)
+          }}
+          placeholder={useRecoveryCode ? 'xxxx-xxxx' : '123456'}
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          maxLength={useRecoveryCode ? 32 : 7}
+          autoFocus
+          isInvalid={!!error}
+        />
+        <Form.Control.Feedback type="invalid">{error}</Form.Control.Feedback>
+        <Form.Text className="text-muted">
+          {useRecoveryCode
+            ? 'Each recovery code can only be used once.'
+            : 'Open your authenticator app and enter the current code.'}
+        </Form.Text>
+      </Form.Group>
+      <div className="d-grid mb-3">
+        <button className={buttonClassName} type="submit" disabled={submitting}>
+          {submitting ? 'Verifying...' : submitLabel}
+        </button>
+      </div>
+      <div className="d-flex justify-content-between small">
+        <a href="#" onClick={toggleRecoveryCode} className="text-decoration-none">
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </a>
+        <a
+          href="#"
+          onClick={(event) => {
+            event.preventDefault()
+            onCancel()
+          }}
+          className="text-decoration-none text-muted"
+        >
+          Start over
+        </a>
+      </div>
+    </form>
+  )
+}
+
+export default TwoFactorCodeForm
@@ -8,7 +8,6 @@ import IconifyIcon from '@/components/wrapper/IconifyIcon'
 interface VoiceSelectorProps {
   value: string
   onChange: (voiceId: string) => void
-  token: string | null
   isInvalid?: boolean
   errorMessage?: string
 }
@@ -16,7 +15,6 @@ interface VoiceSelectorProps {
 const VoiceSelector: React.FC<VoiceSelectorProps> = ({
   value,
   onChange,
-  token,
   isInvalid,
   errorMessage
 }) => {
@@ -27,12 +25,12 @@ const VoiceSelector: React.FC<VoiceSelectorProps> = ({
   const audioRef = useRef<HTMLAudioElement | null>(null)
   const selectedVoice = value ? getVoiceById(value) : null
 
-  // Fetch voices on mount if token is available and voices are not loaded
+  // Fetch voices on mount if they are not loaded yet
   useEffect(() => {
-    if (token && voices.length === 0 && !isLoading) {
-      fetchVoices(token)
+    if (voices.length === 0 && !isLoading) {
+      fetchVoices()
     }
-  }, [token, voices.length, isLoading, fetchVoices])
+  }, [voices.length, isLoading, fetchVoices])
 
   // Filter voices based on search
   const filteredVoices = voices.filter((voice) => {
@@ -50,8 +48,8 @@ const VoiceSelector: React.FC<VoiceSelectorProps> = ({
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value)
-    if (e.target.value.trim() && token) {
-      fetchVoices(token, e.target.value.trim())
+    if (e.target.value.trim()) {
+      fetchVoices(e.target.value.trim())
     }
   }
 
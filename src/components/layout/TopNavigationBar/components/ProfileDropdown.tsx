@@ -3,10 +3,11 @@ import avatar1 from '@/assets/images/users/avatar-1.jpg'
 import IconifyIcon from '@/components/wrapper/IconifyIcon'
 import { useAuth } from '@/context/useAuthContext'
 import Image from 'next/image'
+import Link from 'next/link'
 import { Dropdown, DropdownHeader, DropdownItem, DropdownMenu, DropdownToggle } from 'react-bootstrap'
 
 const ProfileDropdown = () => {
-  const { user, signOut } = useAuth()
+  const { user, signOut, lock } = useAuth()
 
   const handleLogout = (e: React.MouseEvent) => {
     e.preventDefault()
@@ -42,9 +43,9 @@ const ProfileDropdown = () => {
             </div>
           )}
         </DropdownHeader>
-        <DropdownItem href="">
+        <DropdownItem as={Link} href="/account-settings">
           <IconifyIcon icon="solar:user-outline" className="align-middle me-2 fs-18" />
-          <span className="align-middle">My Account</span>
+          <span className="align-middle">Account Settings</span>
         </DropdownItem>
         <DropdownItem href="">
           <IconifyIcon icon="solar:wallet-outline" className="align-middle me-2 fs-18" />
@@ -54,7 +55,7 @@ const ProfileDropdown = () => {
           <IconifyIcon icon="solar:help-outline" className="align-middle me-2 fs-18" />
           <span className="align-middle">Help</span>
         </DropdownItem>
-        <DropdownItem href="/auth/lock-screen">
+        <DropdownItem onClick={lock}>
           <IconifyIcon icon="solar:lock-keyhole-outline" className="align-middle me-2 fs-18" />
           <span className="align-middle">Lock screen</span>
         </DropdownItem>
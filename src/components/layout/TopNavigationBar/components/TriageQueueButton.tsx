@@ -0,0 +1,35 @@
+'use client'
+import IconifyIcon from '@/components/wrapper/IconifyIcon'
+import { useTriage } from '@/context/useTriageContext'
+import usePermission from '@/hooks/usePermission'
+import Link from 'next/link'
+import React from 'react'
+
+const TriageQueueButton = () => {
+  const canReadTriage = usePermission('triage:read')
+  const { counts } = useTriage()
+
+  if (!canReadTriage) return null
+
+  const open = counts?.open ?? 0
+  const overdue = counts?.overdue ?? 0
+  const title = overdue > 0 ? `${open} urgent calls, ${overdue} past the response window` : `${open} urgent calls`
+
+  return (
+    <div className="topbar-item">
+      <Link href="/triage" className="topbar-button position-relative" title={title}>
+        <IconifyIcon icon="solar:siren-rounded-outline" className="fs-22 align-middle" />
+        {open > 0 && (
+          <span
+            className={`position-absolute topbar-badge fs-10 translate-middle badge rounded-pill ${overdue > 0 ? 'bg-danger' : 'bg-warning'}`}
+          >
+            {open > 99 ? '99+' : open}
+            <span className="visually-hidden">{title}</span>
+          </span>
+        )}
+      </Link>
+    </div>
+  )
+}
+
+export default TriageQueueButton
@@ -4,6 +4,7 @@ import ThemeModeToggle from './components/ThemeModeToggle'
 import { Container } from 'react-bootstrap'
 import IconifyIcon from '@/components/wrapper/IconifyIcon'
 import Notifications from './components/Notifications'
+import TriageQueueButton from './components/TriageQueueButton'
 
 const page = () => {
   return (
@@ -22,6 +23,7 @@ const page = () => {
             </div>
             <div className="d-flex align-items-center gap-2">
               <ThemeModeToggle />
+              <TriageQueueButton />
               <Notifications />
               <ProfileDropdown />
             </div>
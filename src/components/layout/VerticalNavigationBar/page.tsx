@@ -5,10 +5,16 @@ import { getMenuItems } from '@/helpers/Manu'
 import SimplebarReactClient from '@/components/wrapper/SimplebarReactClient'
 import LogoBox from '@/components/wrapper/LogoBox'
 import { useAuth } from '@/context/useAuthContext'
+import { useUnreadCalls } from '@/context/useUnreadCallsContext'
 
 const Page = () => {
   const { user } = useAuth()
-  const menuItems = getMenuItems(user?.role || null)
+  const { unreadCount } = useUnreadCalls()
+  const menuItems = getMenuItems(user?.role || null).map((item) =>
+    item.key === 'call-records' && unreadCount
+      ? { ...item, badge: { variant: 'danger', text: unreadCount > 99 ? '99+' : String(unreadCount) } }
+      : item
+  )
   return (
     <div className="app-sidebar">
       <LogoBox />
@@ -17,7 +17,7 @@ import {
 } from 'react-bootstrap'
 import IconifyIcon from '@/components/wrapper/IconifyIcon'
 import useLocalStorage from '@/hooks/useLocalStorage'
-import type { DataTableProps, DataTableColumn } from './types'
+import type { DataTableProps, DataTableColumn, DataTableRowKey } from './types'
 
 const DEFAULT_PAGE_SIZES = [10, 25, 50, 100]
 
@@ -25,12 +25,43 @@ const DEFAULT_MIN_WIDTH = 1200
 
 const getWidth = <T,>(column: DataTableColumn<T>) => column.width ?? column.minWidth ?? 150
 
+// The selection checkbox column, always pinned to the left edge
+const SELECTION_COLUMN_WIDTH = 48
+
 const getAlignmentClass = (align?: 'left' | 'center' | 'right') => {
   if (align === 'center') return 'text-center'
   if (align === 'right') return 'text-end'
   return ''
 }
 
+const SelectAllCheckbox = ({
+  checked,
+  indeterminate,
+  disabled,
+  onChange
+}: {
+  checked: boolean
+  indeterminate: boolean
+  disabled: boolean
+  onChange: (checked: boolean) => void
+}) => {
+  const ref = useRef<HTMLInputElement>(null)
+  // indeterminate has no HTML attribute, it can only be set on the element
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = indeterminate
+  }, [indeterminate])
+
+  return (
+    <Form.Check
+      ref={ref}
+      aria-label="Select all rows on this page"
+      checked={checked}
+      disabled={disabled}
+      onChange={(event) => onChange(event.target.checked)}
+    />
+  )
+}
+
 function DataTable<T>({
   id,
   title,
@@ -45,6 +76,7 @@ function DataTable<T>({
   emptyState,
   columnPanel,
   rowKey,
+  selection,
   sorting,
   stickyHeader = true,
   minTableWidth = DEFAULT_MIN_WIDTH,
@@ -151,6 +183,14 @@ function DataTable<T>({
     [columns, columnVisibility]
   )
 
+  // Report changes by key list, columns is usually rebuilt on every render of the parent
+  const visibleKeys = visibleColumns.map((column) => column.key).join(',')
+  const onVisibilityChangeRef = useRef(columnPanel?.onVisibilityChange)
+  onVisibilityChangeRef.current = columnPanel?.onVisibilityChange
+  useEffect(() => {
+    onVisibilityChangeRef.current?.(visibleKeys ? visibleKeys.split(',') : [])
+  }, [visibleKeys])
+
   const columnOrder = useMemo(() => columns.map((column) => column.key), [columns])
 
   const maxSticky = columnPanel?.maxSticky ?? 4
@@ -162,7 +202,7 @@ function DataTable<T>({
   const getStickyOffset = (columnKey: string, side: 'left' | 'right') => {
     const widthFor = (key: string) => getWidth(columnLookup[key])
     if (side === 'left') {
-      let offset = 0
+      let offset = selection ? SELECTION_COLUMN_WIDTH : 0
       // Iterate through visible columns in order
       for (const column of visibleColumns) {
         if (column.key === columnKey) break
@@ -257,6 +297,49 @@ function DataTable<T>({
     setColumnVisibility(next)
   }
 
+  const pageRowKeys = useMemo<DataTableRowKey[]>(
+    () => (selection && rowKey ? data.map((row, index) => rowKey(row, index)) : []),
+    [selection, rowKey, data]
+  )
+  const selectedOnPage = selection ? pageRowKeys.filter((key) => selection.selectedKeys.includes(key)).length : 0
+  const allOnPageSelected = pageRowKeys.length > 0 && selectedOnPage === pageRowKeys.length
+
+  const handleSelectPage = (checked: boolean) => {
+    if (!selection) return
+    const others = selection.selectedKeys.filter((key) => !pageRowKeys.includes(key))
+    selection.onChange(checked ? [...others, ...pageRowKeys] : others)
+  }
+
+  const handleSelectRow = (key: DataTableRowKey, checked: boolean) => {
+    if (!selection) return
+    selection.onChange(checked ? [...selection.selectedKeys, key] : selection.selectedKeys.filter((item) => item !== key))
+  }
+
+  const selectionCellStyle = (isHeader: boolean): CSSProperties => ({
+    width: SELECTION_COLUMN_WIDTH,
+    minWidth: SELECTION_COLUMN_WIDTH,
+    maxWidth: SELECTION_COLUMN_WIDTH,
+    padding: isHeader ? '1rem 0.75rem' : '0.85rem 0.75rem',
+    position: 'sticky',
+    left: 0,
+    zIndex: isHeader ? 103 : 101,
+    borderBottom: isHeader ? 'none' : '1px solid var(--bs-border-color)',
+    verticalAlign: 'middle'
+  })
+
+  const renderBulkActions = () => {
+    if (!selection || selection.selectedKeys.length === 0) return null
+    return (
+      <div className="d-flex flex-wrap align-items-center gap-2 mb-3 p-2 rounded bg-primary-subtle">
+        <span className="fw-semibold small px-1">{selection.selectedKeys.length} selected</span>
+        {selection.bulkActions}
+        <Button variant="link" size="sm" className="ms-auto" onClick={() => selection.onChange([])}>
+          Clear selection
+        </Button>
+      </div>
+    )
+  }
+
   const renderToolbar = () => {
     if (!toolbar) return null
     const { search, filters, showFilters, onToggleFilters, extra } = toolbar
@@ -616,6 +699,7 @@ function DataTable<T>({
           style={{ borderCollapse: 'separate', borderSpacing: 0, minWidth: `${minTableWidth}px` }}
         >
           <colgroup>
+            {selection && <col style={{ width: `${SELECTION_COLUMN_WIDTH}px` }} />}
             {visibleColumns.map((column) => (
               <col key={`col-${column.key}`} style={getColumnWidthStyle(column)} />
             ))}
@@ -633,14 +717,39 @@ function DataTable<T>({
                 : undefined
             }
           >
-            <tr>{visibleColumns.map((column) => renderHeaderCell(column))}</tr>
+            <tr>
+              {selection && (
+                <th style={selectionCellStyle(true)} className="sticky-column-header">
+                  <SelectAllCheckbox
+                    checked={allOnPageSelected}
+                    indeterminate={selectedOnPage > 0 && !allOnPageSelected}
+                    disabled={pageRowKeys.length === 0}
+                    onChange={handleSelectPage}
+                  />
+                </th>
+              )}
+              {visibleColumns.map((column) => renderHeaderCell(column))}
+            </tr>
           </thead>
           <tbody>
-            {data.map((row, rowIndex) => (
-              <tr key={rowKey ? rowKey(row, rowIndex) : `${id}-${rowIndex}`}>
-                {visibleColumns.map((column) => renderBodyCell(row, rowIndex, column))}
-              </tr>
-            ))}
+            {data.map((row, rowIndex) => {
+              const key = rowKey ? rowKey(row, rowIndex) : `${id}-${rowIndex}`
+              const selected = !!selection?.selectedKeys.includes(key)
+              return (
+                <tr key={key} className={selected ? 'table-active' : undefined}>
+                  {selection && (
+                    <td style={selectionCellStyle(false)} className="sticky-column-cell">
+                      <Form.Check
+                        aria-label="Select row"
+                        checked={selected}
+                        onChange={(event) => handleSelectRow(key, event.target.checked)}
+                      />
+                    </td>
+                  )}
+                  {visibleColumns.map((column) => renderBodyCell(row, rowIndex, column))}
+                </tr>
+              )
+            })}
           </tbody>
         </BootstrapTable>
       </div>
@@ -803,6 +912,7 @@ function DataTable<T>({
 
         {!loading && !error && (
           <>
+            {renderBulkActions()}
             {renderTable()}
             {renderPagination()}
           </>
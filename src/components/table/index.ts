@@ -6,6 +6,8 @@ export type {
   DataTableFilterControl,
   DataTablePaginationConfig,
   DataTableEmptyState,
+  DataTableRowKey,
+  DataTableSelectionConfig,
   SortState
 } from './types'
 
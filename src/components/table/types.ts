@@ -116,6 +116,21 @@ export type DataTableColumnPanelConfig = {
   enableColumnVisibility?: boolean
   enableSticky?: boolean
   maxSticky?: number
+  /**
+   * Called with the visible column keys on mount and whenever they change
+   */
+  onVisibilityChange?: (visibleKeys: string[]) => void
+}
+
+export type DataTableRowKey = string | number
+
+export type DataTableSelectionConfig = {
+  selectedKeys: DataTableRowKey[]
+  onChange: (keys: DataTableRowKey[]) => void
+  /**
+   * Buttons shown above the table while any rows are selected
+   */
+  bulkActions?: ReactNode
 }
 
 export type DataTableProps<T> = {
@@ -133,7 +148,11 @@ export type DataTableProps<T> = {
   pagination?: DataTablePaginationConfig
   emptyState?: DataTableEmptyState
   columnPanel?: DataTableColumnPanelConfig
-  rowKey?: (row: T, index: number) => string | number
+  rowKey?: (row: T, index: number) => DataTableRowKey
+  /**
+   * Adds a checkbox column for picking rows, requires rowKey
+   */
+  selection?: DataTableSelectionConfig
   sorting?: {
     state: SortState
     onToggle: (columnKey: string) => void
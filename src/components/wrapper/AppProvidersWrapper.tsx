@@ -1,5 +1,6 @@
 'use client'
 import { SessionProvider } from 'next-auth/react'
+import { SSO_BASE_PATH } from '@/helpers/route-access'
 import { ToastContainer } from 'react-toastify'
 import dynamic from 'next/dynamic'
 const LayoutProvider = dynamic(() => import('@/context/useLayoutContext').then((mod) => mod.LayoutProvider), {
@@ -7,21 +8,30 @@ const LayoutProvider = dynamic(() => import('@/context/useLayoutContext').then((
 })
 import { AuthProvider } from '@/context/useAuthContext'
 import { NotificationProvider } from '@/context/useNotificationContext'
+import { TimezoneProvider } from '@/context/useTimezoneContext'
+import { TriageProvider } from '@/context/useTriageContext'
+import { UnreadCallsProvider } from '@/context/useUnreadCallsContext'
 import { VoicesProvider } from '@/context/useVoicesContext'
 import { ChildrenType } from '@/types/component-props'
 
 const AppProvidersWrapper = ({ children }: ChildrenType) => {
   return (
-    <SessionProvider>
+    <SessionProvider basePath={SSO_BASE_PATH}>
       <AuthProvider>
-        <VoicesProvider>
-          <LayoutProvider>
-            <NotificationProvider>
-              {children}
-              <ToastContainer theme="colored" />
-            </NotificationProvider>
-          </LayoutProvider>
-        </VoicesProvider>
+        <TimezoneProvider>
+          <VoicesProvider>
+            <TriageProvider>
+              <UnreadCallsProvider>
+                <LayoutProvider>
+                  <NotificationProvider>
+                    {children}
+                    <ToastContainer theme="colored" />
+                  </NotificationProvider>
+                </LayoutProvider>
+              </UnreadCallsProvider>
+            </TriageProvider>
+          </VoicesProvider>
+        </TimezoneProvider>
       </AuthProvider>
     </SessionProvider>
   )
@@ -19,4 +19,18 @@ export const DEFAULT_PAGE_TITLE = ' DropDown | Taplox - Responsive Admin dashboa
 // Replace the URL's value in env with your backend's URL or if you're using nextjs's API, add the server's origin URL
 export const API_BASE_PATH = ''
 
+const DEFAULT_IDLE_LOCK_MINUTES = 15
+// setTimeout fires straight away for delays above 2^31 - 1 ms
+const MAX_IDLE_LOCK_MINUTES = Math.floor((2 ** 31 - 1) / 60000)
+
+const parseIdleLockMinutes = (value: string | undefined) => {
+  const minutes = parseFloat(value ?? '')
+  if (!Number.isFinite(minutes)) return DEFAULT_IDLE_LOCK_MINUTES
+  return minutes <= 0 ? 0 : Math.min(minutes, MAX_IDLE_LOCK_MINUTES)
+}
+
+// Minutes without user activity before the session is locked, set NEXT_PUBLIC_IDLE_LOCK_MINUTES=0 (or less) to disable.
+// Values that aren't a number fall back to the default, ones too large for a timer are capped
+export const IDLE_LOCK_MINUTES = parseIdleLockMinutes(process.env.NEXT_PUBLIC_IDLE_LOCK_MINUTES)
+
 export const colorVariants = ['primary', 'secondary', 'success', 'info', 'warning', 'dark', 'purple', 'pink', 'orange', 'light', 'link']
@@ -1,41 +1,103 @@
 'use client'
 
-import React, { createContext, useContext, useEffect, useState } from 'react'
-import { useRouter } from 'next/navigation'
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import { IDLE_LOCK_MINUTES } from '@/context/constants'
+import { isStaffRole } from '@/helpers/permissions'
+import { LOCK_SCREEN_PATH } from '@/helpers/route-access'
+import { apiClient } from '@/lib/api-client'
+import { authChannel } from '@/lib/auth-channel'
 import { authApi } from '@/lib/auth-api'
 import { authStorage } from '@/lib/auth-storage'
-import type { UserOut, SignInRequest, SignUpRequest, SignupOTPRequestOut, TokenOut } from '@/types/auth'
+import type {
+  CurrentSessionOut,
+  UserOut,
+  SignInRequest,
+  SignUpRequest,
+  SignupOTPRequestOut,
+  TwoFactorChallengeOut,
+} from '@/types/auth'
+
+// A challenge means the password was accepted and an authenticator code is needed next
+type SignInResult = { success: boolean; error?: string; challenge?: TwoFactorChallengeOut }
 
 interface AuthContextType {
   user: UserOut | null
-  token: string | null
+  // Admin acting as `user`, null outside impersonation
+  impersonator: UserOut | null
   isLoading: boolean
   isAuthenticated: boolean
-  signIn: (data: SignInRequest, isAdmin?: boolean) => Promise<{ success: boolean; error?: string }>
+  isLocked: boolean
+  signIn: (data: SignInRequest, isAdmin?: boolean, redirectTo?: string) => Promise<SignInResult>
+  verifyTwoFactor: (
+    challenge: TwoFactorChallengeOut,
+    code: string,
+    isRecoveryCode?: boolean
+  ) => Promise<{ success: boolean; error?: string }>
+  completeSsoSignIn: () => Promise<{ success: boolean; error?: string }>
   signUp: (data: SignUpRequest, isAdmin?: boolean) => Promise<{ success: boolean; error?: string; data?: SignupOTPRequestOut }>
+  verifySignupOtp: (email: string, otp: string) => Promise<{ success: boolean; error?: string; expired?: boolean }>
   signOut: () => void
+  lock: () => void
+  unlock: (password: string) => Promise<SignInResult>
+  startImpersonation: (target: UserOut) => Promise<{ success: boolean; error?: string }>
+  stopImpersonation: () => Promise<{ success: boolean; error?: string }>
   refreshUser: () => Promise<void>
 }
 
+// Interactions that count as activity for the idle lock
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const
+
+// Activity is shared with other tabs at most this often so one busy tab keeps them all unlocked
+const ACTIVITY_BROADCAST_INTERVAL_MS = 30 * 1000
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<UserOut | null>(null)
-  const [token, setToken] = useState<string | null>(null)
+  const [impersonator, setImpersonator] = useState<UserOut | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  // Route to return to once unlocked, null while the session is not locked
+  const [lockedReturnTo, setLockedReturnTo] = useState<string | null>(null)
+  // Bumped when the session switches to another user, remounting the page so no stale data survives
+  const [sessionKey, setSessionKey] = useState(0)
+  // Where to go once a pending 2FA challenge is answered
+  const twoFactorRedirectRef = useRef<string | undefined>(undefined)
   const router = useRouter()
+  const pathname = usePathname()
+
+  // Renew the HttpOnly session cookies through the route handlers
+  const refreshSession = useCallback(async (): Promise<boolean> => {
+    const response = await authApi.refreshToken()
+    if (response.error || !response.data) return false
 
-  // Initialize auth state from localStorage
+    if (response.data.user) {
+      authStorage.saveUser(response.data.user)
+      setUser(response.data.user)
+    }
+    authChannel.post({ type: 'session-refreshed', user: response.data.user })
+
+    return true
+  }, [])
+
+  // Initialize auth state from the session cookie
   useEffect(() => {
-    const initAuth = () => {
-      const storedToken = authStorage.getToken()
-      const storedUser = authStorage.getUser()
+    const initAuth = async () => {
+      const response = await authApi.getSession()
 
-      if (storedToken && storedUser && !authStorage.isTokenExpired()) {
-        setToken(storedToken)
-        setUser(storedUser)
-      } else {
+      if (response.data) {
+        authStorage.saveUser(response.data.user)
+        authStorage.saveImpersonator(response.data.impersonator)
+        setUser(response.data.user)
+        setImpersonator(response.data.impersonator)
+        setLockedReturnTo(authStorage.getLock()?.returnTo ?? null)
+      } else if (response.status === 401) {
         authStorage.clearAuth()
+      } else {
+        // Keep the cached profile when the session could not be checked (e.g. offline)
+        setUser(authStorage.getUser())
+        setImpersonator(authStorage.getImpersonator())
+        setLockedReturnTo(authStorage.getLock()?.returnTo ?? null)
       }
 
       setIsLoading(false)
@@ -44,10 +106,25 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     initAuth()
   }, [])
 
+  const startSession = (sessionUser: UserOut, redirectTo: string = '/dashboards') => {
+    // Tokens are already in HttpOnly cookies, only the profile is kept client-side
+    authStorage.saveUser(sessionUser)
+    authStorage.saveImpersonator(null)
+    authStorage.clearLock()
+    setUser(sessionUser)
+    setImpersonator(null)
+    setLockedReturnTo(null)
+    authChannel.post({ type: 'signed-in', user: sessionUser })
+
+    // Both roles land on the dashboard unless returning from the lock screen
+    router.push(redirectTo)
+  }
+
   const signIn = async (
     data: SignInRequest,
-    isAdmin: boolean = false
-  ): Promise<{ success: boolean; error?: string }> => {
+    isAdmin: boolean = false,
+    redirectTo?: string
+  ): Promise<SignInResult> => {
     try {
       setIsLoading(true)
 
@@ -62,25 +139,51 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
       }
 
-      const tokenData = response.data as TokenOut
+      if ('two_factor_required' in response.data) {
+        twoFactorRedirectRef.current = redirectTo
+        return { success: false, challenge: response.data }
+      }
+
+      startSession(response.data.user, redirectTo)
+
+      return { success: true }
+    } catch (error) {
+      console.error('Sign in error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An error occurred',
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
 
-      // Save to localStorage
-      authStorage.saveAuth(tokenData)
+  const verifyTwoFactor = async (
+    challenge: TwoFactorChallengeOut,
+    code: string,
+    isRecoveryCode: boolean = false
+  ): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setIsLoading(true)
 
-      // Update state
-      setToken(tokenData.access_token)
-      setUser(tokenData.user)
+      const response = await authApi.verifyTwoFactor({
+        challenge_token: challenge.challenge_token,
+        ...(isRecoveryCode ? { recovery_code: code } : { code }),
+      })
 
-      // Redirect based on role
-      if (tokenData.user.role === 'admin') {
-        router.push('/dashboards')
-      } else {
-        router.push('/dashboards')
+      if (response.error || !response.data) {
+        return {
+          success: false,
+          error: response.error || 'Verification failed',
+        }
       }
 
+      startSession(response.data.user, twoFactorRedirectRef.current)
+      twoFactorRedirectRef.current = undefined
+
       return { success: true }
     } catch (error) {
-      console.error('Sign in error:', error)
+      console.error('Two-factor verification error:', error)
       return {
         success: false,
         error: error instanceof Error ? error.message : 'An error occurred',
@@ -90,6 +193,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // The SSO route handler has already set the session cookies, pick up the user they belong to
+  const completeSsoSignIn = async (): Promise<{ success: boolean; error?: string }> => {
+    const response = await authApi.getSession()
+    if (response.error || !response.data) {
+      return { success: false, error: response.error || 'Single sign-on failed' }
+    }
+
+    startSession(response.data.user)
+    return { success: true }
+  }
+
   const signUp = async (
     data: SignUpRequest,
     isAdmin: boolean = false
@@ -135,32 +249,215 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  const verifySignupOtp = async (
+    email: string,
+    otp: string
+  ): Promise<{ success: boolean; error?: string; expired?: boolean }> => {
+    try {
+      const response = await authApi.verifySignupOtp({ email, otp })
+
+      if (response.error || !response.data) {
+        return {
+          success: false,
+          error: response.error || 'Verification failed',
+          // The backend answers 410 Gone once the code has expired
+          expired: response.status === 410,
+        }
+      }
+
+      startSession(response.data.user)
+
+      return { success: true }
+    } catch (error) {
+      console.error('OTP verification error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An error occurred',
+      }
+    }
+  }
+
   const signOut = () => {
-    const isAdmin = user?.role === 'admin'
+    const isAdmin = isStaffRole(user?.role)
     authStorage.clearAuth()
-    setToken(null)
     setUser(null)
+    setImpersonator(null)
+    setLockedReturnTo(null)
+    authApi.signOut()
+    authChannel.post({ type: 'signed-out' })
     router.push(isAdmin ? '/auth/admin/sign-in' : '/auth/sign-in')
   }
 
-  const refreshUser = async () => {
-    const currentToken = authStorage.getToken()
-    if (!currentToken) return
+  // ApiClient calls back into the provider to renew the session on 401,
+  // and signs out only when the session cannot be refreshed
+  const signOutRef = useRef(signOut)
+  signOutRef.current = signOut
+
+  const hasUser = !!user
+  useEffect(() => {
+    if (!hasUser) return
+    apiClient.setAuthHandlers({
+      refresh: refreshSession,
+      onRefreshFailed: () => signOutRef.current(),
+    })
+    return () => apiClient.setAuthHandlers(null)
+  }, [hasUser, refreshSession])
+
+  const lockTab = useCallback(() => {
+    const returnTo = `${window.location.pathname}${window.location.search}`
+    authStorage.saveLock(returnTo)
+    setLockedReturnTo(returnTo)
+  }, [])
+
+  const lock = useCallback(() => {
+    lockTab()
+    authChannel.post({ type: 'locked' })
+  }, [lockTab])
+
+  const unlock = async (password: string): Promise<SignInResult> => {
+    if (!user || lockedReturnTo === null) {
+      return { success: false, error: 'The session is not locked' }
+    }
+
+    // An impersonated session is unlocked by the admin, which also ends the impersonation
+    if (impersonator) {
+      return signIn({ email: impersonator.email, password }, true, '/user-management')
+    }
+
+    return signIn({ email: user.email, password }, isStaffRole(user.role), lockedReturnTo)
+  }
+
+  const isLocked = lockedReturnTo !== null
+
+  // Switch to the user (or back to the admin) returned by the impersonation route handlers
+  const applyImpersonation = useCallback((session: CurrentSessionOut) => {
+    authStorage.saveUser(session.user)
+    authStorage.saveImpersonator(session.impersonator)
+    setUser(session.user)
+    setImpersonator(session.impersonator)
+    setSessionKey((key) => key + 1)
+  }, [])
+
+  const startImpersonation = async (target: UserOut): Promise<{ success: boolean; error?: string }> => {
+    const response = await authApi.startImpersonation(target.id)
+    if (response.error || !response.data) {
+      return { success: false, error: response.error || 'Unable to impersonate this user' }
+    }
+
+    applyImpersonation(response.data)
+    authChannel.post({ type: 'impersonation-changed', ...response.data })
+    router.push('/dashboards')
+    return { success: true }
+  }
+
+  const stopImpersonation = async (): Promise<{ success: boolean; error?: string }> => {
+    const response = await authApi.stopImpersonation()
+    if (response.error || !response.data) {
+      return { success: false, error: response.error || 'Unable to return to your session' }
+    }
+
+    applyImpersonation(response.data)
+    authChannel.post({ type: 'impersonation-changed', ...response.data })
+    router.push('/user-management')
+    return { success: true }
+  }
+
+  // Lock the session after IDLE_LOCK_MINUTES without any activity
+  useEffect(() => {
+    if (!hasUser || isLocked || IDLE_LOCK_MINUTES <= 0) return
+
+    let idleTimer: ReturnType<typeof setTimeout>
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer)
+      idleTimer = setTimeout(lock, IDLE_LOCK_MINUTES * 60 * 1000)
+    }
+
+    let lastBroadcastAt = 0
+    const handleActivity = () => {
+      resetIdleTimer()
+      if (Date.now() - lastBroadcastAt >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+        lastBroadcastAt = Date.now()
+        authChannel.post({ type: 'activity' })
+      }
+    }
+
+    resetIdleTimer()
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }))
+    const unsubscribe = authChannel.subscribe((message) => {
+      if (message.type === 'activity') resetIdleTimer()
+    })
+    return () => {
+      clearTimeout(idleTimer)
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+      unsubscribe()
+    }
+  }, [hasUser, isLocked, lock])
+
+  // Apply session changes made in other tabs
+  const userRef = useRef(user)
+  userRef.current = user
+  const lockedReturnToRef = useRef(lockedReturnTo)
+  lockedReturnToRef.current = lockedReturnTo
 
+  useEffect(() => {
+    return authChannel.subscribe((message) => {
+      const currentUser = userRef.current
+
+      switch (message.type) {
+        case 'signed-in': {
+          const returnTo = lockedReturnToRef.current
+          setUser(message.user)
+          setImpersonator(null)
+          setLockedReturnTo(null)
+          if (currentUser?.id === message.user.id) {
+            // Unlocked elsewhere, pick up where this tab was left
+            if (returnTo !== null) router.replace(returnTo)
+          } else {
+            setSessionKey((key) => key + 1)
+            router.replace('/dashboards')
+          }
+          break
+        }
+        case 'impersonation-changed':
+          applyImpersonation(message)
+          router.replace(message.impersonator ? '/dashboards' : '/user-management')
+          break
+        case 'signed-out':
+          if (!currentUser) break
+          setUser(null)
+          setImpersonator(null)
+          setLockedReturnTo(null)
+          setSessionKey((key) => key + 1)
+          router.replace(isStaffRole(currentUser.role) ? '/auth/admin/sign-in' : '/auth/sign-in')
+          break
+        case 'user-updated':
+        case 'session-refreshed':
+          if (message.user && currentUser?.id === message.user.id) setUser(message.user)
+          break
+        case 'locked':
+          if (currentUser && lockedReturnToRef.current === null) lockTab()
+          break
+      }
+    })
+  }, [router, lockTab, applyImpersonation])
+
+  // Keep a locked session on the lock screen whichever route is opened
+  useEffect(() => {
+    if (isLocked && pathname !== LOCK_SCREEN_PATH) {
+      router.replace(LOCK_SCREEN_PATH)
+    }
+  }, [isLocked, pathname, router])
+
+  const refreshUser = async () => {
     try {
-      const response = await authApi.getUserProfile(currentToken)
+      const response = await authApi.getUserProfile()
       if (response.data) {
         setUser(response.data as UserOut)
         // Update stored user
-        const storedUser = authStorage.getUser()
-        if (storedUser) {
-          authStorage.saveAuth({
-            access_token: currentToken,
-            token_type: 'bearer',
-            expires_in: 3600, // Default value
-            user: response.data as UserOut,
-          })
+        if (authStorage.getUser()) {
+          authStorage.saveUser(response.data as UserOut)
         }
+        authChannel.post({ type: 'user-updated', user: response.data as UserOut })
       }
     } catch (error) {
       console.error('Error refreshing user:', error)
@@ -169,16 +466,28 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const value: AuthContextType = {
     user,
-    token,
+    impersonator,
     isLoading,
-    isAuthenticated: !!user && !!token && !authStorage.isTokenExpired(),
+    isAuthenticated: !!user,
+    isLocked,
     signIn,
+    verifyTwoFactor,
+    completeSsoSignIn,
     signUp,
+    verifySignupOtp,
     signOut,
+    lock,
+    unlock,
+    startImpersonation,
+    stopImpersonation,
     refreshUser,
   }
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+  return (
+    <AuthContext.Provider value={value}>
+      <React.Fragment key={sessionKey}>{children}</React.Fragment>
+    </AuthContext.Provider>
+  )
 }
 
 export function useAuth() {
@@ -0,0 +1,109 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { useAuth } from '@/context/useAuthContext'
+import { DEFAULT_TIME_ZONE, getBrowserTimeZone, isValidTimeZone } from '@/helpers/timezone'
+import { authApi } from '@/lib/auth-api'
+
+const STORAGE_KEY_PREFIX = 'timezone:'
+
+type TimezoneUpdateResult = { success: boolean; error?: string }
+
+interface TimezoneContextType {
+  // IANA zone every timestamp is shown in
+  timezone: string
+  // Saved to the user's profile, so it follows them to other devices
+  setTimezone: (zone: string) => Promise<TimezoneUpdateResult>
+  // Forget the saved choice and follow the browser again
+  resetTimezone: () => Promise<TimezoneUpdateResult>
+  // True while following the browser rather than a saved choice
+  isBrowserDefault: boolean
+}
+
+const TimezoneContext = createContext<TimezoneContextType | undefined>(undefined)
+
+const readCachedZone = (userId: string) => {
+  if (typeof window === 'undefined') return null
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY_PREFIX + userId)
+    return isValidTimeZone(stored) ? stored : null
+  } catch {
+    return null
+  }
+}
+
+const writeCachedZone = (userId: string, zone: string | null) => {
+  try {
+    if (zone) {
+      window.localStorage.setItem(STORAGE_KEY_PREFIX + userId, zone)
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY_PREFIX + userId)
+    }
+  } catch {
+    // Storage can be full or blocked, the profile still has the choice
+  }
+}
+
+export function TimezoneProvider({ children }: { children: React.ReactNode }) {
+  const { user, impersonator, refreshUser } = useAuth()
+  const userId = user?.id ?? ''
+  const [browserZone] = useState(() => (typeof window === 'undefined' ? DEFAULT_TIME_ZONE : getBrowserTimeZone()))
+  // A choice made in this tab, shown right away while it is being saved
+  const [chosen, setChosen] = useState<{ userId: string; zone: string | null } | null>(null)
+
+  // The profile is the source of truth, the cache covers profiles loaded without the field. Read
+  // while rendering so pages never fetch with the browser zone first
+  const profileZone = user?.timezone === undefined ? undefined : isValidTimeZone(user.timezone) ? user.timezone : null
+  let savedZone: string | null = null
+  if (chosen?.userId === userId) savedZone = chosen.zone
+  else if (profileZone !== undefined) savedZone = profileZone
+  else if (userId) savedZone = readCachedZone(userId)
+
+  // Keep the cache in line with a profile updated elsewhere, e.g. on another device
+  useEffect(() => {
+    if (userId && profileZone !== undefined) writeCachedZone(userId, profileZone)
+  }, [userId, profileZone])
+
+  const saveTimezone = useCallback(
+    async (zone: string | null): Promise<TimezoneUpdateResult> => {
+      setChosen({ userId, zone })
+      // An admin acting as someone else only changes their own view, not that user's settings
+      if (!userId || impersonator) return { success: true }
+      writeCachedZone(userId, zone)
+
+      // On failure the choice still holds for this visit
+      const response = await authApi.updateTimezone(zone)
+      if (response.error) return { success: false, error: response.error }
+
+      await refreshUser()
+      // The refreshed profile carries the choice from here on
+      setChosen(null)
+      return { success: true }
+    },
+    [userId, impersonator, refreshUser]
+  )
+
+  const setTimezone = useCallback(
+    async (zone: string) => {
+      if (!isValidTimeZone(zone)) return { success: false, error: 'Unknown time zone' }
+      return saveTimezone(zone)
+    },
+    [saveTimezone]
+  )
+
+  const resetTimezone = useCallback(() => saveTimezone(null), [saveTimezone])
+
+  return (
+    <TimezoneContext.Provider value={{ timezone: savedZone ?? browserZone, setTimezone, resetTimezone, isBrowserDefault: !savedZone }}>
+      {children}
+    </TimezoneContext.Provider>
+  )
+}
+
+export function useTimezone() {
+  const context = useContext(TimezoneContext)
+  if (context === undefined) {
+    throw new Error('useTimezone must be used within a TimezoneProvider')
+  }
+  return context
+}
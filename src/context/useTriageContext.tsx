@@ -0,0 +1,55 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { useAuth } from '@/context/useAuthContext'
+import { hasPermission } from '@/helpers/permissions'
+import { triageApi } from '@/lib/triage-api'
+import type { TriageCountOut } from '@/types/triage'
+
+// Urgent calls need attention within minutes, poll rather than wait for a page change
+const COUNT_POLL_INTERVAL_MS = 60 * 1000
+
+interface TriageContextType {
+  counts: TriageCountOut | null
+  refreshCounts: () => Promise<void>
+}
+
+const TriageContext = createContext<TriageContextType | undefined>(undefined)
+
+export function TriageProvider({ children }: { children: React.ReactNode }) {
+  const { user, isAuthenticated } = useAuth()
+  const canReadTriage = isAuthenticated && hasPermission(user?.role, 'triage:read')
+  const [counts, setCounts] = useState<TriageCountOut | null>(null)
+
+  const refreshCounts = useCallback(async () => {
+    if (!canReadTriage) return
+    try {
+      const response = await triageApi.getCount()
+      // Keep the last known counts through a failed poll
+      if (response.data) setCounts(response.data)
+    } catch (err) {
+      console.error('Error fetching triage counts:', err)
+    }
+  }, [canReadTriage])
+
+  useEffect(() => {
+    if (!canReadTriage) {
+      setCounts(null)
+      return
+    }
+
+    refreshCounts()
+    const interval = setInterval(refreshCounts, COUNT_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [canReadTriage, refreshCounts])
+
+  return <TriageContext.Provider value={{ counts, refreshCounts }}>{children}</TriageContext.Provider>
+}
+
+export function useTriage() {
+  const context = useContext(TriageContext)
+  if (context === undefined) {
+    throw new Error('useTriage must be used within a TriageProvider')
+  }
+  return context
+}
@@ -0,0 +1,57 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { useAuth } from '@/context/useAuthContext'
+import { hasPermission } from '@/helpers/permissions'
+import { summaryApi } from '@/lib/summary-api'
+
+const COUNT_POLL_INTERVAL_MS = 2 * 60 * 1000
+
+interface UnreadCallsContextType {
+  unreadCount: number | null
+  // Fetch the count right away instead of waiting for the next poll
+  refreshUnreadCount: () => Promise<void>
+}
+
+const UnreadCallsContext = createContext<UnreadCallsContextType | undefined>(undefined)
+
+export function UnreadCallsProvider({ children }: { children: React.ReactNode }) {
+  const { user, isAuthenticated } = useAuth()
+  const tracksUnread = isAuthenticated && hasPermission(user?.role, 'call-records:read')
+  const [unreadCount, setUnreadCount] = useState<number | null>(null)
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!tracksUnread) return
+    try {
+      const response = await summaryApi.getUnreadCount()
+      if (response.data) setUnreadCount(response.data.count)
+    } catch (err) {
+      console.error('Error fetching unread call count:', err)
+    }
+  }, [tracksUnread])
+
+  useEffect(() => {
+    if (!tracksUnread) {
+      setUnreadCount(null)
+      return
+    }
+
+    refreshUnreadCount()
+    const interval = setInterval(refreshUnreadCount, COUNT_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [tracksUnread, refreshUnreadCount])
+
+  return (
+    <UnreadCallsContext.Provider value={{ unreadCount, refreshUnreadCount }}>
+      {children}
+    </UnreadCallsContext.Provider>
+  )
+}
+
+export function useUnreadCalls() {
+  const context = useContext(UnreadCallsContext)
+  if (context === undefined) {
+    throw new Error('useUnreadCalls must be used within an UnreadCallsProvider')
+  }
+  return context
+}
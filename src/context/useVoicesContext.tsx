@@ -8,7 +8,7 @@ interface VoicesContextType {
   voices: Voice[]
   isLoading: boolean
   error: string | null
-  fetchVoices: (token: string, search?: string) => Promise<void>
+  fetchVoices: (search?: string) => Promise<void>
   getVoiceById: (voiceId: string) => Voice | undefined
   clearVoices: () => void
 }
@@ -20,12 +20,12 @@ export function VoicesProvider({ children }: { children: React.ReactNode }) {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const fetchVoices = useCallback(async (token: string, search?: string) => {
+  const fetchVoices = useCallback(async (search?: string) => {
     setIsLoading(true)
     setError(null)
 
     try {
-      const response = await adminAgentApi.getVoices(token, {
+      const response = await adminAgentApi.getVoices({
         limit: 1000,
         search: search || undefined
       })
@@ -1,121 +1,123 @@
 import { MENU_ITEMS } from '@/assets/data/menu-items'
+import { hasPermission } from '@/helpers/permissions'
+import type { UserRole } from '@/types/auth'
 import type { MenuItemType } from '@/types/menu'
 
-export const getMenuItems = (userRole?: 'admin' | 'user' | null): MenuItemType[] => {
+// Each entry is shown only to roles holding its permission, entries without one are shown to everyone
+const ROLE_MENU_ITEMS: MenuItemType[] = [
+  {
+    key: 'menu',
+    label: 'MENU',
+    isTitle: true,
+  },
+  {
+    key: 'dashboards',
+    label: 'Dashboard',
+    icon: 'solar:widget-2-outline',
+    url: '/dashboards',
+  },
+  {
+    key: 'agents',
+    label: 'Agents',
+    icon: 'solar:user-plus-outline',
+    url: '/agents',
+    permission: 'agents:read',
+  },
+  {
+    key: 'documents',
+    label: 'Documents',
+    icon: 'solar:document-outline',
+    url: '/documents',
+    permission: 'documents:read',
+  },
+  {
+    key: 'subscription-management',
+    label: 'Subscription Management',
+    icon: 'solar:wallet-money-outline',
+    url: '/subscription-plans',
+    permission: 'billing:read',
+  },
+  {
+    key: 'coupon-management',
+    label: 'Coupon Management',
+    icon: 'solar:ticket-sale-outline',
+    url: '/coupons',
+    permission: 'coupons:read',
+  },
+  {
+    key: 'call-records',
+    label: 'Call Records',
+    icon: 'solar:call-chat-outline',
+    url: '/call-records',
+    permission: 'call-records:read',
+  },
+  {
+    key: 'user-management',
+    label: 'User Management',
+    icon: 'solar:users-group-two-rounded-outline',
+    url: '/user-management',
+    permission: 'users:read',
+  },
+  {
+    key: 'audit-log',
+    label: 'Audit Log',
+    icon: 'solar:history-outline',
+    url: '/audit-log',
+    permission: 'audit-log:read',
+  },
+  {
+    key: 'triage',
+    label: 'Urgent Triage',
+    icon: 'solar:siren-rounded-outline',
+    url: '/triage',
+    permission: 'triage:read',
+  },
+  {
+    key: 'incident-report',
+    label: 'Incident Report',
+    icon: 'solar:document-text-outline',
+    url: '/incident-report',
+    permission: 'incidents:read',
+  },
+  {
+    key: 'action-items',
+    label: 'Action Items',
+    icon: 'solar:checklist-outline',
+    url: '/action-items',
+    permission: 'action-items:read',
+  },
+  {
+    key: 'agent-settings',
+    label: 'Agent Settings',
+    icon: 'solar:settings-outline',
+    url: '/agent-settings',
+    permission: 'agent-settings:write',
+  },
+  {
+    key: 'faqs',
+    label: 'FAQs',
+    icon: 'solar:question-circle-outline',
+    url: '/faqs',
+    permission: 'support:contact',
+  },
+  {
+    key: 'contact-support',
+    label: 'Contact Support',
+    icon: 'solar:phone-calling-outline',
+    url: '/contact-support',
+    permission: 'support:contact',
+  },
+]
+
+export const getMenuItems = (userRole?: UserRole | null): MenuItemType[] => {
   // If no role is provided, return empty menu (or default menu)
   if (!userRole) {
     return []
   }
 
-  // Admin menu items
-  if (userRole === 'admin') {
-    return [
-      {
-        key: 'menu',
-        label: 'MENU',
-        isTitle: true,
-      },
-      {
-        key: 'dashboards',
-        label: 'Dashboard',
-        icon: 'solar:widget-2-outline',
-        url: '/dashboards',
-      },
-      {
-        key: 'agents',
-        label: 'Agents',
-        icon: 'solar:user-plus-outline',
-        url: '/agents',
-      },
-      {
-        key: 'documents',
-        label: 'Documents',
-        icon: 'solar:document-outline',
-        url: '/documents',
-      },
-      {
-        key: 'subscription-management',
-        label: 'Subscription Management',
-        icon: 'solar:wallet-money-outline',
-        url: '/subscription-plans',
-      },
-      {
-        key: 'coupon-management',
-        label: 'Coupon Management',
-        icon: 'solar:ticket-sale-outline',
-        url: '/coupons',
-      },
-      {
-        key: 'call-records',
-        label: 'Call Records',
-        icon: 'solar:call-chat-outline',
-        url: '/call-records',
-      },
-      {
-        key: 'user-management',
-        label: 'User Management',
-        icon: 'solar:users-group-two-rounded-outline',
-        url: '/user-management',
-      },
-    ]
-  }
-
-  // User menu items
-  if (userRole === 'user') {
-    return [
-      {
-        key: 'menu',
-        label: 'MENU',
-        isTitle: true,
-      },
-      {
-        key: 'dashboards',
-        label: 'Dashboard',
-        icon: 'solar:widget-2-outline',
-        url: '/dashboards',
-      },
-      {
-        key: 'call-records',
-        label: 'Call Records',
-        icon: 'solar:call-chat-outline',
-        url: '/call-records',
-      },
-      {
-        key: 'incident-report',
-        label: 'Incident Report',
-        icon: 'solar:document-text-outline',
-        url: '/incident-report',
-      },
-      {
-        key: 'action-items',
-        label: 'Action Items',
-        icon: 'solar:checklist-outline',
-        url: '/action-items',
-      },
-      {
-        key: 'agent-settings',
-        label: 'Agent Settings',
-        icon: 'solar:settings-outline',
-        url: '/agent-settings',
-      },
-      {
-        key: 'faqs',
-        label: 'FAQs',
-        icon: 'solar:question-circle-outline',
-        url: '/faqs',
-      },
-      {
-        key: 'contact-support',
-        label: 'Contact Support',
-        icon: 'solar:phone-calling-outline',
-        url: '/contact-support',
-      },
-    ]
-  }
-
   // Fallback to original menu items (commented out)
   // return MENU_ITEMS
-  return []
+  return ROLE_MENU_ITEMS.filter((item) => !item.permission || hasPermission(userRole, item.permission))
 }
 
 export const findAllParent = (menuItems: MenuItemType[], menuItem: MenuItemType): string[] => {
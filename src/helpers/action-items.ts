@@ -0,0 +1,36 @@
+import type { ActionItemOut, ActionItemStatus } from '@/types/action-items'
+
+type Variant = 'primary' | 'secondary' | 'success' | 'warning'
+
+// Board columns in workflow order
+export const ACTION_ITEM_STATUSES: { value: ActionItemStatus; label: string; variant: Variant }[] = [
+  { value: 'open', label: 'Open', variant: 'warning' },
+  { value: 'in_progress', label: 'In Progress', variant: 'primary' },
+  { value: 'done', label: 'Done', variant: 'success' }
+]
+
+export const getActionItemStatusLabel = (status: ActionItemStatus) =>
+  ACTION_ITEM_STATUSES.find((option) => option.value === status)?.label ?? status
+
+/**
+ * The status one step before or after `status`, null at either end of the workflow
+ */
+export const getAdjacentStatus = (status: ActionItemStatus, direction: 'back' | 'forward') => {
+  const index = ACTION_ITEM_STATUSES.findIndex((option) => option.value === status)
+  return ACTION_ITEM_STATUSES[index + (direction === 'forward' ? 1 : -1)]?.value ?? null
+}
+
+// Due dates are calendar days, compare them against the local date rather than a UTC timestamp
+export const getLocalDateString = (date = new Date()) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export const isActionItemOverdue = (item: ActionItemOut) =>
+  item.status !== 'done' && !!item.due_date && item.due_date < getLocalDateString()
+
+export const formatDueDate = (dueDate: string) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(
+    new Date(`${dueDate}T00:00:00`)
+  )
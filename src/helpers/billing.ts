@@ -14,6 +14,7 @@ export const formatCurrencyValue = (value: number, currency = 'USD') => {
   }
 }
 
+// Pass the viewer's `timeZone`, times carry their UTC offset so they can't be misread
 export const formatDateTime = (value?: string, options?: Intl.DateTimeFormatOptions) => {
   if (!value) return '—'
   try {
@@ -23,6 +24,7 @@ export const formatDateTime = (value?: string, options?: Intl.DateTimeFormatOpti
       day: 'numeric',
       hour: 'numeric',
       minute: 'numeric',
+      timeZoneName: 'shortOffset',
       ...options
     }).format(new Date(value))
   } catch {
@@ -30,10 +32,11 @@ export const formatDateTime = (value?: string, options?: Intl.DateTimeFormatOpti
   }
 }
 
-export const formatDateRange = (start?: string, end?: string) => {
+export const formatDateRange = (start?: string, end?: string, timeZone?: string) => {
   if (!start && !end) return '—'
-  const startLabel = start ? formatDateTime(start, { hour: undefined, minute: undefined }) : 'Immediate'
-  const endLabel = end ? formatDateTime(end, { hour: undefined, minute: undefined }) : 'No end date'
+  const dateOnly: Intl.DateTimeFormatOptions = { hour: undefined, minute: undefined, timeZoneName: undefined, timeZone }
+  const startLabel = start ? formatDateTime(start, dateOnly) : 'Immediate'
+  const endLabel = end ? formatDateTime(end, dateOnly) : 'No end date'
   return `${startLabel} → ${endLabel}`
 }
 
@@ -0,0 +1,284 @@
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+export type ExportCellValue = string | number | null
+
+export type ExportColumn<T> = {
+  key: string
+  header: string
+  value: (row: T) => ExportCellValue
+}
+
+export const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'Plain text, opens in any spreadsheet app' },
+  { value: 'xlsx', label: 'Excel (XLSX)', description: 'A workbook with one sheet' },
+  { value: 'pdf', label: 'PDF report', description: 'A printable report, choose "Save as PDF" in the print dialog' }
+]
+
+/**
+ * A filesystem-safe name such as "call-records-2026-10-19.csv"
+ */
+export const getExportFileName = (prefix: string, format: ExportFormat, date = new Date()) => {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${prefix}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.${format}`
+}
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+const escapeCsv = (value: ExportCellValue) => {
+  if (value === null) return ''
+  const text = String(value)
+  // Leading =, +, -, @, tab or carriage return would be run as a formula by spreadsheet apps,
+  // plain numbers like "+1 555 0100" are safe
+  const isFormula = /^[\t\r]/.test(text) || (/^[=+\-@]/.test(text) && !/^[+-]?[\d\s().-]+$/.test(text))
+  const safe = isFormula ? `'${text}` : text
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export const buildCsv = <T>(rows: T[], columns: ExportColumn<T>[]) => {
+  const lines = [columns.map((column) => escapeCsv(column.header)).join(',')]
+  rows.forEach((row) => lines.push(columns.map((column) => escapeCsv(column.value(row))).join(',')))
+  // The BOM makes Excel read the file as UTF-8
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' })
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+
+const getColumnName = (index: number) => {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+const buildXlsxCell = (value: ExportCellValue, reference: string, style = 0) => {
+  const styleAttr = style ? ` s="${style}"` : ''
+  if (value === null || value === '') return `<c r="${reference}"${styleAttr}/>`
+  if (typeof value === 'number') return `<c r="${reference}"${styleAttr}><v>${value}</v></c>`
+  return `<c r="${reference}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * A zip archive with every entry stored uncompressed, enough for an XLSX package
+ */
+const buildZip = (files: { name: string; content: string }[]) => {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name)
+    const data = encoder.encode(file.content)
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(8, 0, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+
+    const entry = new DataView(new ArrayBuffer(46))
+    entry.setUint32(0, 0x02014b50, true)
+    entry.setUint16(4, 20, true)
+    entry.setUint16(6, 20, true)
+    entry.setUint32(16, crc, true)
+    entry.setUint32(20, data.length, true)
+    entry.setUint32(24, data.length, true)
+    entry.setUint16(28, name.length, true)
+    entry.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, data)
+    central.push(new Uint8Array(entry.buffer), name)
+    offset += 30 + name.length + data.length
+  })
+
+  const centralSize = central.reduce((total, part) => total + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const chunks = [...parts, ...central, new Uint8Array(end.buffer)]
+  const archive = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  chunks.reduce((position, chunk) => {
+    archive.set(chunk, position)
+    return position + chunk.length
+  }, 0)
+
+  return new Blob([archive], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+}
+
+export const buildXlsx = <T>(rows: T[], columns: ExportColumn<T>[], sheetName = 'Sheet1') => {
+  // Header cells use style 1, the bold font declared in styles.xml
+  const sheetRows = [
+    `<row r="1">${columns.map((column, index) => buildXlsxCell(column.header, `${getColumnName(index)}1`, 1)).join('')}</row>`,
+    ...rows.map(
+      (row, rowIndex) =>
+        `<row r="${rowIndex + 2}">${columns
+          .map((column, index) => buildXlsxCell(column.value(row), `${getColumnName(index)}${rowIndex + 2}`))
+          .join('')}</row>`
+    )
+  ]
+  // Sheet names are capped at 31 characters and can't contain []:*?/\
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31))
+
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      content:
+        XML_HEADER +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content:
+        XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content:
+        XML_HEADER +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content:
+        XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/styles.xml',
+      content:
+        XML_HEADER +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>'
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content:
+        XML_HEADER +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${sheetRows.join('')}</sheetData>` +
+        '</worksheet>'
+    }
+  ])
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+export type PrintReportOptions<T> = {
+  title: string
+  subtitle?: string
+  rows: T[]
+  columns: ExportColumn<T>[]
+  // Full-width text printed under each row, such as a summary
+  detail?: (row: T) => string | null
+}
+
+/**
+ * Print a table report from a hidden frame, where the browser's print dialog can save it as a PDF
+ */
+export const printReport = <T>({ title, subtitle, rows, columns, detail }: PrintReportOptions<T>) => {
+  const cell = (value: ExportCellValue) => escapeHtml(value === null ? '' : String(value))
+  const body = rows
+    .map((row) => {
+      const detailText = detail?.(row)
+      return (
+        `<tbody><tr>${columns.map((column) => `<td>${cell(column.value(row))}</td>`).join('')}</tr>` +
+        (detailText ? `<tr class="detail"><td colspan="${columns.length}">${escapeHtml(detailText)}</td></tr>` : '') +
+        '</tbody>'
+      )
+    })
+    .join('')
+
+  const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>
+    @page { size: landscape; margin: 12mm; }
+    body { font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 10px; color: #111; }
+    h1 { font-size: 16px; margin: 0 0 4px; }
+    p.subtitle { margin: 0 0 12px; color: #555; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; border-bottom: 2px solid #333; padding: 4px; }
+    td { padding: 4px; border-top: 1px solid #ddd; vertical-align: top; }
+    tr.detail td { border-top: none; color: #444; padding-bottom: 8px; }
+    tbody { break-inside: avoid; }
+  </style></head><body>
+    <h1>${escapeHtml(title)}</h1>
+    ${subtitle ? `<p class="subtitle">${escapeHtml(subtitle)}</p>` : ''}
+    <table><thead><tr>${columns.map((column) => `<th>${escapeHtml(column.header)}</th>`).join('')}</tr></thead>${body}</table>
+  </body></html>`
+
+  // A frame avoids the popup blocker, the export finishes long after the click that started it
+  const frame = document.createElement('iframe')
+  frame.setAttribute('aria-hidden', 'true')
+  Object.assign(frame.style, { position: 'fixed', right: '0', bottom: '0', width: '0', height: '0', border: '0' })
+  document.body.appendChild(frame)
+
+  const frameWindow = frame.contentWindow
+  if (!frameWindow) {
+    frame.remove()
+    throw new Error('Could not open the print view')
+  }
+  frameWindow.document.open()
+  frameWindow.document.write(html)
+  frameWindow.document.close()
+  frameWindow.addEventListener('afterprint', () => frame.remove())
+  frameWindow.focus()
+  frameWindow.print()
+}
@@ -0,0 +1,27 @@
+import * as yup from 'yup'
+
+export const PASSWORD_MIN_LENGTH = 8
+export const PASSWORD_MAX_LENGTH = 128
+
+// Same rules the backend enforces on sign-up and password changes
+export const PASSWORD_REQUIREMENTS = [
+  {
+    key: 'length',
+    label: `${PASSWORD_MIN_LENGTH}–${PASSWORD_MAX_LENGTH} characters`,
+    test: (value: string) => value.length >= PASSWORD_MIN_LENGTH && value.length <= PASSWORD_MAX_LENGTH,
+  },
+  { key: 'lowercase', label: 'One lowercase letter', test: (value: string) => /[a-z]/.test(value) },
+  { key: 'uppercase', label: 'One uppercase letter', test: (value: string) => /[A-Z]/.test(value) },
+  { key: 'number', label: 'One number', test: (value: string) => /\d/.test(value) },
+  { key: 'special', label: 'One special character (@$!%*?&)', test: (value: string) => /[@$!%*?&]/.test(value) },
+]
+
+export const passwordSchema = yup
+  .string()
+  .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  .max(PASSWORD_MAX_LENGTH, `Password must be less than ${PASSWORD_MAX_LENGTH} characters`)
+  .matches(
+    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])/,
+    'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&)'
+  )
+  .required('Password is required')
@@ -0,0 +1,86 @@
+import type { UserRole } from '@/types/auth'
+
+export type Permission =
+  | 'agents:read'
+  | 'agents:write'
+  | 'agents:delete'
+  | 'documents:read'
+  | 'documents:write'
+  | 'documents:delete'
+  | 'billing:read'
+  | 'billing:write'
+  | 'coupons:read'
+  | 'coupons:write'
+  | 'coupons:delete'
+  | 'call-records:read'
+  | 'users:read'
+  | 'users:write'
+  | 'users:delete'
+  | 'users:impersonate'
+  | 'users:reset-two-factor'
+  | 'audit-log:read'
+  | 'incidents:read'
+  | 'action-items:read'
+  | 'action-items:write'
+  | 'triage:read'
+  | 'triage:write'
+  | 'agent-settings:write'
+  | 'support:contact'
+
+export const USER_ROLES: UserRole[] = ['owner', 'admin', 'billing-admin', 'support', 'viewer', 'user']
+
+const STAFF_READ: Permission[] = [
+  'agents:read',
+  'documents:read',
+  'billing:read',
+  'coupons:read',
+  'call-records:read',
+  'users:read',
+]
+
+const STAFF_ALL: Permission[] = [
+  ...STAFF_READ,
+  'agents:write',
+  'agents:delete',
+  'documents:write',
+  'documents:delete',
+  'billing:write',
+  'coupons:write',
+  'coupons:delete',
+  'users:write',
+  'users:delete',
+  'users:impersonate',
+  'users:reset-two-factor',
+  'audit-log:read',
+]
+
+// Capabilities granted to each role, mirrored by the backend's own checks
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: STAFF_ALL,
+  admin: STAFF_ALL,
+  'billing-admin': ['billing:read', 'billing:write', 'coupons:read', 'coupons:write', 'coupons:delete', 'users:read'],
+  support: ['agents:read', 'documents:read', 'call-records:read', 'users:read'],
+  viewer: STAFF_READ,
+  user: [
+    'call-records:read',
+    'incidents:read',
+    'action-items:read',
+    'action-items:write',
+    'triage:read',
+    'triage:write',
+    'agent-settings:write',
+    'support:contact',
+  ],
+}
+
+export const isUserRole = (value: string | null | undefined): value is UserRole =>
+  USER_ROLES.includes(value as UserRole)
+
+/**
+ * Staff roles use the admin portal and its sign-in page
+ */
+export const isStaffRole = (role: UserRole | null | undefined) => !!role && role !== 'user'
+
+// Roles the backend adds before this map knows them get no permissions rather than crashing the caller
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission) =>
+  !!role && (ROLE_PERMISSIONS[role]?.includes(permission) ?? false)
@@ -0,0 +1,64 @@
+import { hasPermission, type Permission } from '@/helpers/permissions'
+
+// HttpOnly cookie holding the signed session role, set by the app/api route handlers
+export const SESSION_COOKIE = 'auth_session'
+
+// Routes outside the (admin) layout that never require a session
+const PUBLIC_ROUTE_PREFIXES = ['/auth', '/error-pages']
+
+// Shown instead of any other route while an idle session is locked
+export const LOCK_SCREEN_PATH = '/auth/lock-screen'
+
+// next-auth runs the single sign-on flow under its own path, /api/auth belongs to the session route handlers
+export const SSO_BASE_PATH = '/api/sso'
+export const SSO_PROVIDER_ID = 'oidc'
+// Exchanges the identity provider's ID token for a backend session, then hands over to SSO_COMPLETE_PATH
+export const SSO_CALLBACK_PATH = '/api/auth/sso'
+export const SSO_COMPLETE_PATH = '/auth/sso'
+// next-auth sends failed sign-ins here, which passes them on to the sign-in page of the portal they started from
+export const SSO_ERROR_PATH = '/api/auth/sso/error'
+
+// Error codes passed back to the sign-in pages, alongside next-auth's own (OAuthCallback, AccessDenied, ...)
+export const SSO_ERRORS = {
+  failed: 'SsoFailed',
+  notProvisioned: 'SsoNotProvisioned',
+  notStaff: 'SsoNotStaff',
+} as const
+
+// Permission needed to open each route, kept in line with the permissions of getMenuItems
+const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  '/agents': 'agents:read',
+  '/create-agent': 'agents:write',
+  '/documents': 'documents:read',
+  '/subscription-plans': 'billing:read',
+  '/coupons': 'coupons:read',
+  '/user-management': 'users:read',
+  '/call-records': 'call-records:read',
+  '/audit-log': 'audit-log:read',
+  '/incident-report': 'incidents:read',
+  '/action-items': 'action-items:read',
+  '/triage': 'triage:read',
+  '/agent-settings': 'agent-settings:write',
+  '/faqs': 'support:contact',
+  '/contact-support': 'support:contact',
+}
+
+const matchesPrefix = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`)
+
+export const isPublicRoute = (pathname: string) =>
+  PUBLIC_ROUTE_PREFIXES.some((prefix) => matchesPrefix(pathname, prefix))
+
+/**
+ * Permission needed to open a route, null when any signed-in user may
+ */
+export const getRequiredPermission = (pathname: string): Permission | null => {
+  const prefix = Object.keys(ROUTE_PERMISSIONS).find((routePrefix) => matchesPrefix(pathname, routePrefix))
+  return prefix ? ROUTE_PERMISSIONS[prefix] : null
+}
+
+// Routes customers cannot open send visitors to the admin portal's sign-in
+export const getSignInPath = (pathname: string) => {
+  const permission = getRequiredPermission(pathname)
+  return permission && !hasPermission('user', permission) ? '/auth/admin/sign-in' : '/auth/sign-in'
+}
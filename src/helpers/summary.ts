@@ -0,0 +1,55 @@
+import { formatDateTime } from '@/helpers/billing'
+import type { CallSummary } from '@/types/summary'
+
+// Labels the backend renders call timings in, mapped to the zone they stand for
+const TIME_ZONE_NAMES: Record<string, string> = {
+  UTC: 'UTC',
+  GMT: 'UTC',
+  EST: 'America/New_York',
+  EDT: 'America/New_York',
+  CST: 'America/Chicago',
+  CDT: 'America/Chicago',
+  MST: 'America/Denver',
+  MDT: 'America/Denver',
+  PST: 'America/Los_Angeles',
+  PDT: 'America/Los_Angeles'
+}
+
+/**
+ * IANA zone for a timezone label such as "EST", or the label itself when it already is one
+ */
+export const getTimeZoneName = (label: string | null | undefined): string | undefined => {
+  if (!label) return undefined
+  const trimmed = label.trim()
+  return TIME_ZONE_NAMES[trimmed.toUpperCase()] ?? (trimmed.includes('/') ? trimmed : undefined)
+}
+
+/**
+ * Strip the "Start (tz):" prefix and weekday from a call timing for display
+ */
+export const formatCallTime = (timeString: string | null | undefined): string => {
+  if (!timeString) return 'N/A'
+  let formatted = timeString.replace(/Start \([^)]*\):\s*/i, '').replace(/End \([^)]*\):\s*/i, '')
+  formatted = formatted.replace(/^[A-Za-z]+,\s*/, '')
+  return formatted
+}
+
+/**
+ * A parsed call timing in the viewer's zone, formatted like every other timestamp
+ */
+export const formatCallDate = (date: Date | null, timezone?: string | null): string => {
+  if (!date) return 'N/A'
+  return formatDateTime(date.toISOString(), { timeZone: getTimeZoneName(timezone) })
+}
+
+export const formatCallDuration = (seconds: number | null): string => {
+  if (seconds === null) return 'N/A'
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`
+  if (minutes > 0) return `${minutes}m ${String(secs).padStart(2, '0')}s`
+  return `${secs}s`
+}
+
+export const isUrgentSummary = (summary: CallSummary) => summary.urgency === 'urgent'
@@ -0,0 +1,104 @@
+// Used when the runtime can't list its zones
+const FALLBACK_TIME_ZONES = [
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Perth',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+]
+
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+export const isValidTimeZone = (zone: string | null | undefined): zone is string => {
+  if (!zone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const getBrowserTimeZone = () => {
+  try {
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone
+    return isValidTimeZone(zone) ? zone : DEFAULT_TIME_ZONE
+  } catch {
+    return DEFAULT_TIME_ZONE
+  }
+}
+
+/**
+ * Offset of `timeZone` from UTC at `date`, in minutes
+ */
+export const getTimeZoneOffset = (timeZone: string, date = new Date()) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((entry) => entry.type === type)?.value)
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'))
+  // Drop milliseconds, the formatted parts only go down to seconds
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000)
+}
+
+/**
+ * "GMT+05:30" style offset label
+ */
+export const formatTimeZoneOffset = (offsetMinutes: number) => {
+  const sign = offsetMinutes < 0 ? '-' : '+'
+  const absolute = Math.abs(offsetMinutes)
+  return `GMT${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`
+}
+
+export type TimeZoneOption = {
+  value: string
+  label: string
+  offset: number
+}
+
+let cachedOptions: TimeZoneOption[] | null = null
+
+/**
+ * Every IANA zone the runtime knows, ordered by current offset and labelled like "(GMT+05:30) Asia/Kolkata"
+ */
+export const getTimeZoneOptions = (): TimeZoneOption[] => {
+  if (cachedOptions) return cachedOptions
+
+  let zones: string[] = FALLBACK_TIME_ZONES
+  try {
+    if (typeof Intl.supportedValuesOf === 'function') zones = Intl.supportedValuesOf('timeZone')
+  } catch {
+    // Keep the fallback list
+  }
+
+  const now = new Date()
+  const options = [DEFAULT_TIME_ZONE, ...zones.filter((zone) => zone !== DEFAULT_TIME_ZONE)].flatMap((zone) => {
+    try {
+      const offset = getTimeZoneOffset(zone, now)
+      return [{ value: zone, label: `(${formatTimeZoneOffset(offset)}) ${zone.replace(/_/g, ' ')}`, offset }]
+    } catch {
+      return []
+    }
+  })
+
+  cachedOptions = options.sort((a, b) => a.offset - b.offset || a.value.localeCompare(b.value))
+  return cachedOptions
+}
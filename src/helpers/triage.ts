@@ -0,0 +1,66 @@
+import type { TriageAction, TriageStatus } from '@/types/triage'
+
+type Variant = 'secondary' | 'info' | 'primary' | 'success' | 'warning' | 'danger'
+
+export const TRIAGE_STATUS_OPTIONS: { value: TriageStatus; label: string; variant: Variant }[] = [
+  { value: 'new', label: 'New', variant: 'danger' },
+  { value: 'claimed', label: 'Claimed', variant: 'info' },
+  { value: 'acknowledged', label: 'Acknowledged', variant: 'primary' },
+  { value: 'resolved', label: 'Resolved', variant: 'success' }
+]
+
+export const RESPONSE_WINDOW_OPTIONS = [15, 30, 60, 120, 240]
+
+export const getTriageStatusOption = (status: TriageStatus) =>
+  TRIAGE_STATUS_OPTIONS.find((option) => option.value === status) ?? TRIAGE_STATUS_OPTIONS[0]
+
+/**
+ * Compact duration such as "45m" or "2h 05m"
+ */
+export const formatDuration = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000))
+  const days = Math.floor(totalMinutes / 1440)
+  const hours = Math.floor((totalMinutes % 1440) / 60)
+  const minutes = totalMinutes % 60
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`
+  return `${minutes}m`
+}
+
+export const formatResponseWindow = (minutes: number) => (minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`)
+
+/**
+ * Where a call stands against the response window, `warning` once three quarters of it have passed
+ */
+export const getSlaState = (receivedAt: string, windowMinutes: number, now: number) => {
+  const elapsedMs = now - new Date(receivedAt).getTime()
+  const windowMs = windowMinutes * 60000
+  return {
+    elapsedMs,
+    remainingMs: windowMs - elapsedMs,
+    breached: elapsedMs >= windowMs,
+    warning: elapsedMs >= windowMs * 0.75
+  }
+}
+
+const ACTIONS_BY_STATUS: Record<TriageStatus, TriageAction[]> = {
+  new: ['claim', 'acknowledge', 'resolve'],
+  claimed: ['acknowledge', 'resolve'],
+  acknowledged: ['resolve'],
+  resolved: []
+}
+
+export const getAvailableTriageActions = (status: TriageStatus) => ACTIONS_BY_STATUS[status]
+
+export const TRIAGE_ACTION_LABELS: Record<TriageAction, string> = {
+  claim: 'Claim',
+  acknowledge: 'Acknowledge',
+  resolve: 'Resolve'
+}
+
+// How an action reads next to the note left with it
+export const TRIAGE_ACTION_PAST_TENSE: Record<TriageAction, string> = {
+  claim: 'claimed',
+  acknowledge: 'acknowledged',
+  resolve: 'resolved'
+}
@@ -0,0 +1,29 @@
+'use client'
+import { useEffect, useState } from 'react'
+
+const getSecondsLeft = (targetTime: number | null) =>
+  targetTime ? Math.max(0, Math.ceil((targetTime - Date.now()) / 1000)) : 0
+
+/**
+ * Seconds remaining until `targetTime` (epoch ms), updated every second
+ */
+const useCountdown = (targetTime: number | null) => {
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsLeft(targetTime))
+
+  useEffect(() => {
+    setSecondsLeft(getSecondsLeft(targetTime))
+    if (!targetTime) return
+
+    const interval = setInterval(() => {
+      const remaining = getSecondsLeft(targetTime)
+      setSecondsLeft(remaining)
+      if (remaining === 0) clearInterval(interval)
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [targetTime])
+
+  return secondsLeft
+}
+
+export default useCountdown
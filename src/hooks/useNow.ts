@@ -0,0 +1,18 @@
+'use client'
+import { useEffect, useState } from 'react'
+
+/**
+ * Current time (epoch ms), refreshed every `intervalMs` so elapsed-time labels stay current
+ */
+const useNow = (intervalMs = 1000) => {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(interval)
+  }, [intervalMs])
+
+  return now
+}
+
+export default useNow
@@ -0,0 +1,13 @@
+'use client'
+import { useAuth } from '@/context/useAuthContext'
+import { hasPermission, type Permission } from '@/helpers/permissions'
+
+/**
+ * Whether the signed-in user's role grants `permission`
+ */
+const usePermission = (permission: Permission) => {
+  const { user } = useAuth()
+  return hasPermission(user?.role, permission)
+}
+
+export default usePermission
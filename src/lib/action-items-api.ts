@@ -0,0 +1,34 @@
+import { apiClient, type RequestOptions } from './api-client'
+import type {
+  ActionItemListResponse,
+  ActionItemOut,
+  ActionItemQueryParams,
+  ActionItemUpdatePayload,
+} from '@/types/action-items'
+
+const BASE_ENDPOINT = '/auth/user/action-items'
+
+const buildQueryString = (params: ActionItemQueryParams = {}) => {
+  const query = new URLSearchParams()
+  if (params.skip !== undefined) query.append('skip', params.skip.toString())
+  if (params.limit !== undefined) query.append('limit', params.limit.toString())
+  if (params.status) query.append('status', params.status)
+  if (params.search) query.append('search', params.search)
+  if (params.assignee) query.append('assignee', params.assignee)
+  if (params.due) query.append('due', params.due)
+  const qs = query.toString()
+  return qs ? `?${qs}` : ''
+}
+
+export const actionItemsApi = {
+  listItems(params: ActionItemQueryParams = {}, options?: RequestOptions) {
+    return apiClient.get<ActionItemListResponse>(`${BASE_ENDPOINT}${buildQueryString(params)}`, options)
+  },
+
+  /**
+   * Status, assignee and due date are the only editable fields, the text comes from the call
+   */
+  updateItem(itemId: string, payload: ActionItemUpdatePayload) {
+    return apiClient.patch<ActionItemOut>(`${BASE_ENDPOINT}/${itemId}`, payload)
+  },
+}
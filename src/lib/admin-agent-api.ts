@@ -1,4 +1,4 @@
-import { apiClient } from './api-client'
+import { apiClient, type RequestOptions } from './api-client'
 import type {
   UnassignedAgent,
   AdminAgent,
@@ -12,13 +12,13 @@ import type {
 type UpdateAgentPayload = Partial<CreateAgentPayload> & Record<string, any>
 
 export const adminAgentApi = {
-  async getUnassignedAgents(token: string) {
-    return apiClient.get<UnassignedAgent[]>('/auth/admin/agents/unassigned', token)
+  async getUnassignedAgents() {
+    return apiClient.get<UnassignedAgent[]>('/auth/admin/agents/unassigned')
   },
-  async getAgent(token: string, agentId: string) {
-    return apiClient.get<AdminAgent>(`/auth/admin/agents/${agentId}`, token)
+  async getAgent(agentId: string) {
+    return apiClient.get<AdminAgent>(`/auth/admin/agents/${agentId}`)
   },
-  async getAllAgents(token: string, params: AdminAgentQueryParams = {}) {
+  async getAllAgents(params: AdminAgentQueryParams = {}, options?: RequestOptions) {
     const queryParams = new URLSearchParams()
 
     if (params.skip !== undefined) {
@@ -35,18 +35,18 @@ export const adminAgentApi = {
     }
 
     const endpoint = `/auth/admin/agents${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-    return apiClient.get<AdminAgentListResponse | AdminAgent[]>(endpoint, token)
+    return apiClient.get<AdminAgentListResponse | AdminAgent[]>(endpoint, options)
   },
-  async createAgent(token: string, payload: CreateAgentPayload) {
-    return apiClient.post<AdminAgent>('/auth/admin/agents', payload, token)
+  async createAgent(payload: CreateAgentPayload) {
+    return apiClient.post<AdminAgent>('/auth/admin/agents', payload)
   },
-  async updateAgent(token: string, agentId: string, payload: UpdateAgentPayload) {
-    return apiClient.patch<AdminAgent>(`/auth/admin/agents/${agentId}`, payload, token)
+  async updateAgent(agentId: string, payload: UpdateAgentPayload) {
+    return apiClient.patch<AdminAgent>(`/auth/admin/agents/${agentId}`, payload)
   },
-  async deleteAgent(token: string, agentId: string) {
-    return apiClient.delete<void>(`/auth/admin/agents/${agentId}`, token)
+  async deleteAgent(agentId: string) {
+    return apiClient.delete<void>(`/auth/admin/agents/${agentId}`)
   },
-  async getVoices(token: string, params: VoiceQueryParams = {}) {
+  async getVoices(params: VoiceQueryParams = {}) {
     const queryParams = new URLSearchParams()
 
     if (params.skip !== undefined) {
@@ -60,6 +60,6 @@ export const adminAgentApi = {
     }
 
     const endpoint = `/auth/admin/voices${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-    return apiClient.get<VoiceListResponse>(endpoint, token)
+    return apiClient.get<VoiceListResponse>(endpoint)
   }
 }
@@ -1,6 +1,6 @@
 import { apiClient } from './api-client'
 import type { AdminUserCreatePayload, AdminUserQueryParams, AdminUserUpdatePayload } from '@/types/admin-user'
-import type { AdminUserListResponse, UserOut } from '@/types/auth'
+import type { ActiveSessionOut, AdminUserListResponse, UserOut } from '@/types/auth'
 
 const buildQueryString = (params: AdminUserQueryParams = {}) => {
   const query = new URLSearchParams()
@@ -16,25 +16,41 @@ const buildQueryString = (params: AdminUserQueryParams = {}) => {
 }
 
 export const adminUserApi = {
-  async listUsers(token: string, params: AdminUserQueryParams = {}) {
+  async listUsers(params: AdminUserQueryParams = {}) {
     const endpoint = `/auth/admin/users${buildQueryString(params)}`
-    return apiClient.get<AdminUserListResponse>(endpoint, token)
+    return apiClient.get<AdminUserListResponse>(endpoint)
   },
 
-  async createUser(token: string, payload: AdminUserCreatePayload) {
-    return apiClient.post<UserOut>('/auth/admin/users', payload, token)
+  async createUser(payload: AdminUserCreatePayload) {
+    return apiClient.post<UserOut>('/auth/admin/users', payload)
   },
 
-  async updateUser(token: string, userId: string, payload: AdminUserUpdatePayload) {
-    return apiClient.put<UserOut>(`/auth/admin/users/${userId}`, payload, token)
+  async updateUser(userId: string, payload: AdminUserUpdatePayload) {
+    return apiClient.put<UserOut>(`/auth/admin/users/${userId}`, payload)
   },
 
-  async updateStatus(token: string, userId: string, isBlocked: boolean) {
-    return apiClient.put<UserOut>(`/auth/admin/users/${userId}`, { blocked: isBlocked }, token)
+  async updateStatus(userId: string, isBlocked: boolean) {
+    return apiClient.put<UserOut>(`/auth/admin/users/${userId}`, { blocked: isBlocked })
   },
 
-  async deleteUser(token: string, userId: string) {
-    return apiClient.delete<void>(`/auth/admin/users/${userId}/soft`, token)
+  async deleteUser(userId: string) {
+    return apiClient.delete<void>(`/auth/admin/users/${userId}/soft`)
+  },
+
+  async resetTwoFactor(userId: string) {
+    return apiClient.post<UserOut>(`/auth/admin/users/${userId}/2fa/reset`)
+  },
+
+  async listSessions(userId: string) {
+    return apiClient.get<ActiveSessionOut[]>(`/auth/admin/users/${userId}/sessions`)
+  },
+
+  async revokeSession(userId: string, sessionId: string) {
+    return apiClient.delete<void>(`/auth/admin/users/${userId}/sessions/${sessionId}`)
+  },
+
+  async revokeAllSessions(userId: string) {
+    return apiClient.delete<void>(`/auth/admin/users/${userId}/sessions`)
   },
 }
 
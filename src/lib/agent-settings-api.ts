@@ -0,0 +1,22 @@
+import { apiClient } from './api-client'
+import type { AgentSettingsOut, AgentSettingsUpdatePayload, AgentVoiceListResponse } from '@/types/agent-settings'
+
+export const agentSettingsApi = {
+  /**
+   * The signed-in user's own agent, 404 when none is assigned yet
+   */
+  async getSettings() {
+    return apiClient.get<AgentSettingsOut>('/auth/user/agent')
+  },
+
+  async updateSettings(payload: AgentSettingsUpdatePayload) {
+    return apiClient.patch<AgentSettingsOut>('/auth/user/agent', payload)
+  },
+
+  /**
+   * Voices customers may choose from, a curated subset of the admin voice library
+   */
+  async getVoices() {
+    return apiClient.get<AgentVoiceListResponse>('/auth/user/agent/voices')
+  },
+}
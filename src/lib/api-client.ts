@@ -1,153 +1,320 @@
 /**
- * API Client for making HTTP requests to the backend
+ * API Client for making HTTP requests to the backend.
+ * Requests go through the Next.js route handlers under `app/api`, which attach
+ * the bearer token from the HttpOnly session cookie server-side.
  */
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8000/api/v1'
+import { createTransportError, parseApiError } from './api-error'
+import type { ApiError } from '@/types/api'
+
+const API_BASE_URL = '/api'
+
+const DEFAULT_TIMEOUT_MS = 30000
+const DEFAULT_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+const RETRY_MAX_DELAY_MS = 10000
+
+// Only verbs that are safe to replay are retried automatically
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE']
 
 export interface ApiResponse<T = any> {
   data?: T
+  /**
+   * Human readable message, kept for simple toast/alert consumers
+   */
   error?: string
+  /**
+   * Structured error with code, field-level messages and request id
+   */
+  apiError?: ApiError
   status: number
+  aborted?: boolean
+}
+
+export interface RequestOptions {
+  /**
+   * Cancels the request (and any pending retry) when aborted
+   */
+  signal?: AbortSignal
+  /**
+   * Per-attempt timeout in milliseconds
+   */
+  timeout?: number
+  /**
+   * Maximum number of retries for idempotent requests
+   */
+  retries?: number
+  /**
+   * Do not try to refresh the session when the request is rejected with 401
+   */
+  skipAuthRefresh?: boolean
+}
+
+export interface AuthRefreshHandlers {
+  /**
+   * Renew the session cookies, false when the session cannot be refreshed
+   */
+  refresh: () => Promise<boolean>
+  /**
+   * Called once per failed refresh so the app can end the session
+   */
+  onRefreshFailed: () => void
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  return null
 }
 
+const getBackoffDelay = (attempt: number) => {
+  const exponential = RETRY_BASE_DELAY_MS * 2 ** attempt
+  const jitter = Math.random() * RETRY_BASE_DELAY_MS
+  return Math.min(exponential + jitter, RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * Resolve after `ms`, or early (with false) if the signal aborts
+ */
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<boolean>((resolve) => {
+    if (signal?.aborted) {
+      resolve(false)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve(false)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve(true)
+    }, ms)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
 class ApiClient {
   private baseURL: string
+  private authHandlers: AuthRefreshHandlers | null = null
+  private refreshPromise: Promise<boolean> | null = null
 
   constructor(baseURL: string) {
     this.baseURL = baseURL
   }
 
+  /**
+   * Register how expired access tokens are renewed (set by AuthProvider)
+   */
+  setAuthHandlers(handlers: AuthRefreshHandlers | null) {
+    this.authHandlers = handlers
+  }
+
+  /**
+   * Refresh the session, sharing a single in-flight refresh between concurrent 401s
+   */
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      const handlers = this.authHandlers
+      if (!handlers) return Promise.resolve(false)
+
+      this.refreshPromise = handlers
+        .refresh()
+        .catch((error) => {
+          console.error('Session refresh failed:', error)
+          return false
+        })
+        .then((refreshed) => {
+          if (!refreshed) handlers.onRefreshFailed()
+          return refreshed
+        })
+        .finally(() => {
+          this.refreshPromise = null
+        })
+    }
+    return this.refreshPromise
+  }
+
+  /**
+   * Send the request and, when it is rejected with 401 during a session,
+   * refresh the session cookies and replay it once
+   */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    const response = await this.send<T>(endpoint, options, requestOptions)
+    if (response.status !== 401 || requestOptions.skipAuthRefresh || !this.authHandlers) {
+      return response
+    }
+
+    const refreshed = await this.refreshSession()
+    if (!refreshed) {
+      return response
+    }
+
+    return this.send<T>(endpoint, options, requestOptions)
+  }
+
+  private async send<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseURL}${endpoint}`
+    const method = (options.method || 'GET').toUpperCase()
+    const { signal, timeout = DEFAULT_TIMEOUT_MS } = requestOptions
+    const maxRetries = IDEMPOTENT_METHODS.includes(method) ? requestOptions.retries ?? DEFAULT_RETRIES : 0
 
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-      })
-
-      // Check if response has content before trying to parse JSON
-      const contentType = response.headers.get('content-type')
-      let data: any = null
-
-      if (contentType && contentType.includes('application/json')) {
-        try {
-          const text = await response.text()
-          data = text ? JSON.parse(text) : null
-        } catch (parseError) {
-          console.error('Failed to parse JSON response:', parseError)
+    const failure = (apiError: ApiError): ApiResponse<T> => ({
+      error: apiError.message,
+      apiError,
+      status: apiError.status,
+      ...(apiError.code === 'cancelled' && { aborted: true }),
+    })
+    const cancelled = () => failure(createTransportError('cancelled', 'Request was cancelled'))
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) return cancelled()
+
+      // Combine the caller's signal with a per-attempt timeout
+      const controller = new AbortController()
+      let timedOut = false
+      const timer = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, timeout)
+      const forwardAbort = () => controller.abort()
+      signal?.addEventListener('abort', forwardAbort, { once: true })
+
+      let result: ApiResponse<T>
+      let retryAfter: number | null = null
+
+      try {
+        const response = await fetch(url, {
+          ...options,
+          signal: controller.signal,
+          headers: {
+            'Content-Type': 'application/json',
+            ...options.headers,
+          },
+        })
+
+        // Read the body outside the parse guard: an abort or timeout while reading is handled
+        // below like one during the fetch, not reported as a malformed response
+        const contentType = response.headers.get('content-type')
+        const text = await response.text()
+        let data: any = null
+
+        if (contentType && contentType.includes('application/json')) {
+          try {
+            data = text ? JSON.parse(text) : null
+          } catch (parseError) {
+            console.error('Failed to parse JSON response:', parseError)
+            return failure(createTransportError('invalid_response', 'Invalid response from server', response.status))
+          }
+        } else {
+          // Handle non-JSON responses
+          data = text || null
+        }
+
+        if (!response.ok) {
+          result = failure(parseApiError(response.status, data, response.headers))
+
+          if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+            return result
+          }
+          retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+        } else {
           return {
-            error: 'Invalid response from server',
+            data,
             status: response.status,
           }
         }
-      } else {
-        // Handle non-JSON responses
-        const text = await response.text()
-        data = text || null
-      }
+      } catch (error) {
+        if (signal?.aborted) return cancelled()
 
-      if (!response.ok) {
-        return {
-          error: data?.detail || data?.message || data?.error || `Request failed with status ${response.status}`,
-          status: response.status,
+        result = failure(
+          timedOut
+            ? createTransportError('timeout', 'The request timed out. Please try again.')
+            : createTransportError(
+                'network_error',
+                error instanceof Error ? error.message : 'Network error. Please check your connection and try again.'
+              )
+        )
+
+        if (attempt >= maxRetries) {
+          console.error('API Request failed:', error)
+          return result
         }
+      } finally {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', forwardAbort)
       }
 
-      return {
-        data,
-        status: response.status,
-      }
-    } catch (error) {
-      console.error('API Request failed:', error)
-      return {
-        error: error instanceof Error ? error.message : 'Network error. Please check your connection and try again.',
-        status: 0,
-      }
+      const delay = Math.min(retryAfter ?? getBackoffDelay(attempt), RETRY_MAX_DELAY_MS)
+      const shouldContinue = await wait(delay, signal)
+      if (!shouldContinue) return cancelled()
     }
   }
 
-  async get<T>(endpoint: string, token?: string): Promise<ApiResponse<T>> {
-    const headers: HeadersInit = {}
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    return this.request<T>(endpoint, {
-      method: 'GET',
-      headers,
-    })
+  async get<T>(endpoint: string, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>(endpoint, { method: 'GET' }, options)
   }
 
-  async post<T>(
-    endpoint: string,
-    body?: any,
-    token?: string
-  ): Promise<ApiResponse<T>> {
-    const headers: HeadersInit = {}
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    return this.request<T>(endpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body),
-    })
+  async post<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>(
+      endpoint,
+      {
+        method: 'POST',
+        body: JSON.stringify(body),
+      },
+      options
+    )
   }
 
-  async put<T>(
-    endpoint: string,
-    body?: any,
-    token?: string
-  ): Promise<ApiResponse<T>> {
-    const headers: HeadersInit = {}
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    return this.request<T>(endpoint, {
-      method: 'PUT',
-      headers,
-      body: JSON.stringify(body),
-    })
+  async put<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>(
+      endpoint,
+      {
+        method: 'PUT',
+        body: JSON.stringify(body),
+      },
+      options
+    )
   }
 
-  async patch<T>(
-    endpoint: string,
-    body?: any,
-    token?: string
-  ): Promise<ApiResponse<T>> {
-    const headers: HeadersInit = {}
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    return this.request<T>(endpoint, {
-      method: 'PATCH',
-      headers,
-      body: JSON.stringify(body),
-    })
+  async patch<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>(
+      endpoint,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+      },
+      options
+    )
   }
 
-  async delete<T>(endpoint: string, token?: string): Promise<ApiResponse<T>> {
-    const headers: HeadersInit = {}
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    return this.request<T>(endpoint, {
-      method: 'DELETE',
-      headers,
-    })
+  async delete<T>(endpoint: string, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>(endpoint, { method: 'DELETE' }, options)
   }
 }
 
 export const apiClient = new ApiClient(API_BASE_URL)
-
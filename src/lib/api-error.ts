@@ -0,0 +1,164 @@
+/**
+ * Helpers for building and consuming structured API errors
+ */
+
+import type {
+  ApiError,
+  ApiErrorCode,
+  ApiFieldErrors,
+  ApiHttpError,
+  ApiTransportError,
+  ApiValidationError,
+} from '@/types/api'
+
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-correlation-id']
+
+// Location prefixes FastAPI adds in front of the actual field name
+const LOCATION_PREFIXES = ['body', 'query', 'path', 'header']
+
+// Codes a response body may carry. Transport codes are only ever produced by the client itself
+const HTTP_ERROR_CODES: ApiHttpError['code'][] = [
+  'bad_request',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'conflict',
+  'rate_limited',
+  'server_error',
+  'unknown',
+]
+
+const isHttpErrorCode = (value: unknown): value is ApiHttpError['code'] =>
+  HTTP_ERROR_CODES.includes(value as ApiHttpError['code'])
+
+const getCodeFromStatus = (status: number): Exclude<ApiErrorCode, ApiTransportError['code']> => {
+  if (status === 400) return 'bad_request'
+  if (status === 401) return 'unauthorized'
+  if (status === 403) return 'forbidden'
+  if (status === 404) return 'not_found'
+  if (status === 409) return 'conflict'
+  if (status === 422) return 'validation_error'
+  if (status === 429) return 'rate_limited'
+  if (status >= 500) return 'server_error'
+  return 'unknown'
+}
+
+const toFieldPath = (loc: unknown): string => {
+  if (!Array.isArray(loc)) return typeof loc === 'string' ? loc : ''
+  const parts = loc.map(String)
+  if (parts.length > 1 && LOCATION_PREFIXES.includes(parts[0])) parts.shift()
+  return parts.join('.')
+}
+
+const extractFieldErrors = (data: any): ApiFieldErrors => {
+  const fieldErrors: ApiFieldErrors = {}
+  const entries = Array.isArray(data?.detail) ? data.detail : Array.isArray(data?.errors) ? data.errors : []
+
+  entries.forEach((entry: any) => {
+    if (!entry || typeof entry !== 'object') return
+    const path = toFieldPath(entry.loc ?? entry.field)
+    const message = entry.msg ?? entry.message
+    if (path && typeof message === 'string' && !fieldErrors[path]) {
+      fieldErrors[path] = message
+    }
+  })
+
+  return fieldErrors
+}
+
+const extractMessage = (data: any): string | null => {
+  if (typeof data === 'string' && data.trim()) return data
+  if (!data || typeof data !== 'object') return null
+
+  const candidates = [data.detail, data.message, data.error]
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && candidate.trim()) return candidate
+    if (candidate && typeof candidate === 'object' && typeof candidate.message === 'string') {
+      return candidate.message
+    }
+  }
+  return null
+}
+
+const summarizeFieldErrors = (fieldErrors: ApiFieldErrors) => {
+  const entries = Object.entries(fieldErrors)
+  const [path, message] = entries[0]
+  const field = path.split('.').pop()
+  const extra = entries.length > 1 ? ` (and ${entries.length - 1} more)` : ''
+  return `${field}: ${message}${extra}`
+}
+
+/**
+ * Build a structured error from a non-2xx response
+ */
+export const parseApiError = (status: number, data: any, headers?: Headers): ApiError => {
+  const requestId =
+    REQUEST_ID_HEADERS.map((name) => headers?.get(name)).find(Boolean) ??
+    (typeof data?.request_id === 'string' ? data.request_id : undefined)
+
+  const fieldErrors = extractFieldErrors(data)
+  if (Object.keys(fieldErrors).length > 0) {
+    return {
+      code: 'validation_error',
+      status,
+      message: summarizeFieldErrors(fieldErrors),
+      fieldErrors,
+      requestId,
+    }
+  }
+
+  const bodyCode = data?.code ?? data?.error_code
+  const statusCode = getCodeFromStatus(status)
+  let code: ApiHttpError['code']
+  if (typeof bodyCode === 'string' && bodyCode !== 'validation_error') {
+    // Codes the client doesn't know can't be trusted to mean the same thing here
+    code = isHttpErrorCode(bodyCode) ? bodyCode : 'unknown'
+  } else {
+    // A validation status without field details is reported as a plain bad request
+    code = statusCode === 'validation_error' ? 'bad_request' : statusCode
+  }
+
+  return {
+    code,
+    status,
+    message: extractMessage(data) || `Request failed with status ${status}`,
+    requestId,
+  }
+}
+
+/**
+ * Build an error for requests that never produced a usable response
+ */
+export const createTransportError = (
+  code: ApiTransportError['code'],
+  message: string,
+  status = 0
+): ApiTransportError => ({
+  code,
+  status,
+  message,
+})
+
+export const isValidationError = (error?: ApiError | null): error is ApiValidationError =>
+  error?.code === 'validation_error'
+
+/**
+ * Map backend field paths onto form field names.
+ * Paths are matched exactly first, then by their last segment.
+ */
+export const mapFieldErrors = <K extends string>(
+  error: ApiError | null | undefined,
+  fieldMap: Record<string, K>
+): Partial<Record<K, string>> => {
+  const mapped: Partial<Record<K, string>> = {}
+  if (!isValidationError(error)) return mapped
+
+  Object.entries(error.fieldErrors).forEach(([path, message]) => {
+    const field = fieldMap[path] ?? fieldMap[path.split('.').pop() ?? '']
+    if (field && !mapped[field]) {
+      mapped[field] = message
+    }
+  })
+
+  return mapped
+}
@@ -0,0 +1,27 @@
+import { apiClient, type RequestOptions } from './api-client'
+import type { AuditEntityType, AuditLogListResponse, AuditLogQueryParams } from '@/types/audit-log'
+
+const BASE_ENDPOINT = '/auth/admin/audit-logs'
+
+const buildQueryString = (params: AuditLogQueryParams = {}) => {
+  const query = new URLSearchParams()
+  if (params.skip !== undefined) query.append('skip', params.skip.toString())
+  if (params.limit !== undefined) query.append('limit', params.limit.toString())
+  if (params.actor) query.append('actor', params.actor)
+  if (params.entity_type) query.append('entity_type', params.entity_type)
+  if (params.entity_id) query.append('entity_id', params.entity_id)
+  if (params.date_from) query.append('date_from', params.date_from)
+  if (params.date_to) query.append('date_to', params.date_to)
+  const qs = query.toString()
+  return qs ? `?${qs}` : ''
+}
+
+export const auditLogApi = {
+  listEntries(params: AuditLogQueryParams = {}, options?: RequestOptions) {
+    return apiClient.get<AuditLogListResponse>(`${BASE_ENDPOINT}${buildQueryString(params)}`, options)
+  },
+
+  getEntityHistory(entityType: AuditEntityType, entityId: string, params: AuditLogQueryParams = {}) {
+    return this.listEntries({ ...params, entity_type: entityType, entity_id: entityId })
+  }
+}
@@ -4,7 +4,26 @@
  */
 
 import { apiClient } from './api-client'
-import type { SignInRequest, SignUpRequest, SignupOTPRequestOut, TokenOut, UserOut } from '@/types/auth'
+import type {
+  ActiveSessionOut,
+  AdminSignInOut,
+  CurrentSessionOut,
+  RefreshSessionOut,
+  SessionOut,
+  SignInRequest,
+  SignUpRequest,
+  SignupOTPRequestOut,
+  SignupOTPVerifyRequest,
+  TwoFactorRecoveryCodesOut,
+  TwoFactorSetupOut,
+  TwoFactorStatusOut,
+  TwoFactorVerifyRequest,
+  UserOut,
+} from '@/types/auth'
+
+// A 401 from these means wrong credentials, not an expired session: refreshing and replaying
+// would send the password twice and sign the user out if the refresh fails
+const CREDENTIAL_REQUEST = { skipAuthRefresh: true }
 
 export const authApi = {
   /**
@@ -14,11 +33,25 @@ export const authApi = {
     return apiClient.post<SignupOTPRequestOut>('/auth/user/signup', data)
   },
 
+  /**
+   * Verify the sign-up OTP - Returns a session, the user is signed in
+   */
+  async verifySignupOtp(data: SignupOTPVerifyRequest) {
+    return apiClient.post<SessionOut>('/auth/user/signup/verify-otp', data, CREDENTIAL_REQUEST)
+  },
+
+  /**
+   * Send a new sign-up OTP to the same email
+   */
+  async resendSignupOtp(email: string) {
+    return apiClient.post<SignupOTPRequestOut>('/auth/user/signup/resend-otp', { email })
+  },
+
   /**
    * User Sign In
    */
   async userSignIn(data: SignInRequest) {
-    return apiClient.post<TokenOut>('/auth/user/signin', data)
+    return apiClient.post<SessionOut>('/auth/user/signin', data, CREDENTIAL_REQUEST)
   },
 
   /**
@@ -29,37 +62,136 @@ export const authApi = {
   },
 
   /**
-   * Admin Sign In
+   * Admin Sign In - Returns a 2FA challenge instead of a session when 2FA is enabled
    */
   async adminSignIn(data: SignInRequest) {
-    return apiClient.post<TokenOut>('/auth/admin/signin', data)
+    return apiClient.post<AdminSignInOut>('/auth/admin/signin', data, CREDENTIAL_REQUEST)
+  },
+
+  /**
+   * Complete an admin sign-in with an authenticator or recovery code
+   */
+  async verifyTwoFactor(data: TwoFactorVerifyRequest) {
+    return apiClient.post<SessionOut>('/auth/admin/signin/2fa', data, CREDENTIAL_REQUEST)
+  },
+
+  /**
+   * Whether 2FA is enabled for the current account
+   */
+  async getTwoFactorStatus() {
+    return apiClient.get<TwoFactorStatusOut>('/auth/user/2fa')
+  },
+
+  /**
+   * Generate a new TOTP secret, 2FA stays off until it is confirmed with enableTwoFactor
+   */
+  async setupTwoFactor() {
+    return apiClient.post<TwoFactorSetupOut>('/auth/user/2fa/setup')
+  },
+
+  /**
+   * Confirm the pending secret with a code from the app - Returns the recovery codes
+   */
+  async enableTwoFactor(code: string) {
+    return apiClient.post<TwoFactorRecoveryCodesOut>('/auth/user/2fa/enable', { code })
+  },
+
+  /**
+   * Turn 2FA off
+   */
+  async disableTwoFactor(data: { password: string; code: string }) {
+    return apiClient.post('/auth/user/2fa/disable', data, CREDENTIAL_REQUEST)
+  },
+
+  /**
+   * Replace the recovery codes, the old ones stop working
+   */
+  async regenerateRecoveryCodes(code: string) {
+    return apiClient.post<TwoFactorRecoveryCodesOut>('/auth/user/2fa/recovery-codes', { code })
+  },
+
+  /**
+   * Renew the session cookies using the HttpOnly refresh token
+   */
+  async refreshToken() {
+    return apiClient.post<RefreshSessionOut>('/auth/refresh', undefined, { skipAuthRefresh: true })
+  },
+
+  /**
+   * Get the user for the current session cookie
+   */
+  async getSession() {
+    return apiClient.get<CurrentSessionOut>('/auth/session', { skipAuthRefresh: true })
+  },
+
+  /**
+   * Start a session as another user, keeping the admin session to return to
+   */
+  async startImpersonation(userId: string) {
+    return apiClient.post<CurrentSessionOut>('/auth/impersonate', { user_id: userId })
+  },
+
+  /**
+   * End impersonation and restore the admin session
+   */
+  async stopImpersonation() {
+    return apiClient.delete<CurrentSessionOut>('/auth/impersonate', { skipAuthRefresh: true })
+  },
+
+  /**
+   * Sign out by clearing the session cookies
+   */
+  async signOut() {
+    return apiClient.post<void>('/auth/signout', undefined, { skipAuthRefresh: true })
   },
 
   /**
    * Get current user profile
    */
-  async getUserProfile(token: string) {
-    return apiClient.get<UserOut>('/auth/user/user-profile', token)
+  async getUserProfile() {
+    return apiClient.get<UserOut>('/auth/user/user-profile')
   },
 
   /**
    * Change password
    */
-  async changePassword(
-    token: string,
-    data: { current_password: string; new_password: string }
-  ) {
-    return apiClient.post('/auth/user/change-password', data, token)
+  async changePassword(data: { current_password: string; new_password: string }) {
+    return apiClient.post('/auth/user/change-password', data, CREDENTIAL_REQUEST)
   },
 
   /**
    * Change username
    */
-  async changeUsername(
-    token: string,
-    data: { new_username: string; password: string }
-  ) {
-    return apiClient.post('/auth/user/change-username', data, token)
+  async changeUsername(data: { new_username: string; password: string }) {
+    return apiClient.post('/auth/user/change-username', data, CREDENTIAL_REQUEST)
+  },
+
+  /**
+   * Save the zone timestamps are shown in, null to follow the browser again
+   */
+  async updateTimezone(timezone: string | null) {
+    return apiClient.patch<UserOut>('/auth/user/preferences', { timezone })
+  },
+
+  /**
+   * Devices the current account is signed in on
+   */
+  async listSessions() {
+    return apiClient.get<ActiveSessionOut[]>('/auth/user/sessions')
+  },
+
+  /**
+   * Sign out one of the current account's other devices
+   */
+  async revokeSession(sessionId: string) {
+    return apiClient.delete<void>(`/auth/user/sessions/${sessionId}`)
+  },
+
+  /**
+   * Sign out every device except this one
+   */
+  async revokeOtherSessions() {
+    return apiClient.post<void>('/auth/user/sessions/revoke-others')
   },
 
   /**
@@ -0,0 +1,50 @@
+/**
+ * Broadcasts auth state changes to the other open tabs of the app.
+ * Session cookies are shared between tabs already, this keeps their in-memory auth state in step.
+ */
+
+import type { UserOut } from '@/types/auth'
+
+const CHANNEL_NAME = 'auth'
+
+export type AuthSyncMessage =
+  | { type: 'signed-in'; user: UserOut }
+  | { type: 'signed-out' }
+  | { type: 'user-updated'; user: UserOut }
+  | { type: 'session-refreshed'; user?: UserOut }
+  | { type: 'impersonation-changed'; user: UserOut; impersonator: UserOut | null }
+  | { type: 'locked' }
+  | { type: 'activity' }
+
+let channel: BroadcastChannel | null = null
+
+const getChannel = (): BroadcastChannel | null => {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null
+  if (!channel) channel = new BroadcastChannel(CHANNEL_NAME)
+  return channel
+}
+
+export const authChannel = {
+  /**
+   * Send a message to every other tab, the sending tab does not receive it
+   */
+  post(message: AuthSyncMessage): void {
+    try {
+      getChannel()?.postMessage(message)
+    } catch (error) {
+      console.error('Error broadcasting auth change:', error)
+    }
+  },
+
+  /**
+   * Listen for messages from other tabs, returns the unsubscribe function
+   */
+  subscribe(listener: (message: AuthSyncMessage) => void): () => void {
+    const target = getChannel()
+    if (!target) return () => {}
+
+    const handleMessage = (event: MessageEvent<AuthSyncMessage>) => listener(event.data)
+    target.addEventListener('message', handleMessage)
+    return () => target.removeEventListener('message', handleMessage)
+  },
+}
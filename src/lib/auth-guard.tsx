@@ -4,32 +4,33 @@ import { useAuth } from '@/context/useAuthContext'
 import { useRouter } from 'next/navigation'
 import { useEffect } from 'react'
 import Spinner from '@/components/Spinner'
+import { hasPermission, type Permission } from '@/helpers/permissions'
 
 interface AuthGuardProps {
   children: React.ReactNode
-  requireRole?: 'admin' | 'user' | null
+  requirePermission?: Permission | null
   signInPath?: string
 }
 
 /**
  * Auth Guard Component
  * Protects routes and ensures user is authenticated
- * Optionally requires specific role
+ * Optionally requires a permission, users without it are sent to the dashboard
  */
-export default function AuthGuard({ children, requireRole, signInPath }: AuthGuardProps) {
+export default function AuthGuard({ children, requirePermission, signInPath = '/auth/sign-in' }: AuthGuardProps) {
   const { isAuthenticated, isLoading, user } = useAuth()
   const router = useRouter()
-  const loginPath = signInPath ?? (requireRole === 'admin' ? '/auth/admin/sign-in' : '/auth/sign-in')
+  const isAllowed = !requirePermission || hasPermission(user?.role, requirePermission)
 
   useEffect(() => {
     if (!isLoading) {
       if (!isAuthenticated) {
-        router.push(loginPath)
-      } else if (requireRole && user?.role !== requireRole) {
+        router.push(signInPath)
+      } else if (!isAllowed) {
         router.push('/dashboards')
       }
     }
-  }, [isAuthenticated, isLoading, user, requireRole, router, loginPath])
+  }, [isAuthenticated, isLoading, isAllowed, router, signInPath])
 
   // Show loading state while checking auth
   if (isLoading) {
@@ -49,8 +50,8 @@ export default function AuthGuard({ children, requireRole, signInPath }: AuthGua
     )
   }
 
-  // Check role if required
-  if (requireRole && user?.role !== requireRole) {
+  // Check the permission if required
+  if (!isAllowed) {
     return (
       <div className="d-flex justify-content-center align-items-center" style={{ minHeight: '100vh' }}>
         <Spinner />
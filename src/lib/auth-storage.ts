@@ -1,85 +1,122 @@
 /**
- * Client-side storage utilities for authentication tokens and user data
+ * Client-side storage for the signed-in user's profile.
+ * Tokens are kept in HttpOnly cookies by the route handlers in `app/api` and are never stored here.
  */
 
-import type { TokenOut, UserOut } from '@/types/auth'
+import type { UserOut, UserRole } from '@/types/auth'
 
-const TOKEN_KEY = 'auth_token'
 const USER_KEY = 'auth_user'
-const TOKEN_EXPIRY_KEY = 'auth_token_expiry'
+const LOCK_KEY = 'auth_lock'
+const IMPERSONATOR_KEY = 'auth_impersonator'
+
+// Tokens stored by earlier versions of the app, removed whenever auth data is cleared
+const LEGACY_TOKEN_KEYS = ['auth_token', 'auth_token_expiry', 'auth_refresh_token', 'auth_refresh_token_expiry']
 
 export const authStorage = {
   /**
-   * Save authentication data to localStorage
+   * Save user data to localStorage
    */
-  saveAuth(tokenData: TokenOut): void {
+  saveUser(user: UserOut): void {
     if (typeof window === 'undefined') return
 
     try {
-      localStorage.setItem(TOKEN_KEY, tokenData.access_token)
-      localStorage.setItem(USER_KEY, JSON.stringify(tokenData.user))
-
-      // Calculate expiry timestamp (current time + expires_in seconds)
-      const expiryTime = Date.now() + tokenData.expires_in * 1000
-      localStorage.setItem(TOKEN_EXPIRY_KEY, expiryTime.toString())
+      localStorage.setItem(USER_KEY, JSON.stringify(user))
     } catch (error) {
-      console.error('Error saving auth data:', error)
+      console.error('Error saving user:', error)
     }
   },
 
   /**
-   * Get authentication token
+   * Get user data
    */
-  getToken(): string | null {
+  getUser(): UserOut | null {
     if (typeof window === 'undefined') return null
 
     try {
-      const token = localStorage.getItem(TOKEN_KEY)
+      const userJson = localStorage.getItem(USER_KEY)
+      if (!userJson) return null
+
+      return JSON.parse(userJson) as UserOut
+    } catch (error) {
+      console.error('Error getting user:', error)
+      return null
+    }
+  },
 
-      // Check if token is expired
-      if (token && this.isTokenExpired()) {
-        this.clearAuth()
-        return null
+  /**
+   * Save the admin behind an impersonated session, or clear it with null
+   */
+  saveImpersonator(impersonator: UserOut | null): void {
+    if (typeof window === 'undefined') return
+
+    try {
+      if (impersonator) {
+        localStorage.setItem(IMPERSONATOR_KEY, JSON.stringify(impersonator))
+      } else {
+        localStorage.removeItem(IMPERSONATOR_KEY)
       }
+    } catch (error) {
+      console.error('Error saving impersonator:', error)
+    }
+  },
+
+  /**
+   * Get the admin behind an impersonated session
+   */
+  getImpersonator(): UserOut | null {
+    if (typeof window === 'undefined') return null
 
-      return token
+    try {
+      const impersonatorJson = localStorage.getItem(IMPERSONATOR_KEY)
+      if (!impersonatorJson) return null
+
+      return JSON.parse(impersonatorJson) as UserOut
     } catch (error) {
-      console.error('Error getting token:', error)
+      console.error('Error getting impersonator:', error)
       return null
     }
   },
 
   /**
-   * Get user data
+   * Mark the session as locked, remembering the route to return to once unlocked
    */
-  getUser(): UserOut | null {
+  saveLock(returnTo: string): void {
+    if (typeof window === 'undefined') return
+
+    try {
+      localStorage.setItem(LOCK_KEY, JSON.stringify({ returnTo }))
+    } catch (error) {
+      console.error('Error saving lock:', error)
+    }
+  },
+
+  /**
+   * Get the active lock, if any
+   */
+  getLock(): { returnTo: string } | null {
     if (typeof window === 'undefined') return null
 
     try {
-      const userJson = localStorage.getItem(USER_KEY)
-      if (!userJson) return null
+      const lockJson = localStorage.getItem(LOCK_KEY)
+      if (!lockJson) return null
 
-      return JSON.parse(userJson) as UserOut
+      return JSON.parse(lockJson) as { returnTo: string }
     } catch (error) {
-      console.error('Error getting user:', error)
+      console.error('Error getting lock:', error)
       return null
     }
   },
 
   /**
-   * Check if token is expired
+   * Remove the lock after a successful unlock
    */
-  isTokenExpired(): boolean {
-    if (typeof window === 'undefined') return true
+  clearLock(): void {
+    if (typeof window === 'undefined') return
 
     try {
-      const expiryTime = localStorage.getItem(TOKEN_EXPIRY_KEY)
-      if (!expiryTime) return true
-
-      return Date.now() >= parseInt(expiryTime)
+      localStorage.removeItem(LOCK_KEY)
     } catch (error) {
-      console.error('Error checking token expiry:', error)
-      return true
+      console.error('Error clearing lock:', error)
     }
   },
 
@@ -90,28 +127,20 @@ export const authStorage = {
     if (typeof window === 'undefined') return
 
     try {
-      localStorage.removeItem(TOKEN_KEY)
       localStorage.removeItem(USER_KEY)
-      localStorage.removeItem(TOKEN_EXPIRY_KEY)
+      localStorage.removeItem(LOCK_KEY)
+      localStorage.removeItem(IMPERSONATOR_KEY)
+      LEGACY_TOKEN_KEYS.forEach((key) => localStorage.removeItem(key))
     } catch (error) {
       console.error('Error clearing auth data:', error)
     }
   },
 
-  /**
-   * Check if user is authenticated
-   */
-  isAuthenticated(): boolean {
-    const token = this.getToken()
-    return token !== null && !this.isTokenExpired()
-  },
-
   /**
    * Get user role
    */
-  getUserRole(): 'admin' | 'user' | null {
+  getUserRole(): UserRole | null {
     const user = this.getUser()
     return user?.role || null
   },
 }
-
@@ -4,17 +4,17 @@ import type { Coupon, CouponListResponse, CouponPayload } from '@/types/billing'
 const BASE_ENDPOINT = '/auth/admin/billing/coupons'
 
 export const couponApi = {
-  listCoupons(token: string) {
-    return apiClient.get<CouponListResponse | Coupon[]>(BASE_ENDPOINT, token)
+  listCoupons() {
+    return apiClient.get<CouponListResponse | Coupon[]>(BASE_ENDPOINT)
   },
-  createCoupon(token: string, payload: CouponPayload) {
-    return apiClient.post<Coupon>(BASE_ENDPOINT, payload, token)
+  createCoupon(payload: CouponPayload) {
+    return apiClient.post<Coupon>(BASE_ENDPOINT, payload)
   },
-  updateCoupon(token: string, couponId: string, payload: CouponPayload) {
-    return apiClient.put<Coupon>(`${BASE_ENDPOINT}/${couponId}`, payload, token)
+  updateCoupon(couponId: string, payload: CouponPayload) {
+    return apiClient.put<Coupon>(`${BASE_ENDPOINT}/${couponId}`, payload)
   },
-  deleteCoupon(token: string, couponId: string) {
-    return apiClient.delete<void>(`${BASE_ENDPOINT}/${couponId}`, token)
+  deleteCoupon(couponId: string) {
+    return apiClient.delete<void>(`${BASE_ENDPOINT}/${couponId}`)
   }
 }
 
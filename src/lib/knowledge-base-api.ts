@@ -1,4 +1,4 @@
-import { apiClient } from './api-client'
+import { apiClient, type RequestOptions } from './api-client'
 import type {
   KnowledgeBaseDocument,
   KnowledgeBaseDependentAgent,
@@ -12,7 +12,7 @@ type AttachDocumentPayload = {
 }
 
 export const knowledgeBaseApi = {
-  async listDocuments(token: string, params: KnowledgeBaseQueryParams = {}) {
+  async listDocuments(params: KnowledgeBaseQueryParams = {}, options?: RequestOptions) {
     const queryParams = new URLSearchParams()
 
     if (params.page_size !== undefined) {
@@ -36,26 +36,23 @@ export const knowledgeBaseApi = {
 
     const queryString = queryParams.toString()
     const endpoint = `/auth/user/knowledge-base${queryString ? `?${queryString}` : ''}`
-    return apiClient.get<KnowledgeBaseListResponse>(endpoint, token)
+    return apiClient.get<KnowledgeBaseListResponse>(endpoint, options)
   },
 
-  async getDocument(token: string, documentId: string) {
-    return apiClient.get<KnowledgeBaseDocument>(`/auth/user/knowledge-base/${documentId}`, token)
+  async getDocument(documentId: string) {
+    return apiClient.get<KnowledgeBaseDocument>(`/auth/user/knowledge-base/${documentId}`)
   },
 
-  async deleteDocument(token: string, documentId: string) {
-    return apiClient.delete<void>(`/auth/user/knowledge-base/${documentId}`, token)
+  async deleteDocument(documentId: string) {
+    return apiClient.delete<void>(`/auth/user/knowledge-base/${documentId}`)
   },
 
-  async getDependentAgents(token: string, documentId: string) {
-    return apiClient.get<KnowledgeBaseDependentAgent[]>(
-      `/auth/admin/knowledge-base/${documentId}/dependent-agents`,
-      token
-    )
+  async getDependentAgents(documentId: string) {
+    return apiClient.get<KnowledgeBaseDependentAgent[]>(`/auth/admin/knowledge-base/${documentId}/dependent-agents`)
   },
 
-  async attachDocumentToAgent(token: string, agentId: string, payload: AttachDocumentPayload) {
-    return apiClient.post(`/auth/admin/agents/${agentId}/knowledge-base`, payload, token)
+  async attachDocumentToAgent(agentId: string, payload: AttachDocumentPayload) {
+    return apiClient.post(`/auth/admin/agents/${agentId}/knowledge-base`, payload)
   }
 }
 
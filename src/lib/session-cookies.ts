@@ -0,0 +1,204 @@
+/**
+ * Server-side session cookie helpers for the route handlers under `app/api`.
+ * Tokens never reach the browser's JavaScript: they are kept in HttpOnly cookies
+ * and attached to backend requests by the proxy.
+ */
+
+import type { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/helpers/route-access'
+import { digest, signCookieValue, verifyCookieValue } from '@/lib/signed-cookie'
+import type { RefreshTokenOut, TokenOut, UserOut } from '@/types/auth'
+
+export const BACKEND_API_URL =
+  process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8000/api/v1'
+
+export const ACCESS_TOKEN_COOKIE = 'auth_access_token'
+export const REFRESH_TOKEN_COOKIE = 'auth_refresh_token'
+
+// While an admin impersonates a user, the admin's own session is parked in these cookies
+const IMPERSONATOR_COOKIE = 'auth_impersonator'
+const STASHED_SESSION_COOKIES: Record<string, string> = {
+  [ACCESS_TOKEN_COOKIE]: 'auth_impersonator_access_token',
+  [REFRESH_TOKEN_COOKIE]: 'auth_impersonator_refresh_token',
+  [SESSION_COOKIE]: 'auth_impersonator_session',
+}
+
+// Sent with every backend request made during impersonation so it can be audited
+export const IMPERSONATOR_HEADER = 'x-impersonator-id'
+
+export const REFRESH_ENDPOINT = '/auth/refresh'
+export const PROFILE_ENDPOINT = '/auth/user/user-profile'
+
+// Used when the backend issues a refresh token without telling us its lifetime
+const DEFAULT_REFRESH_MAX_AGE = 7 * 24 * 60 * 60
+
+// An impersonated session ends after this long, the parked admin session with it
+const IMPERSONATION_MAX_AGE = 60 * 60
+
+const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge,
+})
+
+// Browsers never send a cookie's expiry back, so each session cookie's is kept in a companion
+// cookie, letting a parked session be restored with the lifetime it had left
+const EXPIRY_SUFFIX = '_expires_at'
+
+const setSessionCookie = (response: NextResponse, name: string, value: string, maxAge: number) => {
+  response.cookies.set(name, value, cookieOptions(maxAge))
+  response.cookies.set(`${name}${EXPIRY_SUFFIX}`, String(Date.now() + maxAge * 1000), cookieOptions(maxAge))
+}
+
+const clearCookie = (response: NextResponse, name: string) => {
+  response.cookies.set(name, '', cookieOptions(0))
+  response.cookies.set(`${name}${EXPIRY_SUFFIX}`, '', cookieOptions(0))
+}
+
+export const isTokenResponse = (data: unknown): data is TokenOut | RefreshTokenOut =>
+  !!data && typeof data === 'object' && typeof (data as TokenOut).access_token === 'string'
+
+/**
+ * Drop the tokens from a backend token response before it is sent to the browser
+ */
+export const stripTokens = ({
+  access_token: _accessToken,
+  refresh_token: _refreshToken,
+  refresh_expires_in: _refreshExpiresIn,
+  ...rest
+}: TokenOut | RefreshTokenOut) => rest
+
+type SessionCookieOptions = {
+  // Re-signed when a refresh rotates the refresh token without returning the user
+  currentRole?: string | null
+  // No cookie outlives this moment (ms since the epoch), used to end impersonated sessions on time
+  expiresAt?: number
+}
+
+/**
+ * Store the tokens from a backend token response. The role cookie is signed together with a digest
+ * of the token it was issued for, the middleware trusts no role it can't tie to the session's tokens.
+ */
+export const setSessionCookies = async (
+  response: NextResponse,
+  tokenData: TokenOut | RefreshTokenOut,
+  { currentRole, expiresAt }: SessionCookieOptions = {}
+) => {
+  const capped = (maxAge: number) =>
+    expiresAt === undefined ? maxAge : Math.min(maxAge, Math.max(0, Math.floor((expiresAt - Date.now()) / 1000)))
+
+  setSessionCookie(response, ACCESS_TOKEN_COOKIE, tokenData.access_token, capped(tokenData.expires_in))
+
+  // The session lasts as long as it can be refreshed, or until the access token expires
+  const sessionMaxAge = capped(
+    tokenData.refresh_token ? tokenData.refresh_expires_in ?? DEFAULT_REFRESH_MAX_AGE : tokenData.expires_in
+  )
+
+  if (tokenData.refresh_token) {
+    setSessionCookie(response, REFRESH_TOKEN_COOKIE, tokenData.refresh_token, sessionMaxAge)
+  }
+  const role = tokenData.user?.role ?? (tokenData.refresh_token ? currentRole : null)
+  if (role) {
+    const binding = await digest(tokenData.refresh_token ?? tokenData.access_token)
+    const signedRole = await signCookieValue(SESSION_COOKIE, `${role}:${binding}`, sessionMaxAge)
+    setSessionCookie(response, SESSION_COOKIE, signedRole, sessionMaxAge)
+  }
+}
+
+/**
+ * Role of the current session, null unless the role cookie carries a valid signature and was
+ * issued for one of the token cookies sent with the request
+ */
+export const getSessionRole = async (request: NextRequest) => {
+  const signed = await verifyCookieValue(SESSION_COOKIE, request.cookies.get(SESSION_COOKIE)?.value)
+  if (!signed) return null
+
+  const [role, binding] = signed.value.split(':')
+  if (!role || !binding) return null
+
+  for (const name of [REFRESH_TOKEN_COOKIE, ACCESS_TOKEN_COOKIE]) {
+    const token = request.cookies.get(name)?.value
+    if (token && (await digest(token)) === binding) return role
+  }
+  return null
+}
+
+export const clearImpersonatorCookies = (response: NextResponse) => {
+  response.cookies.set(IMPERSONATOR_COOKIE, '', cookieOptions(0))
+  Object.values(STASHED_SESSION_COOKIES).forEach((name) => clearCookie(response, name))
+}
+
+export const clearSessionCookies = (response: NextResponse) => {
+  for (const name of [ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, SESSION_COOKIE]) {
+    clearCookie(response, name)
+  }
+  clearImpersonatorCookies(response)
+}
+
+export type Impersonation = {
+  impersonator: UserOut
+  // When the impersonated session ends, in ms since the epoch
+  expiresAt: number
+}
+
+/**
+ * The admin behind the current session, null unless impersonating. Only a cookie signed by
+ * stashImpersonatorSession counts, the backend audits requests under this admin.
+ */
+export const getImpersonation = async (request: NextRequest): Promise<Impersonation | null> => {
+  const signed = await verifyCookieValue(IMPERSONATOR_COOKIE, request.cookies.get(IMPERSONATOR_COOKIE)?.value)
+  if (!signed) return null
+
+  try {
+    const impersonator = JSON.parse(signed.value) as UserOut
+    return impersonator?.id ? { impersonator, expiresAt: signed.expiresAt } : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Park the current (admin) session so it can be restored when impersonation ends.
+ * The live session cookies are cleared, call setSessionCookies with the returned expiry afterwards
+ * for the new session.
+ */
+export const stashImpersonatorSession = async (
+  request: NextRequest,
+  response: NextResponse,
+  impersonator: UserOut
+): Promise<number> => {
+  const signedImpersonator = await signCookieValue(IMPERSONATOR_COOKIE, JSON.stringify(impersonator), IMPERSONATION_MAX_AGE)
+
+  Object.entries(STASHED_SESSION_COOKIES).forEach(([name, stashedName]) => {
+    const value = request.cookies.get(name)?.value
+    const expiresAt = request.cookies.get(`${name}${EXPIRY_SUFFIX}`)?.value
+    if (value && expiresAt) {
+      response.cookies.set(stashedName, value, cookieOptions(IMPERSONATION_MAX_AGE))
+      response.cookies.set(`${stashedName}${EXPIRY_SUFFIX}`, expiresAt, cookieOptions(IMPERSONATION_MAX_AGE))
+    }
+    clearCookie(response, name)
+  })
+  response.cookies.set(IMPERSONATOR_COOKIE, signedImpersonator, cookieOptions(IMPERSONATION_MAX_AGE))
+  return Date.now() + IMPERSONATION_MAX_AGE * 1000
+}
+
+/**
+ * Put the parked admin session back in place of the impersonated one, each cookie with the
+ * lifetime it had left when it was parked
+ */
+export const restoreImpersonatorSession = (request: NextRequest, response: NextResponse) => {
+  Object.entries(STASHED_SESSION_COOKIES).forEach(([name, stashedName]) => {
+    const value = request.cookies.get(stashedName)?.value
+    const expiresAt = Number(request.cookies.get(`${stashedName}${EXPIRY_SUFFIX}`)?.value)
+    const remaining = Number.isFinite(expiresAt) ? Math.floor((expiresAt - Date.now()) / 1000) : 0
+    if (value && remaining > 0) {
+      setSessionCookie(response, name, value, remaining)
+    } else {
+      clearCookie(response, name)
+    }
+  })
+  clearImpersonatorCookies(response)
+}
+
@@ -0,0 +1,96 @@
+/**
+ * HMAC-signed cookie values, shared by the route handlers under `app/api` and the middleware,
+ * so only Web Crypto is used. SESSION_SECRET signs them and is required, signing or verifying
+ * without it throws.
+ */
+
+type SignedPayload = {
+  // Cookie the value was signed for, so a value can't be moved to another cookie
+  n: string
+  v: string
+  // Expiry in ms since the epoch
+  exp: number
+}
+
+export type SignedValue = {
+  value: string
+  expiresAt: number
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+let cachedKey: Promise<CryptoKey> | null = null
+
+/**
+ * The configured SESSION_SECRET, throws when it is missing so a misconfigured deployment fails
+ * instead of turning every visit into a redirect to sign-in
+ */
+export const requireSessionSecret = () => {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not set, session cookies cannot be signed or verified (see .env.example)')
+  }
+  return secret
+}
+
+const getKey = () => {
+  const secret = requireSessionSecret()
+  cachedKey ??= crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ])
+  return cachedKey
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * SHA-256 of `value`, base64url encoded
+ */
+export const digest = async (value: string) =>
+  toBase64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(value))))
+
+/**
+ * Sign `value` for the cookie `name`, valid for `maxAge` seconds
+ */
+export const signCookieValue = async (name: string, value: string, maxAge: number): Promise<string> => {
+  const key = await getKey()
+
+  const payload: SignedPayload = { n: name, v: value, exp: Date.now() + maxAge * 1000 }
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)))
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)))
+  return `${body}.${toBase64Url(signature)}`
+}
+
+/**
+ * The value signed for the cookie `name`, null when it is missing, tampered with or expired
+ */
+export const verifyCookieValue = async (name: string, signed: string | undefined): Promise<SignedValue | null> => {
+  if (!signed) return null
+  const key = await getKey()
+
+  const [body, signature, ...rest] = signed.split('.')
+  if (!body || !signature || rest.length > 0) return null
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), encoder.encode(body))
+    if (!valid) return null
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as Partial<SignedPayload>
+    if (payload.n !== name || typeof payload.v !== 'string' || typeof payload.exp !== 'number') return null
+    if (payload.exp <= Date.now()) return null
+    return { value: payload.v, expiresAt: payload.exp }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * next-auth configuration for single sign-on. next-auth only runs the OIDC flow with the identity
+ * provider, the resulting ID token is exchanged for a backend session by the `app/api/auth/sso` route.
+ *
+ * SSO_ISSUER, SSO_CLIENT_ID and SSO_CLIENT_SECRET configure the provider, SSO is off without them.
+ * NEXTAUTH_URL must point at SSO_BASE_PATH (e.g. http://localhost:3000/api/sso) and NEXTAUTH_SECRET must be set.
+ */
+
+import type { NextAuthOptions } from 'next-auth'
+import type { OAuthConfig } from 'next-auth/providers/oauth'
+import { isUserRole } from '@/helpers/permissions'
+import { SSO_ERROR_PATH, SSO_PROVIDER_ID } from '@/helpers/route-access'
+import type { UserRole } from '@/types/auth'
+
+type OidcProfile = {
+  sub: string
+  email?: string
+  name?: string
+  preferred_username?: string
+}
+
+export const SSO_EXCHANGE_ENDPOINT = '/auth/sso/exchange'
+
+// The ID token is only needed until it has been exchanged
+const SSO_SESSION_MAX_AGE = 10 * 60
+
+const buildOidcProvider = (): OAuthConfig<OidcProfile> | null => {
+  const issuer = process.env.SSO_ISSUER
+  const clientId = process.env.SSO_CLIENT_ID
+  const clientSecret = process.env.SSO_CLIENT_SECRET
+  if (!issuer || !clientId || !clientSecret) return null
+
+  return {
+    id: SSO_PROVIDER_ID,
+    name: process.env.SSO_PROVIDER_NAME || 'SSO',
+    type: 'oauth',
+    wellKnown: `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+    clientId,
+    clientSecret,
+    authorization: { params: { scope: 'openid email profile' } },
+    idToken: true,
+    checks: ['pkce', 'state'],
+    profile: (profile) => ({
+      id: profile.sub,
+      name: profile.name ?? profile.preferred_username ?? null,
+      email: profile.email ?? null,
+    }),
+  }
+}
+
+/**
+ * Role given to accounts created on their first SSO sign-in (SSO_DEFAULT_ROLE).
+ * Null turns just-in-time provisioning off, so only identities already linked to a user can sign in.
+ */
+export const getSsoDefaultRole = (): UserRole | null => {
+  const role = process.env.SSO_DEFAULT_ROLE
+  if (!role) return null
+  if (!isUserRole(role)) {
+    console.error(`Ignoring unknown SSO_DEFAULT_ROLE "${role}"`)
+    return null
+  }
+  return role
+}
+
+const oidcProvider = buildOidcProvider()
+
+export const authOptions: NextAuthOptions = {
+  providers: oidcProvider ? [oidcProvider] : [],
+  session: { strategy: 'jwt', maxAge: SSO_SESSION_MAX_AGE },
+  pages: {
+    signIn: '/auth/admin/sign-in',
+    error: SSO_ERROR_PATH,
+  },
+  callbacks: {
+    jwt: ({ token, account }) => {
+      if (account?.id_token) token.idToken = account.id_token
+      return token
+    },
+  },
+}
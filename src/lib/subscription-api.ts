@@ -4,17 +4,17 @@ import type { SubscriptionPlan, SubscriptionPlanListResponse, SubscriptionPlanPa
 const BASE_ENDPOINT = '/auth/admin/billing/plans'
 
 export const subscriptionApi = {
-  listPlans(token: string) {
-    return apiClient.get<SubscriptionPlanListResponse | SubscriptionPlan[]>(BASE_ENDPOINT, token)
+  listPlans() {
+    return apiClient.get<SubscriptionPlanListResponse | SubscriptionPlan[]>(BASE_ENDPOINT)
   },
-  createPlan(token: string, payload: SubscriptionPlanPayload) {
-    return apiClient.post<SubscriptionPlan>(BASE_ENDPOINT, payload, token)
+  createPlan(payload: SubscriptionPlanPayload) {
+    return apiClient.post<SubscriptionPlan>(BASE_ENDPOINT, payload)
   },
-  updatePlan(token: string, planId: string, payload: SubscriptionPlanPayload) {
-    return apiClient.put<SubscriptionPlan>(`${BASE_ENDPOINT}/${planId}`, payload, token)
+  updatePlan(planId: string, payload: SubscriptionPlanPayload) {
+    return apiClient.put<SubscriptionPlan>(`${BASE_ENDPOINT}/${planId}`, payload)
   },
-  deletePlan(token: string, planId: string) {
-    return apiClient.delete<void>(`${BASE_ENDPOINT}/${planId}`, token)
+  deletePlan(planId: string) {
+    return apiClient.delete<void>(`${BASE_ENDPOINT}/${planId}`)
   }
 }
 
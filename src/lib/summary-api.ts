@@ -3,14 +3,149 @@
  * Handles all summary-related API calls to the backend
  */
 
-import { apiClient } from './api-client'
-import type { SummaryOut, SummaryQueryParams, SummaryListResponse } from '@/types/summary'
+import { apiClient, type ApiResponse, type RequestOptions } from './api-client'
+import { getTimeZoneName } from '@/helpers/summary'
+import { getTimeZoneOffset } from '@/helpers/timezone'
+import type {
+  CallSummary,
+  CallSummaryListResponse,
+  CallSummaryUrgency,
+  SummaryOut,
+  SummaryQueryParams,
+  SummaryListResponse,
+  SummaryBulkViewStatusResponse,
+  SummaryUnreadCountResponse,
+} from '@/types/summary'
+
+// Page size used when collecting every matching summary, e.g. for exports
+const EXPORT_PAGE_SIZE = 200
+
+const URGENT_VALUES = ['true', 'yes', 'high', 'urgent']
+
+const DURATION_UNITS: Record<string, number> = { h: 3600, m: 60, s: 1 }
+
+const text = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed ? trimmed : null
+}
+
+const textList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string' && !!entry.trim()) : []
+
+/**
+ * Duration arrives as "02:35", "1:02:35", "2m 35s", "2 minutes 35 seconds" or a bare number of seconds
+ */
+const parseDuration = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? Math.round(value) : null
+  const raw = text(value)?.toLowerCase()
+  if (!raw) return null
+
+  if (/^\d+(\.\d+)?$/.test(raw)) return Math.round(parseFloat(raw))
+
+  if (/^\d+(:\d{1,2}){1,2}$/.test(raw)) {
+    return raw.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0)
+  }
+
+  const units = Array.from(raw.matchAll(/(\d+(?:\.\d+)?)\s*(h|hr|hrs|hours?|m|min|mins|minutes?|s|sec|secs|seconds?)\b/g))
+  if (units.length === 0) return null
+  return Math.round(units.reduce((total, [, amount, unit]) => total + parseFloat(amount) * DURATION_UNITS[unit[0]], 0))
+}
+
+// ISO timestamps that name their own offset, everything else is a wall-clock time
+const ABSOLUTE_TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i
+
+/**
+ * Timings are ISO strings with an offset or wall-clock text like "Start (EST): Monday, January 15, 2024 10:30 AM",
+ * the latter read in the zone named in the prefix, falling back to `fallbackZone`
+ */
+const parseTiming = (value: unknown, fallbackZone: string | null): Date | null => {
+  const raw = text(value)
+  if (!raw) return null
+
+  if (ABSOLUTE_TIMESTAMP.test(raw)) {
+    const parsed = new Date(raw)
+    return Number.isNaN(parsed.getTime()) ? null : parsed
+  }
+
+  const labelled = raw.match(/^(?:start|end)\s*\(([^)]*)\):\s*/i)
+  const wallClock = raw
+    .slice(labelled ? labelled[0].length : 0)
+    .replace(/^[A-Za-z]+,\s*/, '')
+    .replace(/\s+at\s+/i, ' ')
+    .replace(/^(\d{4}-\d{2}-\d{2})T/, '$1 ')
+  const asUtc = new Date(`${wallClock} UTC`)
+  if (Number.isNaN(asUtc.getTime())) return null
+
+  const timeZone = getTimeZoneName(labelled?.[1] ?? fallbackZone)
+  if (!timeZone) return asUtc
+  try {
+    // The offset is the one in effect at the resulting instant, which differs from the one at
+    // `asUtc` when a DST change falls between the two
+    const guess = asUtc.getTime() - getTimeZoneOffset(timeZone, asUtc) * 60000
+    return new Date(asUtc.getTime() - getTimeZoneOffset(timeZone, new Date(guess)) * 60000)
+  } catch {
+    return asUtc
+  }
+}
+
+const parseUrgency = (value: unknown): CallSummaryUrgency => {
+  if (typeof value === 'boolean') return value ? 'urgent' : 'normal'
+  const raw = text(value)
+  if (!raw) return 'unknown'
+  return URGENT_VALUES.includes(raw.toLowerCase()) ? 'urgent' : 'normal'
+}
+
+const getTimingZone = (summary: SummaryOut) => {
+  const timing = text(summary['Call timing']) ?? text(summary['Call Timing'])
+  return timing?.match(/^start\s*\(([^)]*)\)/i)?.[1] ?? null
+}
+
+/**
+ * Map a raw backend summary onto CallSummary
+ */
+export const normalizeSummary = (summary: SummaryOut): CallSummary => {
+  const timezone = text(summary['Selected Timezone']) ?? getTimingZone(summary)
+
+  return {
+    id: text(summary.id),
+    agentId: text(summary['Agent ID']),
+    callerName: text(summary['Caller Name']),
+    callerEmail: text(summary['Caller Email']),
+    callerNumber: text(summary['Caller Number']),
+    callerId: text(summary['Caller ID']),
+    conversationId: text(summary['Conversation ID']),
+    recordingLink: text(summary['Recording Link']),
+    callStart: parseTiming(summary['Call timing'] ?? summary['Call Timing'], timezone),
+    callEnd: parseTiming(summary['End Call timing'], timezone),
+    durationSeconds: parseDuration(summary['Duration']),
+    briefSummary: text(summary['Brief Summary']),
+    detailedSummary: text(summary['Detailed Summary']),
+    questions: textList(summary['Questions asked during call']),
+    actionItems: textList(summary['Action Items']),
+    callSuccess: text(summary['Call Success']),
+    isRead: summary['View_Status'] === true,
+    actionFlag: summary['Action_flag'] === true,
+    actionStatus: text(summary['Action_status']),
+    urgency: parseUrgency(summary['Urgency']),
+    incidentReport: text(summary['Incident_Report']),
+    storeNumber: text(summary['Store Number']),
+    timezone,
+    raw: summary,
+  }
+}
+
+// Keep the rest of the response as is and map only its data
+const mapData = <T, R>(response: ApiResponse<T>, map: (data: T) => R): ApiResponse<R> => ({
+  ...response,
+  data: response.data === undefined ? undefined : map(response.data),
+})
 
 export const summaryApi = {
   /**
    * Get user summaries with optional filters, search, pagination, and sorting
    */
-  async getUserSummaries(token: string, params: SummaryQueryParams = {}) {
+  async getUserSummaries(params: SummaryQueryParams = {}, options?: RequestOptions) {
     const queryParams = new URLSearchParams()
 
     if (params.skip !== undefined) {
@@ -28,12 +163,107 @@ export const summaryApi = {
     if (params.sort) {
       queryParams.append('sort', params.sort)
     }
+    if (params.sort_by) {
+      queryParams.append('sort_by', params.sort_by)
+      queryParams.append('sort_dir', params.sort_dir ?? 'asc')
+    }
     if (params.tz) {
       queryParams.append('tz', params.tz)
     }
+    if (params.from) {
+      queryParams.append('from', params.from)
+    }
+    if (params.to) {
+      queryParams.append('to', params.to)
+    }
+    if (params.agent_id) {
+      queryParams.append('agent_id', params.agent_id)
+    }
+    if (params.store_number) {
+      queryParams.append('store_number', params.store_number)
+    }
+    if (params.call_success) {
+      queryParams.append('call_success', params.call_success)
+    }
+    if (params.min_duration !== undefined) {
+      queryParams.append('min_duration', params.min_duration.toString())
+    }
 
     const endpoint = `/auth/user/summaries${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-    return apiClient.get<SummaryListResponse>(endpoint, token)
+    const response = await apiClient.get<SummaryListResponse>(endpoint, options)
+    return mapData<SummaryListResponse, CallSummaryListResponse>(response, (data) => ({
+      ...data,
+      summaries: data.summaries.map(normalizeSummary),
+    }))
+  },
+
+  /**
+   * Page through getUserSummaries until every summary matching `params` is collected,
+   * stops at the first failed page and returns it
+   */
+  async getAllUserSummaries(
+    params: Omit<SummaryQueryParams, 'skip' | 'limit'> = {},
+    options?: RequestOptions & { onProgress?: (loaded: number, total: number) => void }
+  ): Promise<ApiResponse<CallSummaryListResponse>> {
+    const { onProgress, ...requestOptions } = options ?? {}
+    const summaries: CallSummary[] = []
+    let total = 0
+
+    for (;;) {
+      const response = await this.getUserSummaries(
+        { ...params, skip: summaries.length, limit: EXPORT_PAGE_SIZE },
+        requestOptions
+      )
+      if (response.error || response.aborted || !response.data) return response
+
+      summaries.push(...response.data.summaries)
+      total = response.data.total
+      onProgress?.(summaries.length, total)
+
+      if (response.data.summaries.length < EXPORT_PAGE_SIZE || summaries.length >= total) {
+        return { status: response.status, data: { summaries, total } }
+      }
+    }
+  },
+
+  /**
+   * Get a single summary by id
+   */
+  async getSummary(summaryId: string, options?: RequestOptions) {
+    const response = await apiClient.get<SummaryOut>(`/auth/user/summaries/${summaryId}`, options)
+    return mapData(response, normalizeSummary)
+  },
+
+  /**
+   * Set a summary's View_Status
+   */
+  async updateViewStatus(summaryId: string, viewed: boolean) {
+    const response = await apiClient.patch<SummaryOut>(`/auth/user/summaries/${summaryId}/view-status`, {
+      view_status: viewed,
+    })
+    return mapData(response, normalizeSummary)
+  },
+
+  async markRead(summaryId: string) {
+    return this.updateViewStatus(summaryId, true)
+  },
+
+  async markUnread(summaryId: string) {
+    return this.updateViewStatus(summaryId, false)
+  },
+
+  /**
+   * Set View_Status on many summaries at once
+   */
+  async bulkUpdateViewStatus(summaryIds: string[], viewed: boolean) {
+    return apiClient.patch<SummaryBulkViewStatusResponse>('/auth/user/summaries/view-status', {
+      ids: summaryIds,
+      view_status: viewed,
+    })
+  },
+
+  async getUnreadCount(options?: RequestOptions) {
+    return apiClient.get<SummaryUnreadCountResponse>('/auth/user/summaries/unread-count', options)
   },
 }
 
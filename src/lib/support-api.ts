@@ -0,0 +1,12 @@
+import { apiClient } from './api-client'
+import type { SupportTicketCreatePayload, SupportTicketOut } from '@/types/support'
+
+export const supportApi = {
+  async createTicket(payload: SupportTicketCreatePayload) {
+    return apiClient.post<SupportTicketOut>('/auth/user/support-tickets', payload)
+  },
+
+  async listTickets() {
+    return apiClient.get<SupportTicketOut[]>('/auth/user/support-tickets')
+  },
+}
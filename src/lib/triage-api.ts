@@ -0,0 +1,54 @@
+import { apiClient, type RequestOptions } from './api-client'
+import type {
+  TriageAction,
+  TriageActionPayload,
+  TriageCallOut,
+  TriageCountOut,
+  TriageListResponse,
+  TriageNoteOut,
+  TriageQueryParams,
+  TriageSettingsOut,
+} from '@/types/triage'
+
+const BASE_ENDPOINT = '/auth/user/triage'
+
+const buildQueryString = (params: TriageQueryParams = {}) => {
+  const query = new URLSearchParams()
+  if (params.skip !== undefined) query.append('skip', params.skip.toString())
+  if (params.limit !== undefined) query.append('limit', params.limit.toString())
+  if (params.status) query.append('status', params.status)
+  const qs = query.toString()
+  return qs ? `?${qs}` : ''
+}
+
+export const triageApi = {
+  /**
+   * Urgent, unresolved calls, oldest first
+   */
+  listQueue(params: TriageQueryParams = {}, options?: RequestOptions) {
+    return apiClient.get<TriageListResponse>(`${BASE_ENDPOINT}${buildQueryString(params)}`, options)
+  },
+
+  getCount(options?: RequestOptions) {
+    return apiClient.get<TriageCountOut>(`${BASE_ENDPOINT}/count`, options)
+  },
+
+  /**
+   * Claim, acknowledge or resolve a call, optionally leaving a note
+   */
+  performAction(callId: string, action: TriageAction, payload: TriageActionPayload = {}) {
+    return apiClient.post<TriageCallOut>(`${BASE_ENDPOINT}/${callId}/${action}`, payload)
+  },
+
+  addNote(callId: string, body: string) {
+    return apiClient.post<TriageNoteOut>(`${BASE_ENDPOINT}/${callId}/notes`, { body })
+  },
+
+  getSettings() {
+    return apiClient.get<TriageSettingsOut>(`${BASE_ENDPOINT}/settings`)
+  },
+
+  updateSettings(payload: TriageSettingsOut) {
+    return apiClient.put<TriageSettingsOut>(`${BASE_ENDPOINT}/settings`, payload)
+  },
+}
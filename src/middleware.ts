@@ -1,17 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission, isUserRole } from '@/helpers/permissions'
+import { getRequiredPermission, getSignInPath, isPublicRoute } from '@/helpers/route-access'
+import { getSessionRole } from '@/lib/session-cookies'
+import { requireSessionSecret } from '@/lib/signed-cookie'
 
-export function middleware(request: NextRequest) {
-  const response = NextResponse.next()
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  // Every page, sign-in included, errors until the deployment is configured to sign sessions
+  requireSessionSecret()
 
-  if (request.nextUrl.pathname === '/') {
+  if (isPublicRoute(pathname)) {
+    return NextResponse.next()
+  }
+
+  // Only a role signed for the token cookies sent along counts as a session
+  const role = await getSessionRole(request)
+  if (!isUserRole(role)) {
+    return NextResponse.redirect(new URL(getSignInPath(pathname), request.url))
+  }
+
+  if (pathname === '/') {
     return NextResponse.redirect(new URL('/dashboards', request.url))
   }
-  return response
+
+  const requiredPermission = getRequiredPermission(pathname)
+  if (requiredPermission && !hasPermission(role, requiredPermission)) {
+    return NextResponse.redirect(new URL('/dashboards', request.url))
+  }
+
+  return NextResponse.next()
 }
 
-// See "Matching Paths" below to learn more
+// Run on every page route; API handlers, Next internals and static files are skipped
 export const config = {
-  matcher: '/',
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|gif|svg|webp|ico|css|js|map)$).*)'],
 }
-
-export { default } from 'next-auth/middleware'
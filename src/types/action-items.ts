@@ -0,0 +1,42 @@
+export type ActionItemStatus = 'open' | 'in_progress' | 'done'
+
+export type ActionItemDueFilter = 'overdue' | 'today' | 'week' | 'none'
+
+// One entry from a call's 'Action Items', tracked on its own so it can be assigned and worked through
+export type ActionItemOut = {
+  id: string
+  summary_id: string
+  conversation_id?: string | null
+  text: string
+  status: ActionItemStatus
+  // Free text, customers often hand follow-ups to staff who have no account here
+  assignee?: string | null
+  // Calendar date as YYYY-MM-DD
+  due_date?: string | null
+  caller_name?: string | null
+  caller_number?: string | null
+  call_timing?: string | null
+  recording_link?: string | null
+  created_at: string
+  updated_at?: string | null
+}
+
+export type ActionItemListResponse = {
+  items: ActionItemOut[]
+  total: number
+}
+
+export type ActionItemQueryParams = {
+  skip?: number
+  limit?: number
+  status?: ActionItemStatus
+  search?: string
+  assignee?: string
+  due?: ActionItemDueFilter
+}
+
+export type ActionItemUpdatePayload = {
+  status?: ActionItemStatus
+  assignee?: string | null
+  due_date?: string | null
+}
@@ -0,0 +1,23 @@
+import type { LanguageLiteral, Voice } from '@/types/admin-agent'
+
+// The parts of a customer's own agent they may change themselves, everything else is managed by admins
+export type AgentSettingsOut = {
+  agent_id: string
+  name: string
+  first_message: string | null
+  voice_id: string | null
+  language: LanguageLiteral | null
+  // Languages the agent is set up to speak, the customer picks the primary one from these
+  available_languages: LanguageLiteral[]
+  updated_at?: string | null
+}
+
+export type AgentSettingsUpdatePayload = {
+  first_message?: string
+  voice_id?: string
+  language?: LanguageLiteral
+}
+
+export type AgentVoiceListResponse = {
+  items: Voice[]
+}
@@ -0,0 +1,41 @@
+// Error codes derived from the HTTP status, the response body or the transport failure
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'validation_error'
+  | 'rate_limited'
+  | 'server_error'
+  | 'invalid_response'
+  | 'network_error'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown'
+
+// Field path (e.g. `conversation_config.tts.voice_id`) -> message
+export type ApiFieldErrors = Record<string, string>
+
+type ApiErrorBase = {
+  status: number
+  message: string
+  requestId?: string
+}
+
+// FastAPI-style `detail: [{ loc, msg }]` responses
+export type ApiValidationError = ApiErrorBase & {
+  code: 'validation_error'
+  fieldErrors: ApiFieldErrors
+}
+
+// Request never produced a usable response
+export type ApiTransportError = ApiErrorBase & {
+  code: 'network_error' | 'timeout' | 'cancelled' | 'invalid_response'
+}
+
+export type ApiHttpError = ApiErrorBase & {
+  code: Exclude<ApiErrorCode, ApiValidationError['code'] | ApiTransportError['code']>
+}
+
+export type ApiError = ApiValidationError | ApiTransportError | ApiHttpError
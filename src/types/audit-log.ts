@@ -0,0 +1,35 @@
+export type AuditEntityType = 'user' | 'agent' | 'coupon' | 'plan' | 'document'
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'assign' | 'unassign' | 'block' | 'unblock' | 'impersonate'
+
+export type AuditLogEntry = {
+  id: string
+  actor_id: string
+  actor_username?: string | null
+  actor_email?: string | null
+  // Set when the actor was an admin impersonating another user
+  impersonator_id?: string | null
+  action: AuditAction | string
+  entity_type: AuditEntityType
+  entity_id: string
+  entity_label?: string | null
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+  request_id?: string | null
+  created_at: string
+}
+
+export type AuditLogListResponse = {
+  items: AuditLogEntry[]
+  total: number
+}
+
+export type AuditLogQueryParams = {
+  skip?: number
+  limit?: number
+  actor?: string
+  entity_type?: AuditEntityType
+  entity_id?: string
+  date_from?: string
+  date_to?: string
+}
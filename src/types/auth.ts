@@ -1,19 +1,88 @@
+// Staff roles sign in through the admin portal, 'user' is a customer account
+export type UserRole = 'owner' | 'admin' | 'billing-admin' | 'support' | 'viewer' | 'user'
+
 // User types matching backend API response
 export type UserOut = {
   id: string
   username: string
   email: string
-  role: 'admin' | 'user'
+  role: UserRole
   agent_id: string | null
   created_at: string
   blocked: boolean
+  two_factor_enabled?: boolean
+  // IANA zone timestamps are shown in, null to follow the browser
+  timezone?: string | null
 }
 
 export type TokenOut = {
   access_token: string
   token_type?: string
   expires_in: number
+  refresh_token?: string
+  refresh_expires_in?: number
+  user: UserOut
+}
+
+// Refresh responses may omit the user when the profile is unchanged
+export type RefreshTokenOut = Omit<TokenOut, 'user'> & {
+  user?: UserOut
+}
+
+// Token responses as the browser sees them, the tokens themselves stay in HttpOnly cookies
+export type SessionOut = Omit<TokenOut, 'access_token' | 'refresh_token' | 'refresh_expires_in'>
+export type RefreshSessionOut = Omit<RefreshTokenOut, 'access_token' | 'refresh_token' | 'refresh_expires_in'>
+
+// Session as reported by the app's own route handlers, impersonator is set while an admin acts as the user
+export type CurrentSessionOut = {
   user: UserOut
+  impersonator: UserOut | null
+}
+
+// Returned by admin sign-in instead of a session when the account has 2FA enabled
+export type TwoFactorChallengeOut = {
+  two_factor_required: true
+  challenge_token: string
+  expires_in: number
+}
+
+export type AdminSignInOut = SessionOut | TwoFactorChallengeOut
+
+// Either a code from the authenticator app or one of the single-use recovery codes
+export type TwoFactorVerifyRequest = {
+  challenge_token: string
+  code?: string
+  recovery_code?: string
+}
+
+export type TwoFactorStatusOut = {
+  enabled: boolean
+  recovery_codes_remaining: number
+}
+
+// `qr_code` is an image data URL encoding `otpauth_url`
+export type TwoFactorSetupOut = {
+  secret: string
+  otpauth_url: string
+  qr_code: string
+}
+
+export type TwoFactorRecoveryCodesOut = {
+  recovery_codes: string[]
+}
+
+// A signed-in device, `current` marks the session making the request
+export type ActiveSessionOut = {
+  id: string
+  device_type?: 'desktop' | 'mobile' | 'tablet' | null
+  device?: string | null
+  browser?: string | null
+  os?: string | null
+  ip_address?: string | null
+  location?: string | null
+  created_at: string
+  last_active_at: string
+  current: boolean
 }
 
 export type AdminUserListResponse = {
@@ -38,6 +107,11 @@ export type SignupOTPRequestOut = {
   detail?: string
 }
 
+export type SignupOTPVerifyRequest = {
+  email: string
+  otp: string
+}
+
 export type SignInRequest = {
   email: string
   password: string
@@ -235,3 +235,10 @@ export type SellerType = {
   createdAt: Date
   revenue: number
 }
+
+export type FaqType = {
+  id: string
+  category: 'Calls' | 'Agent' | 'Billing' | 'Account'
+  question: string
+  answer: string
+}
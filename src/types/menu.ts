@@ -1,4 +1,5 @@
 import { HTMLAttributeAnchorTarget, ReactNode } from 'react'
+import type { Permission } from '@/helpers/permissions'
 
 export type MenuItemType = {
   key: string
@@ -13,6 +14,7 @@ export type MenuItemType = {
   parentKey?: string
   target?: HTMLAttributeAnchorTarget
   isDisabled?: boolean
+  permission?: Permission
   children?: MenuItemType[]
 }
 
@@ -27,9 +27,49 @@ export type SummaryOut = {
   [key: string]: any // Allow extra fields
 }
 
-export type SummaryFilters = 'all' | 'read' | 'unread' | 'urgent'
+// Raw `Urgency` collapsed to one value, `unknown` when the backend sent nothing
+export type CallSummaryUrgency = 'urgent' | 'normal' | 'unknown'
+
+// SummaryOut normalized by summary-api, what the UI works with
+export interface CallSummary {
+  id: string | null
+  agentId: string | null
+  callerName: string | null
+  callerEmail: string | null
+  callerNumber: string | null
+  callerId: string | null
+  conversationId: string | null
+  recordingLink: string | null
+  callStart: Date | null
+  callEnd: Date | null
+  durationSeconds: number | null
+  briefSummary: string | null
+  detailedSummary: string | null
+  questions: string[]
+  actionItems: string[]
+  callSuccess: string | null
+  isRead: boolean
+  actionFlag: boolean
+  actionStatus: string | null
+  urgency: CallSummaryUrgency
+  incidentReport: string | null
+  storeNumber: string | null
+  // Zone the backend rendered the timings in
+  timezone: string | null
+  // Untouched backend record, for debugging
+  raw: SummaryOut
+}
+
+// 'incidents' keeps calls that have an Incident_Report
+export type SummaryFilters = 'all' | 'read' | 'unread' | 'urgent' | 'incidents'
 export type SummarySort = 'newest' | 'oldest'
-export type Timezone = 'UTC' | 'EST' | 'CST' | 'MST' | 'PST'
+// Fields the backend can order by, sort_by takes precedence over `sort` when both are sent
+export type SummarySortField = 'call_timing' | 'caller_name' | 'duration' | 'urgency'
+export type SummarySortDirection = 'asc' | 'desc'
+// IANA zone name such as "Europe/Berlin"
+export type Timezone = string
+// The backend's verdict on whether the agent achieved the call's goal
+export type SummaryCallSuccess = 'success' | 'failure' | 'unknown'
 
 export interface SummaryQueryParams {
   skip?: number
@@ -37,7 +77,17 @@ export interface SummaryQueryParams {
   search?: string
   filter?: SummaryFilters
   sort?: SummarySort
+  sort_by?: SummarySortField
+  sort_dir?: SummarySortDirection
   tz?: Timezone
+  // Inclusive YYYY-MM-DD bounds on call timing, read in `tz`
+  from?: string
+  to?: string
+  // Omitted, staff get calls across every agent they manage
+  agent_id?: string
+  store_number?: string
+  call_success?: SummaryCallSuccess
+  min_duration?: number // seconds
 }
 
 export interface SummaryListResponse {
@@ -45,3 +95,15 @@ export interface SummaryListResponse {
   total: number
 }
 
+export interface CallSummaryListResponse {
+  summaries: CallSummary[]
+  total: number
+}
+
+export interface SummaryBulkViewStatusResponse {
+  updated: number
+}
+
+export interface SummaryUnreadCountResponse {
+  count: number
+}
@@ -0,0 +1,23 @@
+export type SupportTicketCategory = 'billing' | 'agent' | 'call-records' | 'account' | 'other'
+
+export type SupportTicketPriority = 'low' | 'normal' | 'high'
+
+export type SupportTicketStatus = 'open' | 'pending' | 'resolved' | 'closed'
+
+export type SupportTicketCreatePayload = {
+  subject: string
+  category: SupportTicketCategory
+  priority: SupportTicketPriority
+  description: string
+  // Conversation the request is about, if any
+  conversation_id?: string
+}
+
+export type SupportTicketOut = {
+  id: string
+  subject: string
+  category: SupportTicketCategory
+  priority: SupportTicketPriority
+  status: SupportTicketStatus
+  created_at: string
+}
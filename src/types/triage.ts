@@ -0,0 +1,59 @@
+// new → claimed → acknowledged → resolved, claiming is optional so a call may be acknowledged straight away
+export type TriageStatus = 'new' | 'claimed' | 'acknowledged' | 'resolved'
+
+export type TriageAction = 'claim' | 'acknowledge' | 'resolve'
+
+export type TriageNoteOut = {
+  id: string
+  author_name: string
+  body: string
+  // The action the note was left with, null for a standalone note
+  action?: TriageAction | null
+  created_at: string
+}
+
+// An urgent call summary with its triage state
+export type TriageCallOut = {
+  id: string
+  conversation_id?: string | null
+  caller_name?: string | null
+  caller_number?: string | null
+  store_number?: string | null
+  brief_summary?: string | null
+  incident_report?: string | null
+  recording_link?: string | null
+  // When the call came in, the SLA timer counts from here
+  received_at: string
+  status: TriageStatus
+  claimed_by_name?: string | null
+  claimed_at?: string | null
+  acknowledged_at?: string | null
+  resolved_at?: string | null
+  notes: TriageNoteOut[]
+}
+
+export type TriageListResponse = {
+  items: TriageCallOut[]
+  total: number
+}
+
+export type TriageQueryParams = {
+  skip?: number
+  limit?: number
+  // Defaults to every unresolved status
+  status?: Exclude<TriageStatus, 'resolved'>
+}
+
+export type TriageCountOut = {
+  open: number
+  // Open calls older than the response window
+  overdue: number
+}
+
+export type TriageSettingsOut = {
+  response_window_minutes: number
+}
+
+export type TriageActionPayload = {
+  note?: string
+}